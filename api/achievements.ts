@@ -0,0 +1,54 @@
+import { ensureSchema, getSql, json, methodNotAllowed } from "../server/neon";
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,24}$/;
+// Mirrors ACHIEVEMENTS in src/App.tsx.
+const ACHIEVEMENT_IDS = ["perfect-round", "streak-10", "all-vintage", "week-streak", "quick-draw"];
+
+async function readAchievements(deviceId: string) {
+  const sql = getSql();
+  const rows = await sql`SELECT achievement, unlocked_at FROM achievements WHERE device_id = ${deviceId}`;
+  return Object.fromEntries(rows.map((row) => [row.achievement, new Date(row.unlocked_at).toISOString().slice(0, 10)]));
+}
+
+export default async function handler(request: Request) {
+  if (request.method === "GET") {
+    const deviceId = String(new URL(request.url).searchParams.get("deviceId") || "").trim();
+    if (!deviceId || deviceId.length > 100) return json({ error: "Invalid anonymous device ID" }, { status: 400 });
+    await ensureSchema();
+    return json({ achievements: await readAchievements(deviceId) }, { headers: { "Cache-Control": "no-store" } });
+  }
+  if (request.method !== "POST") return methodNotAllowed("GET, POST");
+
+  let body: any;
+  try { body = await request.json(); } catch { return json({ error: "Invalid JSON" }, { status: 400 }); }
+  const name = String(body?.name || "").trim();
+  const deviceId = String(body?.deviceId || "").trim();
+  const achievements = body?.achievements;
+  if (!USERNAME_PATTERN.test(name)) return json({ error: "Username must be 3–24 letters, numbers, _ or -" }, { status: 400 });
+  if (!deviceId || deviceId.length > 100) return json({ error: "Invalid anonymous device ID" }, { status: 400 });
+  if (!Array.isArray(achievements) || achievements.length === 0 || !achievements.every((id) => ACHIEVEMENT_IDS.includes(id))) {
+    return json({ error: "Unknown achievement" }, { status: 400 });
+  }
+
+  await ensureSchema();
+  const sql = getSql();
+  const [owner] = await sql`SELECT device_id FROM profiles WHERE username = ${name}`;
+  if (owner && owner.device_id !== deviceId) return json({ error: "Username already in use" }, { status: 409 });
+
+  try {
+    await sql.transaction((tx) => [
+      tx`INSERT INTO profiles (device_id, username) VALUES (${deviceId}, ${name})
+         ON CONFLICT (device_id) DO UPDATE SET username = EXCLUDED.username`,
+      ...[...new Set<string>(achievements)].map((id) =>
+        tx`INSERT INTO achievements (device_id, achievement) VALUES (${deviceId}, ${id})
+           ON CONFLICT (device_id, achievement) DO NOTHING`
+      ),
+    ]);
+  } catch (error: any) {
+    if (error?.code === "23505" || String(error?.message || "").includes("unique")) return json({ error: "Username already in use" }, { status: 409 });
+    throw error;
+  }
+  return json({ ok: true, achievements: await readAchievements(deviceId) }, { headers: { "Cache-Control": "no-store" } });
+}
+
+export const config = { runtime: "edge" };
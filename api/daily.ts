@@ -0,0 +1,99 @@
+import { ensureSchema, getSql, json, methodNotAllowed } from "../server/neon";
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,24}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_SCORE = 2900;
+const WINNERS_LIMIT = 3;
+
+function utcDateKey(offsetDays = 0, from = Date.now()) {
+  return new Date(from + offsetDays * 86_400_000).toISOString().slice(0, 10);
+}
+
+function previousDateKey(date: string) {
+  return utcDateKey(-1, Date.parse(`${date}T00:00:00Z`));
+}
+
+async function readDailyStatus(date: string, deviceId: string) {
+  const sql = getSql();
+  const leaderboard = await sql`
+    SELECT p.username AS name, p.device_id AS "deviceId", d.score, d.best_streak AS "bestStreak"
+    FROM daily_scores d JOIN profiles p ON p.device_id = d.device_id
+    WHERE d.challenge_date = ${date} AND d.completed_at IS NOT NULL
+    ORDER BY d.score DESC, d.completed_at ASC`;
+  const yesterday = await sql`
+    SELECT p.username AS name, p.device_id AS "deviceId", d.score, d.best_streak AS "bestStreak"
+    FROM daily_scores d JOIN profiles p ON p.device_id = d.device_id
+    WHERE d.challenge_date = ${previousDateKey(date)} AND d.completed_at IS NOT NULL
+    ORDER BY d.score DESC, d.completed_at ASC
+    LIMIT ${WINNERS_LIMIT}`;
+  const [own] = deviceId
+    ? await sql`SELECT score, best_streak, completed_at FROM daily_scores WHERE challenge_date = ${date} AND device_id = ${deviceId}`
+    : [];
+  let result = null;
+  if (own?.completed_at) {
+    const rank = leaderboard.filter((entry) => Number(entry.score) > Number(own.score)).length + 1;
+    result = { score: Number(own.score), bestStreak: Number(own.best_streak), rank, totalPlayers: leaderboard.length };
+  }
+  return { date, attempted: Boolean(own), result, leaderboard, yesterday };
+}
+
+export default async function handler(request: Request) {
+  if (request.method === "GET") {
+    const deviceId = String(new URL(request.url).searchParams.get("deviceId") || "").trim();
+    if (deviceId.length > 100) return json({ error: "Invalid anonymous device ID" }, { status: 400 });
+    await ensureSchema();
+    return json(await readDailyStatus(utcDateKey(), deviceId), { headers: { "Cache-Control": "no-store" } });
+  }
+  if (request.method !== "POST") return methodNotAllowed("GET, POST");
+
+  let body: any;
+  try { body = await request.json(); } catch { return json({ error: "Invalid JSON" }, { status: 400 }); }
+  const action = String(body?.action || "");
+  const name = String(body?.name || "").trim();
+  const deviceId = String(body?.deviceId || "").trim();
+  if (!USERNAME_PATTERN.test(name)) return json({ error: "Username must be 3–24 letters, numbers, _ or -" }, { status: 400 });
+  if (!deviceId || deviceId.length > 100) return json({ error: "Invalid anonymous device ID" }, { status: 400 });
+
+  await ensureSchema();
+  const sql = getSql();
+
+  if (action === "start") {
+    const date = utcDateKey();
+    const [attempt] = await sql`SELECT 1 FROM daily_scores WHERE challenge_date = ${date} AND device_id = ${deviceId}`;
+    if (attempt) return json({ error: "Today's challenge has already been played", attempted: true, date }, { status: 409 });
+    const [owner] = await sql`SELECT device_id FROM profiles WHERE username = ${name}`;
+    if (owner && owner.device_id !== deviceId) return json({ error: "Username already in use" }, { status: 409 });
+    try {
+      await sql.transaction((tx) => [
+        tx`INSERT INTO profiles (device_id, username) VALUES (${deviceId}, ${name})
+           ON CONFLICT (device_id) DO UPDATE SET username = EXCLUDED.username`,
+        tx`INSERT INTO daily_scores (challenge_date, device_id) VALUES (${date}, ${deviceId})`,
+      ]);
+    } catch (error: any) {
+      if (error?.code === "23505") return json({ error: "Today's challenge has already been played", attempted: true, date }, { status: 409 });
+      throw error;
+    }
+    return json({ ok: true, date }, { headers: { "Cache-Control": "no-store" } });
+  }
+
+  if (action === "finish") {
+    const date = String(body?.date || "");
+    const score = Number(body?.score);
+    const bestStreak = Number(body?.bestStreak);
+    // A run that started just before midnight UTC may finish on the next day.
+    if (!DATE_PATTERN.test(date) || (date !== utcDateKey() && date !== utcDateKey(-1))) return json({ error: "Invalid challenge date" }, { status: 400 });
+    if (!Number.isInteger(score) || score < 0 || score > MAX_SCORE) return json({ error: "Invalid score" }, { status: 400 });
+    if (!Number.isInteger(bestStreak) || bestStreak < 0 || bestStreak > 10) return json({ error: "Invalid streak" }, { status: 400 });
+    const [attempt] = await sql`SELECT completed_at FROM daily_scores WHERE challenge_date = ${date} AND device_id = ${deviceId}`;
+    if (!attempt) return json({ error: "No daily attempt was started" }, { status: 404 });
+    if (attempt.completed_at) return json({ error: "Today's challenge has already been submitted", attempted: true }, { status: 409 });
+    await sql`
+      UPDATE daily_scores SET score = ${score}, best_streak = ${bestStreak}, completed_at = CURRENT_TIMESTAMP
+      WHERE challenge_date = ${date} AND device_id = ${deviceId} AND completed_at IS NULL`;
+    return json(await readDailyStatus(date, deviceId), { headers: { "Cache-Control": "no-store" } });
+  }
+
+  return json({ error: "Unknown action" }, { status: 400 });
+}
+
+export const config = { runtime: "edge" };
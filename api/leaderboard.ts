@@ -1,15 +1,28 @@
 import { ensureSchema, getSql, json, methodNotAllowed } from "../server/neon";
 
+const MODE_COLUMNS: Record<string, { score: string; updatedAt: string }> = {
+  classic: { score: "score", updatedAt: "updated_at" },
+  survival: { score: "survival_score", updatedAt: "survival_updated_at" },
+  timeAttack: { score: "time_attack_score", updatedAt: "time_attack_updated_at" },
+  typing: { score: "typing_score", updatedAt: "typing_updated_at" },
+  silhouette: { score: "silhouette_score", updatedAt: "silhouette_updated_at" },
+};
+
 export default async function handler(request: Request) {
   if (request.method !== "GET") return methodNotAllowed("GET");
+  const mode = new URL(request.url).searchParams.get("mode") || "classic";
+  const columns = Object.hasOwn(MODE_COLUMNS, mode) ? MODE_COLUMNS[mode] : null;
+  if (!columns) return json({ error: "Unknown game mode" }, { status: 400 });
   await ensureSchema();
   const sql = getSql();
+  const scoreColumn = sql.unsafe(`s.${columns.score}`);
+  const updatedColumn = sql.unsafe(`s.${columns.updatedAt}`);
   const leaderboard = await sql`
-    SELECT p.username AS name, p.device_id AS "deviceId", s.score, s.updated_at AS date
+    SELECT p.username AS name, p.device_id AS "deviceId", ${scoreColumn} AS score, ${updatedColumn} AS date
     FROM scores s JOIN profiles p ON p.device_id = s.device_id
-    WHERE s.score > 0
-    ORDER BY s.score DESC, s.updated_at ASC`;
-  return json({ leaderboard }, { headers: { "Cache-Control": "public, max-age=15" } });
+    WHERE ${scoreColumn} > 0
+    ORDER BY ${scoreColumn} DESC, ${updatedColumn} ASC`;
+  return json({ mode, leaderboard }, { headers: { "Cache-Control": "public, max-age=15" } });
 }
 
 export const config = { runtime: "edge" };
@@ -0,0 +1,60 @@
+import { ensureSchema, getSql, json, methodNotAllowed } from "../server/neon";
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,24}$/;
+// Mirrors CAMPAIGN_TIERS in src/aircraftData.ts, in career order.
+const CAMPAIGN_TIERS = ["airliners", "military", "vintage", "rare-ga"];
+const PASS_ACCURACY = 80;
+
+async function readProgress(deviceId: string) {
+  const sql = getSql();
+  const rows = await sql`SELECT tier, accuracy FROM campaign_progress WHERE device_id = ${deviceId}`;
+  return Object.fromEntries(rows.map((row) => [row.tier, Number(row.accuracy)]));
+}
+
+export default async function handler(request: Request) {
+  if (request.method === "GET") {
+    const deviceId = String(new URL(request.url).searchParams.get("deviceId") || "").trim();
+    if (!deviceId || deviceId.length > 100) return json({ error: "Invalid anonymous device ID" }, { status: 400 });
+    await ensureSchema();
+    return json({ progress: await readProgress(deviceId) }, { headers: { "Cache-Control": "no-store" } });
+  }
+  if (request.method !== "POST") return methodNotAllowed("GET, POST");
+
+  let body: any;
+  try { body = await request.json(); } catch { return json({ error: "Invalid JSON" }, { status: 400 }); }
+  const name = String(body?.name || "").trim();
+  const deviceId = String(body?.deviceId || "").trim();
+  const tier = String(body?.tier || "");
+  const accuracy = Number(body?.accuracy);
+  if (!USERNAME_PATTERN.test(name)) return json({ error: "Username must be 3–24 letters, numbers, _ or -" }, { status: 400 });
+  if (!deviceId || deviceId.length > 100) return json({ error: "Invalid anonymous device ID" }, { status: 400 });
+  const tierIndex = CAMPAIGN_TIERS.indexOf(tier);
+  if (tierIndex === -1) return json({ error: "Unknown tier" }, { status: 400 });
+  if (!Number.isInteger(accuracy) || accuracy < 0 || accuracy > 100) return json({ error: "Invalid accuracy" }, { status: 400 });
+
+  await ensureSchema();
+  const sql = getSql();
+  const progress = await readProgress(deviceId);
+  if (tierIndex > 0 && (progress[CAMPAIGN_TIERS[tierIndex - 1]] ?? 0) < PASS_ACCURACY) {
+    return json({ error: "That tier is still locked" }, { status: 403 });
+  }
+  const [owner] = await sql`SELECT device_id FROM profiles WHERE username = ${name}`;
+  if (owner && owner.device_id !== deviceId) return json({ error: "Username already in use" }, { status: 409 });
+
+  try {
+    await sql.transaction((tx) => [
+      tx`INSERT INTO profiles (device_id, username) VALUES (${deviceId}, ${name})
+         ON CONFLICT (device_id) DO UPDATE SET username = EXCLUDED.username`,
+      tx`INSERT INTO campaign_progress (device_id, tier, accuracy) VALUES (${deviceId}, ${tier}, ${accuracy})
+         ON CONFLICT (device_id, tier) DO UPDATE SET
+           accuracy = GREATEST(campaign_progress.accuracy, EXCLUDED.accuracy),
+           updated_at = CASE WHEN EXCLUDED.accuracy > campaign_progress.accuracy THEN CURRENT_TIMESTAMP ELSE campaign_progress.updated_at END`,
+    ]);
+  } catch (error: any) {
+    if (error?.code === "23505" || String(error?.message || "").includes("unique")) return json({ error: "Username already in use" }, { status: 409 });
+    throw error;
+  }
+  return json({ ok: true, progress: await readProgress(deviceId) }, { headers: { "Cache-Control": "no-store" } });
+}
+
+export const config = { runtime: "edge" };
@@ -1,7 +1,103 @@
 import { ensureSchema, getSql, json, methodNotAllowed } from "../server/neon";
 
 const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,24}$/;
-const MAX_SCORE = 2900;
+const MAX_SCORE = 2900; // a perfect Normal round
+
+// Points are scaled by difficulty, so every limit below is checked against
+// the score divided back to the Normal scale.
+const DIFFICULTY_MULTIPLIERS: Record<string, number> = { easy: 0.5, normal: 1, expert: 1.5 };
+
+// Every other mode keeps its own columns and ranking; the classic CHECK
+// constraints only describe a 10-question multiple-choice round.
+const MODE_COLUMNS = {
+  survival: { score: "survival_score", streak: "survival_streak", updatedAt: "survival_updated_at" },
+  timeAttack: { score: "time_attack_score", streak: "time_attack_streak", updatedAt: "time_attack_updated_at" },
+  typing: { score: "typing_score", streak: "typing_streak", updatedAt: "typing_updated_at" },
+  silhouette: { score: "silhouette_score", streak: "silhouette_streak", updatedAt: "silhouette_updated_at" },
+} as const;
+type RankedMode = keyof typeof MODE_COLUMNS;
+
+// Each lifeline may be used once per run and costs a quarter of one answer's
+// points. A right answer is worth at least 100 on the Normal scale and a wrong
+// one nothing, so every use lowers a fixed round's ceiling by at least 25.
+// The server only sees the lifelines the client reports: a client that leaves
+// some out gets the higher ceiling, so this check trusts the client just as
+// the score itself does.
+const LIFELINES = ["fiftyFifty", "extraTime", "specHint"];
+const LIFELINE_MIN_COST = 25;
+// Same list as LIFELINE_MODES in src/App.tsx; challenge and custom rounds are
+// never ranked, so only the first three can reach this endpoint.
+const LIFELINE_MODES = ["classic", "survival", "silhouette", "challenge", "custom"];
+
+function readLifelines(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || new Set(value).size !== value.length) return null;
+  return value.every((lifeline) => LIFELINES.includes(lifeline)) ? value : null;
+}
+
+// A survival run ends on the third miss, so its correct answers form at most
+// three streaks, each worth at most 200 points plus 20 per prior answer.
+function isPlausibleSurvivalScore(score: number, bestStreak: number) {
+  const bestSegment = 200 * bestStreak + 10 * bestStreak * (bestStreak - 1);
+  return bestStreak <= 1000 && score <= 3 * bestSegment;
+}
+
+// Time Attack gives 60 seconds with no speed bonus: 100 points per answer
+// plus 20 per prior answer in the streak, so the best streak caps the average.
+const TIME_ATTACK_MAX_ANSWERS = 200;
+
+function isPlausibleTimeAttackScore(score: number, bestStreak: number) {
+  const perAnswer = 100 + 10 * Math.max(0, bestStreak - 1);
+  return bestStreak <= TIME_ATTACK_MAX_ANSWERS && score <= TIME_ATTACK_MAX_ANSWERS * perAnswer;
+}
+
+async function submitModeScore(
+  mode: RankedMode,
+  { name, deviceId, score, bestStreak }: { name: string; deviceId: string; score: number; bestStreak: number }
+) {
+  const sql = getSql();
+  const column = MODE_COLUMNS[mode];
+  const scoreColumn = sql.unsafe(column.score);
+  const streakColumn = sql.unsafe(column.streak);
+  const updatedColumn = sql.unsafe(column.updatedAt);
+  const [existing] = await sql`SELECT ${scoreColumn} AS score FROM scores WHERE device_id = ${deviceId} AND ${updatedColumn} IS NOT NULL`;
+  const previousBest = existing ? Number(existing.score) : null;
+
+  try {
+    await sql.transaction((tx) => [
+      tx`INSERT INTO profiles (device_id, username) VALUES (${deviceId}, ${name})
+         ON CONFLICT (device_id) DO UPDATE SET username = EXCLUDED.username`,
+      tx`INSERT INTO scores (device_id, score, best_streak, ${scoreColumn}, ${streakColumn}, ${updatedColumn})
+         VALUES (${deviceId}, 0, 0, ${score}, ${bestStreak}, CURRENT_TIMESTAMP)
+         ON CONFLICT (device_id) DO UPDATE SET
+           ${scoreColumn} = GREATEST(scores.${scoreColumn}, EXCLUDED.${scoreColumn}),
+           ${streakColumn} = GREATEST(scores.${streakColumn}, EXCLUDED.${streakColumn}),
+           ${updatedColumn} = CASE WHEN scores.${updatedColumn} IS NULL OR EXCLUDED.${scoreColumn} > scores.${scoreColumn} THEN CURRENT_TIMESTAMP ELSE scores.${updatedColumn} END`,
+    ]);
+  } catch (error: any) {
+    if (error?.code === "23505" || String(error?.message || "").includes("unique")) return json({ error: "Username already in use" }, { status: 409 });
+    throw error;
+  }
+
+  const [finalScore] = await sql`SELECT ${scoreColumn} AS score, ${streakColumn} AS best_streak FROM scores WHERE device_id = ${deviceId}`;
+  const [standing] = await sql`
+    SELECT
+      (SELECT COUNT(*)::int + 1 FROM scores WHERE ${scoreColumn} > ${finalScore.score}) AS rank,
+      (SELECT COUNT(*)::int FROM scores WHERE ${scoreColumn} > 0) AS "totalPlayers"`;
+  const rank = Number(standing.rank);
+  const totalPlayers = Number(standing.totalPlayers);
+  return json({
+    ok: true,
+    mode,
+    personalRecord: previousBest === null ? score > 0 : score > previousBest,
+    previousBest,
+    personalBest: Number(finalScore.score),
+    bestStreak: Number(finalScore.best_streak),
+    rank: totalPlayers ? rank : null,
+    totalPlayers,
+    topPercent: totalPlayers ? Math.max(1, Math.ceil((rank / totalPlayers) * 100)) : null,
+  }, { headers: { "Cache-Control": "no-store" } });
+}
 
 export default async function handler(request: Request) {
   if (request.method !== "POST") return methodNotAllowed("POST");
@@ -11,17 +107,32 @@ export default async function handler(request: Request) {
   const deviceId = String(body?.deviceId || "").trim();
   const score = Number(body?.score);
   const bestStreak = Number(body?.bestStreak);
+  const mode = String(body?.mode || "classic");
+  const difficulty = String(body?.difficulty || "normal");
   if (!USERNAME_PATTERN.test(name)) return json({ error: "Username must be 3–24 letters, numbers, _ or -" }, { status: 400 });
   if (!deviceId || deviceId.length > 100) return json({ error: "Invalid anonymous device ID" }, { status: 400 });
-  if (!Number.isInteger(score) || score < 0 || score > MAX_SCORE) return json({ error: "Invalid score" }, { status: 400 });
-  if (!Number.isInteger(bestStreak) || bestStreak < 0 || bestStreak > 10) return json({ error: "Invalid streak" }, { status: 400 });
+  if (mode !== "classic" && !Object.hasOwn(MODE_COLUMNS, mode)) return json({ error: "Unknown game mode" }, { status: 400 });
+  if (!Object.hasOwn(DIFFICULTY_MULTIPLIERS, difficulty)) return json({ error: "Unknown difficulty" }, { status: 400 });
+  // Typing has no options to make harder, so it only ever scores at ×1.
+  if (mode === "typing" && difficulty !== "normal") return json({ error: "Unknown difficulty" }, { status: 400 });
+  const normalScore = score / DIFFICULTY_MULTIPLIERS[difficulty];
+  const lifelines = readLifelines(body?.lifelines);
+  if (!lifelines || (lifelines.length > 0 && !LIFELINE_MODES.includes(mode))) return json({ error: "Invalid lifelines" }, { status: 400 });
+  const fixedRound = mode === "classic" || mode === "typing" || mode === "silhouette";
+  const maxScore = MAX_SCORE - LIFELINE_MIN_COST * lifelines.length;
+  if (!Number.isInteger(score) || score < 0 || (fixedRound && normalScore > maxScore)) return json({ error: "Invalid score" }, { status: 400 });
+  if (!Number.isInteger(bestStreak) || bestStreak < 0 || (fixedRound && bestStreak > 10)) return json({ error: "Invalid streak" }, { status: 400 });
+  if (mode === "survival" && !isPlausibleSurvivalScore(normalScore, bestStreak)) return json({ error: "Invalid score" }, { status: 400 });
+  if (mode === "timeAttack" && !isPlausibleTimeAttackScore(normalScore, bestStreak)) return json({ error: "Invalid score" }, { status: 400 });
 
   await ensureSchema();
   const sql = getSql();
-  const [existing] = await sql`SELECT score, best_streak FROM scores WHERE device_id = ${deviceId}`;
-  const previousBest = existing ? Number(existing.score) : null;
   const [owner] = await sql`SELECT device_id FROM profiles WHERE username = ${name}`;
   if (owner && owner.device_id !== deviceId) return json({ error: "Username already in use" }, { status: 409 });
+  if (mode !== "classic") return submitModeScore(mode as RankedMode, { name, deviceId, score, bestStreak });
+
+  const [existing] = await sql`SELECT score, best_streak FROM scores WHERE device_id = ${deviceId}`;
+  const previousBest = existing ? Number(existing.score) : null;
 
   try {
     await sql.transaction((tx) => [
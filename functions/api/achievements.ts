@@ -0,0 +1,78 @@
+interface Env {
+  DB: D1Database;
+}
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,24}$/;
+// Mirrors ACHIEVEMENTS in src/App.tsx.
+const ACHIEVEMENT_IDS = ["perfect-round", "streak-10", "all-vintage", "week-streak", "quick-draw"];
+
+async function readAchievements(db: D1Database, deviceId: string) {
+  const { results } = await db.prepare(
+    "SELECT achievement, unlocked_at FROM achievements WHERE device_id = ?1"
+  ).bind(deviceId).all<{ achievement: string; unlocked_at: string }>();
+  return Object.fromEntries(results.map((row) => [row.achievement, row.unlocked_at.slice(0, 10)]));
+}
+
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  const deviceId = String(new URL(request.url).searchParams.get("deviceId") || "").trim();
+  if (!deviceId || deviceId.length > 100) {
+    return Response.json({ error: "Invalid anonymous device ID" }, { status: 400 });
+  }
+  return Response.json(
+    { achievements: await readAchievements(env.DB, deviceId) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+};
+
+export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const name = String(body?.name || "").trim();
+  const deviceId = String(body?.deviceId || "").trim();
+  const achievements = body?.achievements;
+
+  if (!USERNAME_PATTERN.test(name)) {
+    return Response.json({ error: "Username must be 3–24 letters, numbers, _ or -" }, { status: 400 });
+  }
+  if (!deviceId || deviceId.length > 100) {
+    return Response.json({ error: "Invalid anonymous device ID" }, { status: 400 });
+  }
+  if (
+    !Array.isArray(achievements) ||
+    achievements.length === 0 ||
+    !achievements.every((id) => ACHIEVEMENT_IDS.includes(id))
+  ) {
+    return Response.json({ error: "Unknown achievement" }, { status: 400 });
+  }
+
+  const usernameOwner = await env.DB.prepare(
+    "SELECT device_id FROM profiles WHERE username = ?1"
+  ).bind(name).first<{ device_id: string }>();
+  if (usernameOwner && usernameOwner.device_id !== deviceId) {
+    return Response.json({ error: "Username already in use" }, { status: 409 });
+  }
+
+  await env.DB.batch([
+    env.DB.prepare(
+      `INSERT INTO profiles (device_id, username)
+       VALUES (?1, ?2)
+       ON CONFLICT(device_id) DO UPDATE SET username = excluded.username`
+    ).bind(deviceId, name),
+    ...[...new Set<string>(achievements)].map((id) =>
+      env.DB.prepare(
+        `INSERT INTO achievements (device_id, achievement)
+         VALUES (?1, ?2)
+         ON CONFLICT(device_id, achievement) DO NOTHING`
+      ).bind(deviceId, id)
+    ),
+  ]);
+  return Response.json(
+    { ok: true, achievements: await readAchievements(env.DB, deviceId) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+};
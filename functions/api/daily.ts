@@ -0,0 +1,147 @@
+interface Env {
+  DB: D1Database;
+}
+
+type DailyRow = { name: string; deviceId: string; score: number; bestStreak: number };
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,24}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_SCORE = 2900;
+const WINNERS_LIMIT = 3;
+
+function utcDateKey(offsetDays = 0, from = Date.now()) {
+  return new Date(from + offsetDays * 86_400_000).toISOString().slice(0, 10);
+}
+
+function previousDateKey(date: string) {
+  return utcDateKey(-1, Date.parse(`${date}T00:00:00Z`));
+}
+
+async function readDailyStatus(db: D1Database, date: string, deviceId: string) {
+  const standings = db.prepare(
+    `SELECT p.username AS name, p.device_id AS deviceId, d.score, d.best_streak AS bestStreak
+     FROM daily_scores d
+     JOIN profiles p ON p.device_id = d.device_id
+     WHERE d.challenge_date = ?1 AND d.completed_at IS NOT NULL
+     ORDER BY d.score DESC, d.completed_at ASC
+     LIMIT ?2`
+  );
+  const [{ results: leaderboard }, { results: yesterday }] = await Promise.all([
+    standings.bind(date, -1).all<DailyRow>(),
+    standings.bind(previousDateKey(date), WINNERS_LIMIT).all<DailyRow>(),
+  ]);
+  const own = deviceId
+    ? await db.prepare(
+        "SELECT score, best_streak, completed_at FROM daily_scores WHERE challenge_date = ?1 AND device_id = ?2"
+      ).bind(date, deviceId).first<{ score: number; best_streak: number; completed_at: string | null }>()
+    : null;
+
+  let result = null;
+  if (own?.completed_at) {
+    const rank = leaderboard.filter((entry) => entry.score > own.score).length + 1;
+    result = { score: own.score, bestStreak: own.best_streak, rank, totalPlayers: leaderboard.length };
+  }
+  return { date, attempted: Boolean(own), result, leaderboard, yesterday };
+}
+
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  const deviceId = String(new URL(request.url).searchParams.get("deviceId") || "").trim();
+  if (deviceId.length > 100) {
+    return Response.json({ error: "Invalid anonymous device ID" }, { status: 400 });
+  }
+  return Response.json(
+    await readDailyStatus(env.DB, utcDateKey(), deviceId),
+    { headers: { "Cache-Control": "no-store" } }
+  );
+};
+
+export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const action = String(body?.action || "");
+  const name = String(body?.name || "").trim();
+  const deviceId = String(body?.deviceId || "").trim();
+
+  if (!USERNAME_PATTERN.test(name)) {
+    return Response.json({ error: "Username must be 3–24 letters, numbers, _ or -" }, { status: 400 });
+  }
+  if (!deviceId || deviceId.length > 100) {
+    return Response.json({ error: "Invalid anonymous device ID" }, { status: 400 });
+  }
+
+  if (action === "start") {
+    const date = utcDateKey();
+    const attempt = await env.DB.prepare(
+      "SELECT 1 AS found FROM daily_scores WHERE challenge_date = ?1 AND device_id = ?2"
+    ).bind(date, deviceId).first();
+    if (attempt) {
+      return Response.json({ error: "Today's challenge has already been played", attempted: true, date }, { status: 409 });
+    }
+
+    const usernameOwner = await env.DB.prepare(
+      "SELECT device_id FROM profiles WHERE username = ?1"
+    ).bind(name).first<{ device_id: string }>();
+    if (usernameOwner && usernameOwner.device_id !== deviceId) {
+      return Response.json({ error: "Username already in use" }, { status: 409 });
+    }
+
+    await env.DB.batch([
+      env.DB.prepare(
+        `INSERT INTO profiles (device_id, username)
+         VALUES (?1, ?2)
+         ON CONFLICT(device_id) DO UPDATE SET username = excluded.username`
+      ).bind(deviceId, name),
+      // The attempt is recorded before the first question so quitting or
+      // reloading cannot be used to preview the shared round.
+      env.DB.prepare(
+        "INSERT OR IGNORE INTO daily_scores (challenge_date, device_id) VALUES (?1, ?2)"
+      ).bind(date, deviceId),
+    ]);
+    return Response.json({ ok: true, date }, { headers: { "Cache-Control": "no-store" } });
+  }
+
+  if (action === "finish") {
+    const date = String(body?.date || "");
+    const score = Number(body?.score);
+    const bestStreak = Number(body?.bestStreak);
+
+    // A run that started just before midnight UTC may finish on the next day.
+    if (!DATE_PATTERN.test(date) || (date !== utcDateKey() && date !== utcDateKey(-1))) {
+      return Response.json({ error: "Invalid challenge date" }, { status: 400 });
+    }
+    if (!Number.isInteger(score) || score < 0 || score > MAX_SCORE) {
+      return Response.json({ error: "Invalid score" }, { status: 400 });
+    }
+    if (!Number.isInteger(bestStreak) || bestStreak < 0 || bestStreak > 10) {
+      return Response.json({ error: "Invalid streak" }, { status: 400 });
+    }
+
+    const attempt = await env.DB.prepare(
+      "SELECT completed_at FROM daily_scores WHERE challenge_date = ?1 AND device_id = ?2"
+    ).bind(date, deviceId).first<{ completed_at: string | null }>();
+    if (!attempt) {
+      return Response.json({ error: "No daily attempt was started" }, { status: 404 });
+    }
+    if (attempt.completed_at) {
+      return Response.json({ error: "Today's challenge has already been submitted", attempted: true }, { status: 409 });
+    }
+
+    await env.DB.prepare(
+      `UPDATE daily_scores
+       SET score = ?3, best_streak = ?4, completed_at = CURRENT_TIMESTAMP
+       WHERE challenge_date = ?1 AND device_id = ?2 AND completed_at IS NULL`
+    ).bind(date, deviceId, score, bestStreak).run();
+
+    return Response.json(
+      await readDailyStatus(env.DB, date, deviceId),
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  }
+
+  return Response.json({ error: "Unknown action" }, { status: 400 });
+};
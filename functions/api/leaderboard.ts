@@ -2,17 +2,31 @@ interface Env {
   DB: D1Database;
 }
 
-export const onRequestGet: PagesFunction<Env> = async ({ env }) => {
+const MODE_COLUMNS: Record<string, { score: string; updatedAt: string }> = {
+  classic: { score: "score", updatedAt: "updated_at" },
+  survival: { score: "survival_score", updatedAt: "survival_updated_at" },
+  timeAttack: { score: "time_attack_score", updatedAt: "time_attack_updated_at" },
+  typing: { score: "typing_score", updatedAt: "typing_updated_at" },
+  silhouette: { score: "silhouette_score", updatedAt: "silhouette_updated_at" },
+};
+
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  const mode = new URL(request.url).searchParams.get("mode") || "classic";
+  const columns = Object.hasOwn(MODE_COLUMNS, mode) ? MODE_COLUMNS[mode] : null;
+  if (!columns) {
+    return Response.json({ error: "Unknown game mode" }, { status: 400 });
+  }
+
   const { results } = await env.DB.prepare(
-    `SELECT p.username AS name, p.device_id AS deviceId, s.score, s.updated_at AS date
+    `SELECT p.username AS name, p.device_id AS deviceId, s.${columns.score} AS score, s.${columns.updatedAt} AS date
      FROM scores s
      JOIN profiles p ON p.device_id = s.device_id
-     WHERE s.score > 0
-     ORDER BY s.score DESC, s.updated_at ASC`
+     WHERE s.${columns.score} > 0
+     ORDER BY s.${columns.score} DESC, s.${columns.updatedAt} ASC`
   ).all();
 
   return Response.json(
-    { leaderboard: results },
+    { mode, leaderboard: results },
     { headers: { "Cache-Control": "public, max-age=15" } }
   );
 };
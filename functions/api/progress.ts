@@ -0,0 +1,85 @@
+interface Env {
+  DB: D1Database;
+}
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,24}$/;
+// Mirrors CAMPAIGN_TIERS in src/aircraftData.ts, in career order.
+const CAMPAIGN_TIERS = ["airliners", "military", "vintage", "rare-ga"];
+const PASS_ACCURACY = 80;
+
+async function readProgress(db: D1Database, deviceId: string) {
+  const { results } = await db.prepare(
+    "SELECT tier, accuracy FROM campaign_progress WHERE device_id = ?1"
+  ).bind(deviceId).all<{ tier: string; accuracy: number }>();
+  return Object.fromEntries(results.map((row) => [row.tier, row.accuracy]));
+}
+
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  const deviceId = String(new URL(request.url).searchParams.get("deviceId") || "").trim();
+  if (!deviceId || deviceId.length > 100) {
+    return Response.json({ error: "Invalid anonymous device ID" }, { status: 400 });
+  }
+  return Response.json(
+    { progress: await readProgress(env.DB, deviceId) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+};
+
+export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const name = String(body?.name || "").trim();
+  const deviceId = String(body?.deviceId || "").trim();
+  const tier = String(body?.tier || "");
+  const accuracy = Number(body?.accuracy);
+
+  if (!USERNAME_PATTERN.test(name)) {
+    return Response.json({ error: "Username must be 3–24 letters, numbers, _ or -" }, { status: 400 });
+  }
+  if (!deviceId || deviceId.length > 100) {
+    return Response.json({ error: "Invalid anonymous device ID" }, { status: 400 });
+  }
+  const tierIndex = CAMPAIGN_TIERS.indexOf(tier);
+  if (tierIndex === -1) {
+    return Response.json({ error: "Unknown tier" }, { status: 400 });
+  }
+  if (!Number.isInteger(accuracy) || accuracy < 0 || accuracy > 100) {
+    return Response.json({ error: "Invalid accuracy" }, { status: 400 });
+  }
+
+  const progress = await readProgress(env.DB, deviceId);
+  if (tierIndex > 0 && (progress[CAMPAIGN_TIERS[tierIndex - 1]] ?? 0) < PASS_ACCURACY) {
+    return Response.json({ error: "That tier is still locked" }, { status: 403 });
+  }
+
+  const usernameOwner = await env.DB.prepare(
+    "SELECT device_id FROM profiles WHERE username = ?1"
+  ).bind(name).first<{ device_id: string }>();
+  if (usernameOwner && usernameOwner.device_id !== deviceId) {
+    return Response.json({ error: "Username already in use" }, { status: 409 });
+  }
+
+  await env.DB.batch([
+    env.DB.prepare(
+      `INSERT INTO profiles (device_id, username)
+       VALUES (?1, ?2)
+       ON CONFLICT(device_id) DO UPDATE SET username = excluded.username`
+    ).bind(deviceId, name),
+    env.DB.prepare(
+      `INSERT INTO campaign_progress (device_id, tier, accuracy)
+       VALUES (?1, ?2, ?3)
+       ON CONFLICT(device_id, tier) DO UPDATE SET
+         accuracy = CASE WHEN excluded.accuracy > campaign_progress.accuracy THEN excluded.accuracy ELSE campaign_progress.accuracy END,
+         updated_at = CASE WHEN excluded.accuracy > campaign_progress.accuracy THEN CURRENT_TIMESTAMP ELSE campaign_progress.updated_at END`
+    ).bind(deviceId, tier, accuracy),
+  ]);
+  return Response.json(
+    { ok: true, progress: await readProgress(env.DB, deviceId) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+};
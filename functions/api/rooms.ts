@@ -0,0 +1,20 @@
+import { isValidRoomCode } from "../../server/rooms";
+
+interface Env {
+  ROOMS: DurableObjectNamespace;
+}
+
+// Every room code maps to one Durable Object in the airplane-quiz-rooms
+// worker, which holds the sockets, runs the question clock and serves the
+// open question's photo.
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  const url = new URL(request.url);
+  const code = (url.searchParams.get("code") || "").toUpperCase();
+  if (!isValidRoomCode(code)) {
+    return Response.json({ error: "Invalid room code" }, { status: 400 });
+  }
+  if (!url.searchParams.has("photo") && request.headers.get("Upgrade") !== "websocket") {
+    return Response.json({ error: "Expected a WebSocket upgrade" }, { status: 426 });
+  }
+  return env.ROOMS.get(env.ROOMS.idFromName(code)).fetch(request);
+};
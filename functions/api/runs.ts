@@ -0,0 +1,97 @@
+interface Env {
+  DB: D1Database;
+}
+
+const RUN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const SEED_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const TYPES = ["commercial", "military", "vintage", "general"];
+const DIFFICULTY_MULTIPLIERS: Record<string, number> = { easy: 0.5, normal: 1, expert: 1.5 };
+const MAX_SCORE = 2900; // a perfect Normal round
+const MAX_QUESTIONS = 20;
+const MAX_ANSWER_MS = 60000;
+
+type RunAnswer = { aircraftId: string; selectedId: string | null; ms: number; points: number };
+
+// A wrong pick or a timeout scores nothing, and a right one at most the base,
+// the full speed bonus and the streak bonus it could have built so far.
+function isValidRunAnswer(answer: any, index: number, multiplier: number): answer is RunAnswer {
+  return Boolean(
+    answer &&
+      typeof answer.aircraftId === "string" &&
+      answer.aircraftId.length > 0 &&
+      answer.aircraftId.length <= 100 &&
+      (answer.selectedId === null || (typeof answer.selectedId === "string" && answer.selectedId.length <= 100)) &&
+      Number.isInteger(answer.ms) &&
+      answer.ms >= 0 &&
+      answer.ms <= MAX_ANSWER_MS &&
+      Number.isInteger(answer.points) &&
+      answer.points >= 0 &&
+      (answer.selectedId === answer.aircraftId
+        ? answer.points <= Math.floor((200 + 20 * index) * multiplier)
+        : answer.points === 0)
+  );
+}
+
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  const id = String(new URL(request.url).searchParams.get("id") || "");
+  if (!RUN_ID_PATTERN.test(id)) return Response.json({ error: "Invalid run ID" }, { status: 400 });
+  const row = await env.DB.prepare(
+    `SELECT r.id, p.username AS name, r.seed, r.types, r.difficulty, r.score, r.answers
+     FROM runs r JOIN profiles p ON p.device_id = r.device_id WHERE r.id = ?1`
+  ).bind(id).first<any>();
+  if (!row) return Response.json({ error: "Run not found" }, { status: 404 });
+  return Response.json({
+    run: { ...row, types: JSON.parse(row.types), answers: JSON.parse(row.answers) },
+  }, { headers: { "Cache-Control": "public, max-age=300" } });
+};
+
+export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const deviceId = String(body?.deviceId || "").trim();
+  const run = body?.run;
+  if (!deviceId || deviceId.length > 100) {
+    return Response.json({ error: "Invalid anonymous device ID" }, { status: 400 });
+  }
+  const difficulty = String(run?.difficulty || "normal");
+  if (
+    typeof run?.seed !== "string" ||
+    !SEED_PATTERN.test(run.seed) ||
+    !Array.isArray(run.types) ||
+    run.types.length === 0 ||
+    !run.types.every((type: unknown) => TYPES.includes(type as string)) ||
+    !Object.hasOwn(DIFFICULTY_MULTIPLIERS, difficulty)
+  ) {
+    return Response.json({ error: "Invalid round" }, { status: 400 });
+  }
+  const multiplier = DIFFICULTY_MULTIPLIERS[difficulty];
+  const answers = run.answers;
+  if (
+    !Array.isArray(answers) ||
+    answers.length === 0 ||
+    answers.length > MAX_QUESTIONS ||
+    !answers.every((answer: unknown, index: number) => isValidRunAnswer(answer, index, multiplier))
+  ) {
+    return Response.json({ error: "Invalid run log" }, { status: 400 });
+  }
+  const score = (answers as RunAnswer[]).reduce((sum, answer) => sum + answer.points, 0);
+  if (run.score !== score || score / multiplier > MAX_SCORE) {
+    return Response.json({ error: "Score does not match the run log" }, { status: 400 });
+  }
+
+  // Runs belong to a profile the score submission has already created.
+  const profile = await env.DB.prepare("SELECT 1 FROM profiles WHERE device_id = ?1").bind(deviceId).first();
+  if (!profile) return Response.json({ error: "Unknown player" }, { status: 404 });
+
+  const id = crypto.randomUUID();
+  const log = answers.map(({ aircraftId, selectedId, ms, points }: RunAnswer) => ({ aircraftId, selectedId, ms, points }));
+  await env.DB.prepare(
+    `INSERT INTO runs (id, device_id, seed, types, difficulty, score, answers)
+     VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)`
+  ).bind(id, deviceId, run.seed, JSON.stringify(run.types), difficulty, score, JSON.stringify(log)).run();
+  return Response.json({ ok: true, id });
+};
@@ -3,7 +3,106 @@ interface Env {
 }
 
 const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,24}$/;
-const MAX_SCORE = 2900;
+const MAX_SCORE = 2900; // a perfect Normal round
+
+// Points are scaled by difficulty, so every limit below is checked against
+// the score divided back to the Normal scale.
+const DIFFICULTY_MULTIPLIERS: Record<string, number> = { easy: 0.5, normal: 1, expert: 1.5 };
+
+// Every other mode keeps its own columns and ranking; the classic CHECK
+// constraints only describe a 10-question multiple-choice round.
+const MODE_COLUMNS = {
+  survival: { score: "survival_score", streak: "survival_streak", updatedAt: "survival_updated_at" },
+  timeAttack: { score: "time_attack_score", streak: "time_attack_streak", updatedAt: "time_attack_updated_at" },
+  typing: { score: "typing_score", streak: "typing_streak", updatedAt: "typing_updated_at" },
+  silhouette: { score: "silhouette_score", streak: "silhouette_streak", updatedAt: "silhouette_updated_at" },
+} as const;
+type RankedMode = keyof typeof MODE_COLUMNS;
+
+// Each lifeline may be used once per run and costs a quarter of one answer's
+// points. A right answer is worth at least 100 on the Normal scale and a wrong
+// one nothing, so every use lowers a fixed round's ceiling by at least 25.
+// The server only sees the lifelines the client reports: a client that leaves
+// some out gets the higher ceiling, so this check trusts the client just as
+// the score itself does.
+const LIFELINES = ["fiftyFifty", "extraTime", "specHint"];
+const LIFELINE_MIN_COST = 25;
+// Same list as LIFELINE_MODES in src/App.tsx; challenge and custom rounds are
+// never ranked, so only the first three can reach this endpoint.
+const LIFELINE_MODES = ["classic", "survival", "silhouette", "challenge", "custom"];
+
+function readLifelines(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || new Set(value).size !== value.length) return null;
+  return value.every((lifeline) => LIFELINES.includes(lifeline)) ? value : null;
+}
+
+// A survival run ends on the third miss, so its correct answers form at most
+// three streaks, each worth at most 200 points plus 20 per prior answer.
+function isPlausibleSurvivalScore(score: number, bestStreak: number) {
+  const bestSegment = 200 * bestStreak + 10 * bestStreak * (bestStreak - 1);
+  return bestStreak <= 1000 && score <= 3 * bestSegment;
+}
+
+// Time Attack gives 60 seconds with no speed bonus: 100 points per answer
+// plus 20 per prior answer in the streak, so the best streak caps the average.
+const TIME_ATTACK_MAX_ANSWERS = 200;
+
+function isPlausibleTimeAttackScore(score: number, bestStreak: number) {
+  const perAnswer = 100 + 10 * Math.max(0, bestStreak - 1);
+  return bestStreak <= TIME_ATTACK_MAX_ANSWERS && score <= TIME_ATTACK_MAX_ANSWERS * perAnswer;
+}
+
+async function submitModeScore(
+  db: D1Database,
+  mode: RankedMode,
+  { name, deviceId, score, bestStreak }: { name: string; deviceId: string; score: number; bestStreak: number }
+) {
+  const columns = MODE_COLUMNS[mode];
+  const existing = await db.prepare(
+    `SELECT ${columns.score} AS score FROM scores WHERE device_id = ?1 AND ${columns.updatedAt} IS NOT NULL`
+  ).bind(deviceId).first<{ score: number }>();
+  const previousBest = existing?.score ?? null;
+
+  await db.batch([
+    db.prepare(
+      `INSERT INTO profiles (device_id, username)
+       VALUES (?1, ?2)
+       ON CONFLICT(device_id) DO UPDATE SET username = excluded.username`
+    ).bind(deviceId, name),
+    db.prepare(
+      `INSERT INTO scores (device_id, score, best_streak, ${columns.score}, ${columns.streak}, ${columns.updatedAt})
+       VALUES (?1, 0, 0, ?2, ?3, CURRENT_TIMESTAMP)
+       ON CONFLICT(device_id) DO UPDATE SET
+         ${columns.score} = CASE WHEN excluded.${columns.score} > scores.${columns.score} THEN excluded.${columns.score} ELSE scores.${columns.score} END,
+         ${columns.streak} = CASE WHEN excluded.${columns.streak} > scores.${columns.streak} THEN excluded.${columns.streak} ELSE scores.${columns.streak} END,
+         ${columns.updatedAt} = CASE WHEN scores.${columns.updatedAt} IS NULL OR excluded.${columns.score} > scores.${columns.score} THEN CURRENT_TIMESTAMP ELSE scores.${columns.updatedAt} END`
+    ).bind(deviceId, score, bestStreak),
+  ]);
+
+  const finalScore = await db.prepare(
+    `SELECT ${columns.score} AS score, ${columns.streak} AS best_streak FROM scores WHERE device_id = ?1`
+  ).bind(deviceId).first<{ score: number; best_streak: number }>();
+  const rankRow = await db.prepare(
+    `SELECT
+       (SELECT COUNT(*) + 1 FROM scores WHERE ${columns.score} > ?1) AS rank,
+       (SELECT COUNT(*) FROM scores WHERE ${columns.score} > 0) AS total_players`
+  ).bind(finalScore?.score ?? 0).first<{ rank: number; total_players: number }>();
+  const rank = Number(rankRow?.rank || 1);
+  const totalPlayers = Number(rankRow?.total_players || 0);
+
+  return Response.json({
+    ok: true,
+    mode,
+    personalRecord: previousBest === null ? score > 0 : score > previousBest,
+    previousBest,
+    personalBest: Number(finalScore?.score ?? score),
+    bestStreak: Number(finalScore?.best_streak ?? bestStreak),
+    rank: totalPlayers > 0 ? rank : null,
+    totalPlayers,
+    topPercent: totalPlayers > 0 ? Math.max(1, Math.ceil((rank / totalPlayers) * 100)) : null,
+  }, { headers: { "Cache-Control": "no-store" } });
+}
 
 export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
   let body: any;
@@ -17,6 +116,8 @@ export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
   const deviceId = String(body?.deviceId || "").trim();
   const score = Number(body?.score);
   const bestStreak = Number(body?.bestStreak);
+  const mode = String(body?.mode || "classic");
+  const difficulty = String(body?.difficulty || "normal");
 
   if (!USERNAME_PATTERN.test(name)) {
     return Response.json({ error: "Username must be 3–24 letters, numbers, _ or -" }, { status: 400 });
@@ -24,17 +125,35 @@ export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
   if (!deviceId || deviceId.length > 100) {
     return Response.json({ error: "Invalid anonymous device ID" }, { status: 400 });
   }
-  if (!Number.isInteger(score) || score < 0 || score > MAX_SCORE) {
+  if (mode !== "classic" && !Object.hasOwn(MODE_COLUMNS, mode)) {
+    return Response.json({ error: "Unknown game mode" }, { status: 400 });
+  }
+  if (!Object.hasOwn(DIFFICULTY_MULTIPLIERS, difficulty)) {
+    return Response.json({ error: "Unknown difficulty" }, { status: 400 });
+  }
+  // Typing has no options to make harder, so it only ever scores at ×1.
+  if (mode === "typing" && difficulty !== "normal") {
+    return Response.json({ error: "Unknown difficulty" }, { status: 400 });
+  }
+  const normalScore = score / DIFFICULTY_MULTIPLIERS[difficulty];
+  const lifelines = readLifelines(body?.lifelines);
+  if (!lifelines || (lifelines.length > 0 && !LIFELINE_MODES.includes(mode))) {
+    return Response.json({ error: "Invalid lifelines" }, { status: 400 });
+  }
+  const fixedRound = mode === "classic" || mode === "typing" || mode === "silhouette";
+  const maxScore = MAX_SCORE - LIFELINE_MIN_COST * lifelines.length;
+  if (!Number.isInteger(score) || score < 0 || (fixedRound && normalScore > maxScore)) {
     return Response.json({ error: "Invalid score" }, { status: 400 });
   }
-  if (!Number.isInteger(bestStreak) || bestStreak < 0 || bestStreak > 10) {
+  if (!Number.isInteger(bestStreak) || bestStreak < 0 || (fixedRound && bestStreak > 10)) {
     return Response.json({ error: "Invalid streak" }, { status: 400 });
   }
-
-  const existing = await env.DB.prepare(
-    "SELECT score, best_streak FROM scores WHERE device_id = ?1"
-  ).bind(deviceId).first<{ score: number; best_streak: number }>();
-  const previousBest = existing?.score ?? null;
+  if (mode === "survival" && !isPlausibleSurvivalScore(normalScore, bestStreak)) {
+    return Response.json({ error: "Invalid score" }, { status: 400 });
+  }
+  if (mode === "timeAttack" && !isPlausibleTimeAttackScore(normalScore, bestStreak)) {
+    return Response.json({ error: "Invalid score" }, { status: 400 });
+  }
 
   const usernameOwner = await env.DB.prepare(
     "SELECT device_id FROM profiles WHERE username = ?1"
@@ -44,6 +163,15 @@ export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
     return Response.json({ error: "Username already in use" }, { status: 409 });
   }
 
+  if (mode !== "classic") {
+    return submitModeScore(env.DB, mode as RankedMode, { name, deviceId, score, bestStreak });
+  }
+
+  const existing = await env.DB.prepare(
+    "SELECT score, best_streak FROM scores WHERE device_id = ?1"
+  ).bind(deviceId).first<{ score: number; best_streak: number }>();
+  const previousBest = existing?.score ?? null;
+
   await env.DB.batch([
     env.DB.prepare(
       `INSERT INTO profiles (device_id, username)
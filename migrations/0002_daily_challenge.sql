@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS daily_scores (
+  challenge_date TEXT NOT NULL,
+  device_id TEXT NOT NULL REFERENCES profiles(device_id) ON DELETE CASCADE,
+  score INTEGER NOT NULL DEFAULT 0 CHECK(score >= 0 AND score <= 2900),
+  best_streak INTEGER NOT NULL DEFAULT 0 CHECK(best_streak >= 0 AND best_streak <= 10),
+  started_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  completed_at TEXT,
+  PRIMARY KEY (challenge_date, device_id)
+);
+
+CREATE INDEX IF NOT EXISTS daily_scores_ranking_idx
+  ON daily_scores(challenge_date, score DESC, completed_at ASC);
@@ -0,0 +1,6 @@
+ALTER TABLE scores ADD COLUMN survival_score INTEGER NOT NULL DEFAULT 0 CHECK(survival_score >= 0);
+ALTER TABLE scores ADD COLUMN survival_streak INTEGER NOT NULL DEFAULT 0 CHECK(survival_streak >= 0);
+ALTER TABLE scores ADD COLUMN survival_updated_at TEXT;
+
+CREATE INDEX IF NOT EXISTS scores_survival_ranking_idx
+  ON scores(survival_score DESC, survival_updated_at ASC);
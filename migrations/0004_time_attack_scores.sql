@@ -0,0 +1,6 @@
+ALTER TABLE scores ADD COLUMN time_attack_score INTEGER NOT NULL DEFAULT 0 CHECK(time_attack_score >= 0);
+ALTER TABLE scores ADD COLUMN time_attack_streak INTEGER NOT NULL DEFAULT 0 CHECK(time_attack_streak >= 0);
+ALTER TABLE scores ADD COLUMN time_attack_updated_at TEXT;
+
+CREATE INDEX IF NOT EXISTS scores_time_attack_ranking_idx
+  ON scores(time_attack_score DESC, time_attack_updated_at ASC);
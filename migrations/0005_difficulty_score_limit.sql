@@ -0,0 +1,36 @@
+-- Expert rounds score up to 1.5x a Normal round, so a classic score may now
+-- reach 4350. SQLite cannot change a CHECK constraint in place, so the scores
+-- table is rebuilt with its data.
+CREATE TABLE scores_next (
+  device_id TEXT PRIMARY KEY REFERENCES profiles(device_id) ON DELETE CASCADE,
+  score INTEGER NOT NULL CHECK(score >= 0 AND score <= 4350),
+  best_streak INTEGER NOT NULL CHECK(best_streak >= 0 AND best_streak <= 10),
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  survival_score INTEGER NOT NULL DEFAULT 0 CHECK(survival_score >= 0),
+  survival_streak INTEGER NOT NULL DEFAULT 0 CHECK(survival_streak >= 0),
+  survival_updated_at TEXT,
+  time_attack_score INTEGER NOT NULL DEFAULT 0 CHECK(time_attack_score >= 0),
+  time_attack_streak INTEGER NOT NULL DEFAULT 0 CHECK(time_attack_streak >= 0),
+  time_attack_updated_at TEXT
+);
+
+INSERT INTO scores_next (
+  device_id, score, best_streak, updated_at,
+  survival_score, survival_streak, survival_updated_at,
+  time_attack_score, time_attack_streak, time_attack_updated_at
+)
+SELECT
+  device_id, score, best_streak, updated_at,
+  survival_score, survival_streak, survival_updated_at,
+  time_attack_score, time_attack_streak, time_attack_updated_at
+FROM scores;
+
+DROP TABLE scores;
+ALTER TABLE scores_next RENAME TO scores;
+
+CREATE INDEX IF NOT EXISTS scores_ranking_idx
+  ON scores(score DESC, updated_at ASC);
+CREATE INDEX IF NOT EXISTS scores_survival_ranking_idx
+  ON scores(survival_score DESC, survival_updated_at ASC);
+CREATE INDEX IF NOT EXISTS scores_time_attack_ranking_idx
+  ON scores(time_attack_score DESC, time_attack_updated_at ASC);
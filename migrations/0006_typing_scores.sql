@@ -0,0 +1,6 @@
+ALTER TABLE scores ADD COLUMN typing_score INTEGER NOT NULL DEFAULT 0 CHECK(typing_score >= 0);
+ALTER TABLE scores ADD COLUMN typing_streak INTEGER NOT NULL DEFAULT 0 CHECK(typing_streak >= 0);
+ALTER TABLE scores ADD COLUMN typing_updated_at TEXT;
+
+CREATE INDEX IF NOT EXISTS scores_typing_ranking_idx
+  ON scores(typing_score DESC, typing_updated_at ASC);
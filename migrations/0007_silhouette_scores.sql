@@ -0,0 +1,6 @@
+ALTER TABLE scores ADD COLUMN silhouette_score INTEGER NOT NULL DEFAULT 0 CHECK(silhouette_score >= 0);
+ALTER TABLE scores ADD COLUMN silhouette_streak INTEGER NOT NULL DEFAULT 0 CHECK(silhouette_streak >= 0);
+ALTER TABLE scores ADD COLUMN silhouette_updated_at TEXT;
+
+CREATE INDEX IF NOT EXISTS scores_silhouette_ranking_idx
+  ON scores(silhouette_score DESC, silhouette_updated_at ASC);
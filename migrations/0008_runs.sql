@@ -0,0 +1,15 @@
+-- Recorded classic rounds that challenge links can replay as a ghost. The
+-- answers column holds the run log: one JSON entry per question with the
+-- aircraft, the pick, the response time and the points.
+CREATE TABLE IF NOT EXISTS runs (
+  id TEXT PRIMARY KEY,
+  device_id TEXT NOT NULL REFERENCES profiles(device_id) ON DELETE CASCADE,
+  seed TEXT NOT NULL,
+  types TEXT NOT NULL,
+  difficulty TEXT NOT NULL DEFAULT 'normal',
+  score INTEGER NOT NULL CHECK(score >= 0 AND score <= 4350),
+  answers TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS runs_device_idx ON runs(device_id, created_at DESC);
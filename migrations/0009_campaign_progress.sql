@@ -0,0 +1,9 @@
+-- Best accuracy per career tier. A tier is only recorded once the tier
+-- before it has reached the pass mark, so the rows also say what is unlocked.
+CREATE TABLE IF NOT EXISTS campaign_progress (
+  device_id TEXT NOT NULL REFERENCES profiles(device_id) ON DELETE CASCADE,
+  tier TEXT NOT NULL,
+  accuracy INTEGER NOT NULL CHECK(accuracy >= 0 AND accuracy <= 100),
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (device_id, tier)
+);
@@ -0,0 +1,8 @@
+-- Badges a profile has unlocked. Rows are only ever added, so the first
+-- unlock date is kept when a device uploads the same achievement again.
+CREATE TABLE IF NOT EXISTS achievements (
+  device_id TEXT NOT NULL REFERENCES profiles(device_id) ON DELETE CASCADE,
+  achievement TEXT NOT NULL,
+  unlocked_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (device_id, achievement)
+);
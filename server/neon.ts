@@ -26,11 +26,68 @@ export async function ensureSchema() {
       )`;
       await sql`CREATE TABLE IF NOT EXISTS scores (
         device_id VARCHAR(100) PRIMARY KEY REFERENCES profiles(device_id) ON DELETE CASCADE,
-        score INTEGER NOT NULL CHECK(score >= 0 AND score <= 2900),
+        score INTEGER NOT NULL CONSTRAINT scores_score_range CHECK(score >= 0 AND score <= 4350),
         best_streak INTEGER NOT NULL CHECK(best_streak >= 0 AND best_streak <= 10),
         updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
       )`;
       await sql`CREATE INDEX IF NOT EXISTS scores_ranking_idx ON scores(score DESC, updated_at ASC)`;
+      // Expert rounds reach 1.5x the old 2900-point ceiling.
+      await sql`DO $$ BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'scores_score_range') THEN
+          ALTER TABLE scores DROP CONSTRAINT IF EXISTS scores_score_check;
+          ALTER TABLE scores ADD CONSTRAINT scores_score_range CHECK(score >= 0 AND score <= 4350);
+        END IF;
+      END $$`;
+      await sql`ALTER TABLE scores ADD COLUMN IF NOT EXISTS survival_score INTEGER NOT NULL DEFAULT 0 CHECK(survival_score >= 0)`;
+      await sql`ALTER TABLE scores ADD COLUMN IF NOT EXISTS survival_streak INTEGER NOT NULL DEFAULT 0 CHECK(survival_streak >= 0)`;
+      await sql`ALTER TABLE scores ADD COLUMN IF NOT EXISTS survival_updated_at TIMESTAMPTZ`;
+      await sql`CREATE INDEX IF NOT EXISTS scores_survival_ranking_idx ON scores(survival_score DESC, survival_updated_at ASC)`;
+      await sql`ALTER TABLE scores ADD COLUMN IF NOT EXISTS time_attack_score INTEGER NOT NULL DEFAULT 0 CHECK(time_attack_score >= 0)`;
+      await sql`ALTER TABLE scores ADD COLUMN IF NOT EXISTS time_attack_streak INTEGER NOT NULL DEFAULT 0 CHECK(time_attack_streak >= 0)`;
+      await sql`ALTER TABLE scores ADD COLUMN IF NOT EXISTS time_attack_updated_at TIMESTAMPTZ`;
+      await sql`CREATE INDEX IF NOT EXISTS scores_time_attack_ranking_idx ON scores(time_attack_score DESC, time_attack_updated_at ASC)`;
+      await sql`ALTER TABLE scores ADD COLUMN IF NOT EXISTS typing_score INTEGER NOT NULL DEFAULT 0 CHECK(typing_score >= 0)`;
+      await sql`ALTER TABLE scores ADD COLUMN IF NOT EXISTS typing_streak INTEGER NOT NULL DEFAULT 0 CHECK(typing_streak >= 0)`;
+      await sql`ALTER TABLE scores ADD COLUMN IF NOT EXISTS typing_updated_at TIMESTAMPTZ`;
+      await sql`CREATE INDEX IF NOT EXISTS scores_typing_ranking_idx ON scores(typing_score DESC, typing_updated_at ASC)`;
+      await sql`ALTER TABLE scores ADD COLUMN IF NOT EXISTS silhouette_score INTEGER NOT NULL DEFAULT 0 CHECK(silhouette_score >= 0)`;
+      await sql`ALTER TABLE scores ADD COLUMN IF NOT EXISTS silhouette_streak INTEGER NOT NULL DEFAULT 0 CHECK(silhouette_streak >= 0)`;
+      await sql`ALTER TABLE scores ADD COLUMN IF NOT EXISTS silhouette_updated_at TIMESTAMPTZ`;
+      await sql`CREATE INDEX IF NOT EXISTS scores_silhouette_ranking_idx ON scores(silhouette_score DESC, silhouette_updated_at ASC)`;
+      await sql`CREATE TABLE IF NOT EXISTS daily_scores (
+        challenge_date VARCHAR(10) NOT NULL,
+        device_id VARCHAR(100) NOT NULL REFERENCES profiles(device_id) ON DELETE CASCADE,
+        score INTEGER NOT NULL DEFAULT 0 CHECK(score >= 0 AND score <= 2900),
+        best_streak INTEGER NOT NULL DEFAULT 0 CHECK(best_streak >= 0 AND best_streak <= 10),
+        started_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        completed_at TIMESTAMPTZ,
+        PRIMARY KEY (challenge_date, device_id)
+      )`;
+      await sql`CREATE INDEX IF NOT EXISTS daily_scores_ranking_idx ON daily_scores(challenge_date, score DESC, completed_at ASC)`;
+      await sql`CREATE TABLE IF NOT EXISTS runs (
+        id UUID PRIMARY KEY,
+        device_id VARCHAR(100) NOT NULL REFERENCES profiles(device_id) ON DELETE CASCADE,
+        seed VARCHAR(32) NOT NULL,
+        types JSONB NOT NULL,
+        difficulty VARCHAR(10) NOT NULL DEFAULT 'normal',
+        score INTEGER NOT NULL CHECK(score >= 0 AND score <= 4350),
+        answers JSONB NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )`;
+      await sql`CREATE INDEX IF NOT EXISTS runs_device_idx ON runs(device_id, created_at DESC)`;
+      await sql`CREATE TABLE IF NOT EXISTS campaign_progress (
+        device_id VARCHAR(100) NOT NULL REFERENCES profiles(device_id) ON DELETE CASCADE,
+        tier VARCHAR(32) NOT NULL,
+        accuracy INTEGER NOT NULL CHECK(accuracy >= 0 AND accuracy <= 100),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (device_id, tier)
+      )`;
+      await sql`CREATE TABLE IF NOT EXISTS achievements (
+        device_id VARCHAR(100) NOT NULL REFERENCES profiles(device_id) ON DELETE CASCADE,
+        achievement VARCHAR(32) NOT NULL,
+        unlocked_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (device_id, achievement)
+      )`;
     })().catch((error) => {
       schemaReady = null;
       throw error;
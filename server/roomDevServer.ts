@@ -0,0 +1,66 @@
+import type { Plugin } from "vite";
+import { WebSocketServer } from "ws";
+
+// Local stand-in for the rooms Durable Object: `npm run dev` keeps one
+// QuizRoom per code in memory and serves /api/rooms from Vite's own server.
+// The room logic is loaded through Vite rather than imported, so this
+// config's project never compiles the app modules that rooms.ts plans with.
+type RoomSocket = { send(message: string): void; close(code?: number, reason?: string): void };
+type DevRoom = {
+  readonly empty: boolean;
+  photoFor(token: string): { body: ArrayBuffer; contentType: string } | null;
+  receive(socket: RoomSocket, raw: string): void;
+  disconnect(socket: RoomSocket): void;
+};
+type RoomModule = { QuizRoom: new (code: string) => DevRoom; isValidRoomCode(code: string): boolean };
+
+export function roomDevServer(): Plugin {
+  return {
+    name: "room-dev-server",
+    configureServer(server) {
+      const rooms = new Map<string, DevRoom>();
+      const sockets = new WebSocketServer({ noServer: true });
+      const loadRooms = () => server.ssrLoadModule("/server/rooms.ts") as Promise<RoomModule>;
+
+      server.middlewares.use("/api/rooms", (request, response, next) => {
+        const url = new URL(request.originalUrl || request.url || "/", "http://localhost");
+        const token = url.searchParams.get("photo");
+        if (request.method !== "GET" || !token) return next();
+        const photo = rooms.get((url.searchParams.get("code") || "").toUpperCase())?.photoFor(token);
+        if (!photo) {
+          response.statusCode = 404;
+          response.end();
+          return;
+        }
+        response.setHeader("Content-Type", photo.contentType);
+        response.setHeader("Cache-Control", "private, max-age=300");
+        response.end(Buffer.from(photo.body));
+      });
+
+      server.httpServer?.on("upgrade", async (request, socket, head) => {
+        const url = new URL(request.url || "/", "http://localhost");
+        // Anything else, such as Vite's HMR socket, is left to Vite.
+        if (url.pathname !== "/api/rooms") return;
+        const { QuizRoom, isValidRoomCode } = await loadRooms();
+        const code = (url.searchParams.get("code") || "").toUpperCase();
+        if (!isValidRoomCode(code)) {
+          socket.destroy();
+          return;
+        }
+        sockets.handleUpgrade(request, socket, head, (connection) => {
+          const room = rooms.get(code) || new QuizRoom(code);
+          rooms.set(code, room);
+          const roomSocket: RoomSocket = {
+            send: (message) => connection.send(message),
+            close: (closeCode, reason) => connection.close(closeCode, reason),
+          };
+          connection.on("message", (data) => room.receive(roomSocket, data.toString()));
+          connection.on("close", () => {
+            room.disconnect(roomSocket);
+            if (room.empty) rooms.delete(code);
+          });
+        });
+      });
+    },
+  };
+}
@@ -0,0 +1,405 @@
+// Real-time quiz rooms. A host opens a room under a four-letter code, other
+// players join it, and the room's clock opens and closes every question for
+// everyone at once. A room only speaks JSON over an abstract socket, so the
+// Cloudflare Durable Object (workers/rooms) and the Vite dev stand-in
+// (server/roomDevServer.ts) both drive the same class.
+
+import { AIRCRAFT_DB, TYPES, type Aircraft } from "../src/aircraftData";
+import { lookupAircraftPhoto } from "../src/aircraftPhotos";
+import {
+  OPTIONS_PER_QUESTION,
+  aircraftClue,
+  buildSeededRound,
+  distinctClueOptions,
+  silhouetteClass,
+  type Difficulty,
+  type RoundQuestion,
+  type SilhouetteClass,
+  type SpecClue,
+} from "../src/roundPlan";
+
+export const ROOM_MAX_PLAYERS = 12;
+export const ROOM_QUESTION_MS = 15000;
+// Clients preload the next photo before the clock starts; one slow player
+// cannot hold the room for longer than this.
+export const ROOM_PREPARE_MS = 8000;
+export const ROOM_RESULTS_MS = 5000;
+// The room looks the photo up itself before anyone sees the question; past
+// this it falls back to a spec clue so the round never stalls on Wikipedia.
+const ROOM_PHOTO_LOOKUP_MS = 8000;
+const MAX_QUESTIONS = 20;
+const DIFFICULTY_MULTIPLIERS: Record<string, number> = { easy: 0.5, normal: 1, expert: 1.5 };
+
+export interface RoomSocket {
+  send(message: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+type RoomPhase = "lobby" | "prepare" | "question" | "results" | "finished";
+// The host only picks the settings. The room plans the round from a seed it
+// never shares and sends players one question at a time, so nobody, the
+// host included, can read an answer before the question closes.
+type RoomSettings = { types: Aircraft["type"][]; difficulty: Difficulty; count: number };
+type RoomRound = { difficulty: Difficulty; pool: Aircraft[]; questions: RoundQuestion[] };
+// What players receive for the open question. The photo is the room's own
+// URL for an image it already downloaded, so neither the aircraft's name
+// nor the image's Wikimedia address gives the answer away. Without a photo
+// everyone gets the same spec clue over the class silhouette instead.
+type RoomQuestionView = {
+  photo: string | null;
+  options: string[];
+  clue?: SpecClue;
+  silhouette?: { type: Aircraft["type"]; shape: SilhouetteClass };
+};
+type RoomPhoto = { token: string; body: ArrayBuffer; contentType: string };
+type RoomPlayer = {
+  id: string;
+  name: string;
+  socket: RoomSocket | null;
+  score: number;
+  streak: number;
+  ready: boolean;
+  answer: { optionId: string; remainingMs: number } | null;
+  lastPoints: number;
+  lastCorrect: boolean;
+};
+
+export function isValidRoomCode(code: string) {
+  return /^[A-Z]{4}$/.test(code);
+}
+
+function isValidSettings(settings: any): settings is RoomSettings {
+  return Boolean(
+    settings &&
+      Array.isArray(settings.types) &&
+      settings.types.length > 0 &&
+      settings.types.every((type: unknown) => TYPES.some((known) => known === type)) &&
+      Object.hasOwn(DIFFICULTY_MULTIPLIERS, settings.difficulty) &&
+      Number.isInteger(settings.count) &&
+      settings.count > 0 &&
+      settings.count <= MAX_QUESTIONS
+  );
+}
+
+function createToken() {
+  return Math.random().toString(36).slice(2, 12);
+}
+
+async function downloadAircraftPhoto(a: Aircraft) {
+  const url = await lookupAircraftPhoto(a);
+  if (!url) return null;
+  const response = await fetch(url);
+  if (!response.ok) return null;
+  return { body: await response.arrayBuffer(), contentType: response.headers.get("Content-Type") || "image/jpeg" };
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number) {
+  return Promise.race([promise, new Promise<null>((resolve) => setTimeout(() => resolve(null), ms))]);
+}
+
+export class QuizRoom {
+  private phase: RoomPhase = "lobby";
+  private players: RoomPlayer[] = [];
+  private hostId: string | null = null;
+  private round: RoomRound | null = null;
+  private questionIndex = -1;
+  private view: RoomQuestionView | null = null;
+  private photo: RoomPhoto | null = null;
+  private deadline = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private nextPlayerId = 1;
+
+  constructor(readonly code: string) {}
+
+  get empty() {
+    return !this.players.some((player) => player.socket);
+  }
+
+  // Only the open question's photo is served, and only under its token.
+  photoFor(token: string) {
+    return this.photo && this.photo.token === token ? this.photo : null;
+  }
+
+  receive(socket: RoomSocket, raw: string) {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.sendError(socket, "Malformed message");
+      return;
+    }
+    const player = this.players.find((candidate) => candidate.socket === socket);
+    if (!player) {
+      this.admit(socket, message);
+      return;
+    }
+    if (message?.type === "start") this.start(player, message.settings);
+    else if (message?.type === "lobby") this.backToLobby(player);
+    else if (message?.type === "ready") this.markReady(player, message.questionIndex);
+    else if (message?.type === "answer") this.answer(player, message.questionIndex, message.optionId);
+  }
+
+  disconnect(socket: RoomSocket) {
+    const player = this.players.find((candidate) => candidate.socket === socket);
+    if (!player) return;
+    player.socket = null;
+    if (this.empty) {
+      this.reset();
+      return;
+    }
+    // Lobby seats are freed; mid-game players stay on the scoreboard.
+    if (this.phase === "lobby") this.players = this.players.filter((candidate) => candidate !== player);
+    if (this.hostId === player.id) this.hostId = this.players.find((candidate) => candidate.socket)?.id || null;
+    if (this.phase === "prepare") this.openQuestionIfReady();
+    else if (this.phase === "question") this.closeQuestionIfAnswered();
+    this.broadcast();
+  }
+
+  private admit(socket: RoomSocket, message: any) {
+    if (message?.type === "create") {
+      if (!this.empty) {
+        this.reject(socket, "That room code is already in use");
+        return;
+      }
+      this.reset();
+    } else if (message?.type === "join") {
+      if (this.empty) {
+        this.reject(socket, "Room not found");
+        return;
+      }
+      if (this.phase !== "lobby") {
+        this.reject(socket, "That game has already started");
+        return;
+      }
+      if (this.players.length >= ROOM_MAX_PLAYERS) {
+        this.reject(socket, "That room is full");
+        return;
+      }
+    } else {
+      this.reject(socket, "Create or join a room first");
+      return;
+    }
+
+    const baseName = String(message.name || "").trim().slice(0, 24) || "Player";
+    let name = baseName;
+    for (let suffix = 2; this.players.some((player) => player.name === name); suffix++) name = `${baseName} ${suffix}`;
+    const player: RoomPlayer = {
+      id: String(this.nextPlayerId++),
+      name,
+      socket,
+      score: 0,
+      streak: 0,
+      ready: false,
+      answer: null,
+      lastPoints: 0,
+      lastCorrect: false,
+    };
+    this.players.push(player);
+    if (!this.hostId) this.hostId = player.id;
+    this.broadcast();
+  }
+
+  private start(player: RoomPlayer, settings: unknown) {
+    if (player.id !== this.hostId || this.phase !== "lobby") return;
+    if (!isValidSettings(settings)) {
+      this.sendError(player.socket, "Invalid round settings");
+      return;
+    }
+    const pool = AIRCRAFT_DB.filter((a) => settings.types.includes(a.type));
+    if (pool.length < OPTIONS_PER_QUESTION) {
+      this.sendError(player.socket, "Pick more aircraft types");
+      return;
+    }
+    if (this.players.filter((candidate) => candidate.socket).length < 2) {
+      this.sendError(player.socket, "Wait for at least one more player");
+      return;
+    }
+    this.round = { difficulty: settings.difficulty, pool, questions: buildSeededRound(createToken(), pool, settings.count, settings.difficulty) };
+    this.questionIndex = -1;
+    this.prepareQuestion();
+  }
+
+  // A finished room keeps its players for a rematch; seats left empty during
+  // the game are freed and new players may join again.
+  private backToLobby(player: RoomPlayer) {
+    if (player.id !== this.hostId || this.phase !== "finished") return;
+    this.clearTimer();
+    this.phase = "lobby";
+    this.round = null;
+    this.questionIndex = -1;
+    this.view = null;
+    this.photo = null;
+    this.players = this.players.filter((candidate) => candidate.socket);
+    for (const candidate of this.players) {
+      candidate.score = 0;
+      candidate.streak = 0;
+      candidate.ready = false;
+      candidate.answer = null;
+      candidate.lastPoints = 0;
+      candidate.lastCorrect = false;
+    }
+    this.broadcast();
+  }
+
+  private prepareQuestion() {
+    this.clearTimer();
+    this.questionIndex += 1;
+    if (this.questionIndex >= this.round!.questions.length) {
+      this.phase = "finished";
+      this.broadcast();
+      return;
+    }
+    this.phase = "prepare";
+    this.view = null;
+    this.photo = null;
+    for (const player of this.players) {
+      player.ready = false;
+      player.answer = null;
+    }
+    this.broadcast();
+    void this.loadQuestion(this.round!, this.questionIndex);
+  }
+
+  // Runs the same lookup and spec-clue fallback as a solo round, then gives
+  // players the prepare window to load what it found.
+  private async loadQuestion(round: RoomRound, questionIndex: number) {
+    const { correct, options } = round.questions[questionIndex];
+    const photo = await withTimeout(downloadAircraftPhoto(correct), ROOM_PHOTO_LOOKUP_MS).catch(() => null);
+    // The host may have left or the room moved on while the lookup ran.
+    if (this.round !== round || this.questionIndex !== questionIndex || this.phase !== "prepare") return;
+    if (photo) {
+      this.photo = { token: createToken(), ...photo };
+      this.view = {
+        photo: `/api/rooms?code=${this.code}&photo=${this.photo.token}`,
+        options: options.map((a) => a.id),
+      };
+    } else {
+      this.view = {
+        photo: null,
+        options: distinctClueOptions(correct, options, round.pool).map((a) => a.id),
+        clue: aircraftClue(correct),
+        silhouette: { type: correct.type, shape: silhouetteClass(correct) },
+      };
+    }
+    this.schedule(ROOM_PREPARE_MS, () => this.openQuestion());
+    this.broadcast();
+  }
+
+  private markReady(player: RoomPlayer, questionIndex: unknown) {
+    if (this.phase !== "prepare" || !this.view || questionIndex !== this.questionIndex) return;
+    player.ready = true;
+    this.openQuestionIfReady();
+  }
+
+  private openQuestionIfReady() {
+    if (!this.view) return;
+    if (this.players.every((player) => player.ready || !player.socket)) this.openQuestion();
+  }
+
+  private openQuestion() {
+    this.phase = "question";
+    this.schedule(ROOM_QUESTION_MS, () => this.closeQuestion());
+    this.broadcast();
+  }
+
+  private answer(player: RoomPlayer, questionIndex: unknown, optionId: unknown) {
+    if (this.phase !== "question" || questionIndex !== this.questionIndex || player.answer) return;
+    if (typeof optionId !== "string") return;
+    player.answer = { optionId, remainingMs: Math.max(0, this.deadline - Date.now()) };
+    if (!this.closeQuestionIfAnswered()) this.broadcast();
+  }
+
+  private closeQuestionIfAnswered() {
+    if (!this.players.every((player) => player.answer || !player.socket)) return false;
+    this.closeQuestion();
+    return true;
+  }
+
+  // Same formula as a solo round, but the speed bonus comes from the
+  // server's clock rather than each player's.
+  private closeQuestion() {
+    const correctId = this.round!.questions[this.questionIndex].correct.id;
+    const multiplier = DIFFICULTY_MULTIPLIERS[this.round!.difficulty];
+    for (const player of this.players) {
+      player.lastCorrect = player.answer?.optionId === correctId;
+      player.lastPoints = 0;
+      if (player.lastCorrect) {
+        const speedBonus = Math.round((player.answer!.remainingMs / ROOM_QUESTION_MS) * 100);
+        player.lastPoints = Math.floor((100 + speedBonus + player.streak * 20) * multiplier);
+        player.score += player.lastPoints;
+        player.streak += 1;
+      } else {
+        player.streak = 0;
+      }
+    }
+    this.phase = "results";
+    this.schedule(ROOM_RESULTS_MS, () => this.prepareQuestion());
+    this.broadcast();
+  }
+
+  private schedule(ms: number, callback: () => void) {
+    this.clearTimer();
+    this.deadline = Date.now() + ms;
+    this.timer = setTimeout(callback, ms);
+  }
+
+  private clearTimer() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private reset() {
+    this.clearTimer();
+    this.phase = "lobby";
+    this.players = [];
+    this.hostId = null;
+    this.round = null;
+    this.questionIndex = -1;
+    this.view = null;
+    this.photo = null;
+  }
+
+  private broadcast() {
+    const players = [...this.players]
+      .sort((a, b) => b.score - a.score)
+      .map((player) => ({
+        id: player.id,
+        name: player.name,
+        score: player.score,
+        streak: player.streak,
+        connected: Boolean(player.socket),
+        answered: Boolean(player.answer),
+        lastPoints: player.lastPoints,
+        lastCorrect: player.lastCorrect,
+      }));
+    const open = this.phase !== "lobby" && this.phase !== "finished";
+    // While the photo is still being looked up the clock has not started.
+    const remainingMs = open && this.view ? Math.max(0, this.deadline - Date.now()) : 0;
+    for (const player of this.players) {
+      player.socket?.send(JSON.stringify({
+        type: "state",
+        code: this.code,
+        phase: this.phase,
+        hostId: this.hostId,
+        you: player.id,
+        questionIndex: this.questionIndex,
+        questionCount: this.round?.questions.length || 0,
+        difficulty: this.round?.difficulty || null,
+        question: open ? this.view : null,
+        remainingMs,
+        // The answer is only revealed once the question has closed.
+        correctId: this.phase === "results" ? this.round!.questions[this.questionIndex].correct.id : null,
+        players,
+      }));
+    }
+  }
+
+  private sendError(socket: RoomSocket | null, message: string) {
+    socket?.send(JSON.stringify({ type: "error", message }));
+  }
+
+  private reject(socket: RoomSocket, message: string) {
+    this.sendError(socket, message);
+    socket.close(4000, message);
+  }
+}
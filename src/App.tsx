@@ -1,10 +1,27 @@
 ﻿import React, { useEffect, useMemo, useRef, useState } from "react";
-import { AIRCRAFT_DB, TYPES, type Aircraft } from "./aircraftData";
+import { AIRCRAFT_DB, CAMPAIGN_TIERS, TYPES, type Aircraft, type CampaignTier } from "./aircraftData";
+import { lookupAircraftPhoto } from "./aircraftPhotos";
+import {
+  OPTIONS_PER_QUESTION,
+  aircraftClue,
+  aircraftSimilarity,
+  buildOptions,
+  buildSeededRound,
+  distinctClueOptions,
+  randInt,
+  shuffle,
+  silhouetteClass,
+  type Difficulty,
+  type RoundQuestion,
+  type SilhouetteClass,
+  type SpecClue,
+} from "./roundPlan";
 
 // ==========================
 // Airplane Recognition Quiz
 // ==========================
-// Single-file React app implementing:
+// React app (the aircraft list, round planning and photo lookup live in their
+// own modules) implementing:
 // - Random aircraft photo (Wikipedia API by default, with graceful fallback)
 // - Exactly 4 multiple-choice options (per user request)
 // - Immediate feedback with a short fact (wrong answers show a card)
@@ -15,11 +32,37 @@ import { AIRCRAFT_DB, TYPES, type Aircraft } from "./aircraftData";
 // - Smooth transitions between questions
 // - Learn Mode with filtering + specs browser
 // - Filter quiz by type (commercial, military, vintage, general)
+// - Daily Challenge: one seeded round per UTC date, one attempt per device
+// - Challenge links that replay a seeded round against a friend's score
+// - Survival: endless questions until three misses, ranked separately
+// - Time Attack: one 60s clock for the whole run, ranked separately
+// - Easy/Normal/Expert difficulty: look-alike distractors and scaled scoring
+// - Expert typing: free-text answers with autocomplete and tolerant matching
+// - Silhouettes: photos flattened into dark shapes on a canvas, ranked separately
+// - Zoom reveal: a tight crop of one detail widens over the timer; earlier answers score more
+// - Pass and play: 2–4 players take turns on the same questions on one device
+// - Multiplayer rooms: a host shares a code and everyone answers on the server's clock
+// - Name to photo: a reverse quiz that shows the model and four photos
+// - Spec clues: text-only questions from role, first flight, engines and fact
+// - Ghosts: run logs let a challenge link race the sender's answer timing
+// - Custom quizzes: hand-picked aircraft and settings, saved and shared by link
+// - Lifelines: 50/50, +10s and a spec hint, each once per run at a point cost
+// - Career: curated tiers unlocked by accuracy, with progress synced per device
+// - Achievements: unlock toasts and a badge shelf on the profile
+// - Round review: every question's answer, timing and points after a round
+// - Stats: round history in IndexedDB, accuracy by type, confused pairs, export
+// - Practice: spaced repetition over mastery levels shown in Learn Mode
+// - Resume flight: an unfinished round survives a reload, its open question forfeited
+// - Hidden tabs pause practice modes and forfeit the question in ranked ones and challenges
+// - Keyboard and gamepad controls with key hints on the options
 //
 // Notes:
 // - Set IMAGE_SOURCE = 'wikipedia' (default) to fetch images per model from Wikipedia.
-// - If Wikipedia has no image for a specific title, we fallback to a generated SVG poster.
-// - To plug a different API, implement fetchImageForAircraft().
+// - Set IMAGE_SOURCE = 'internal' to play offline: every question shows a
+//   generic class silhouette (never the model name) with a spec clue.
+// - If no photo can be loaded, the quiz falls back to the same silhouette and
+//   spec clue; Learn Mode shows the silhouette in place of the photo.
+// - To plug a different API, implement fetchAircraftPhoto().
 
 // --------------------------
 // Config
@@ -29,7 +72,13 @@ const QUIZ_DEFAULTS = {
   questionsPerRun: 10,
 };
 
-const OPTIONS_PER_QUESTION = 4; // Fixed at 4 choices
+const SURVIVAL_LIVES = 3; // misses allowed before a survival run ends
+const TIME_ATTACK_SECONDS = 60; // one clock for the whole run
+const TIME_ATTACK_FEEDBACK_MS = 900; // answers advance on their own while the clock runs
+const LIFELINE_SECONDS = 10; // added to the clock by the extra-time lifeline
+const LIFELINE_PENALTY = 0.25; // share of a question's points each lifeline costs
+const TIMER_TICK_MS = 100; // the countdown re-renders at this steady rate
+const GAMEPAD_STICK_THRESHOLD = 0.6; // left-stick travel that counts as an arrow press
 
 const IMAGE_SOURCE: "wikipedia" | "internal" = "wikipedia";
 const QUIZ_COMPLETED_KEY = "airquiz_completed_quiz_v1";
@@ -40,20 +89,231 @@ const LOCAL_LEADERBOARD_KEY = "airquiz_leaderboard_v1";
 const PRIMARY_APP_ORIGIN = "https://airplane-recognition-quiz.vercel.app";
 const LEGACY_APP_HOSTS = new Set(["airplane-recognition-quiz.pages.dev"]);
 const IDENTITY_TRANSFER_PARAM = "player-transfer";
+const CHALLENGE_PARAM = "challenge";
+const DAILY_ATTEMPT_KEY = "airquiz_daily_attempt_v1";
+const DAILY_WINNERS_SHOWN = 3;
+const DIFFICULTY_KEY = "airquiz_difficulty_v1";
+const MAX_ROUND_SCORE = 4350; // ten perfect answers at Expert
+const TYPING_PARTIAL_CREDIT = 0.5; // share of the points for naming only the family
+const TYPING_SUGGESTIONS = 6;
+const PHOTO_OPTION_ATTEMPTS = 4; // aircraft tried per photo slot in a reverse question
+const SILHOUETTE_MAX_WIDTH = 960; // photos are downscaled before masking
+const SILHOUETTE_MIN_CONTRAST = 24; // keeps noise in a flat sky out of the shape
+const PARTY_MIN_PLAYERS = 2;
+const PARTY_MAX_PLAYERS = 4;
+const ROOM_QUESTION_SECONDS = 15; // matches ROOM_QUESTION_MS in server/rooms.ts
+const ROOM_CODE_LETTERS = "ABCDEFGHJKLMNPQRSTUVWXYZ"; // no I or O, which read as 1 and 0
+const ZOOM_FOCUS_SAMPLE_WIDTH = 160; // a coarse mask is enough to find the airframe's ends
+const RUN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/; // ids from /api/runs
+const CUSTOM_QUIZZES_KEY = "airquiz_custom_quizzes_v1";
+const CUSTOM_QUIZ_PARAM = "quiz";
+const CAMPAIGN_PROGRESS_KEY = "airquiz_campaign_v1";
+const CAMPAIGN_PASS_ACCURACY = 80; // percent of a tier round needed to unlock the next tier
+const ACHIEVEMENTS_KEY = "airquiz_achievements_v1";
+const ACHIEVEMENT_PROGRESS_KEY = "airquiz_achievement_progress_v1";
+const ACHIEVEMENT_STREAK = 10;
+const ACHIEVEMENT_QUICK_MS = 2000;
+const ACHIEVEMENT_PLAY_DAYS = 7;
+const ACHIEVEMENT_TOAST_MS = 4000;
+const HISTORY_DB_NAME = "airquiz_history";
+const HISTORY_STORE = "runs";
+const STATS_TREND_RUNS = 20;
+const STATS_MOST_MISSED = 5;
+const CONFUSIONS_KEY = "airquiz_confusions_v1";
+const STATS_CONFUSED_PAIRS = 6;
+const MASTERY_KEY = "airquiz_mastery_v1";
+const MASTERY_INTERVAL_DAYS = [0, 1, 2, 4, 8, 16]; // Leitner box → days until the aircraft is due again
+const MASTERY_LEVELS = ["New", "Learning", "Familiar", "Confident", "Strong", "Mastered"];
+const RUN_SNAPSHOT_KEY = "airquiz_run_snapshot_v1";
+const MASTERY_NEW_PRIORITY = 2.5; // unseen aircraft come between due Learning and due Familiar ones
+
+// Custom quizzes pick their own length, clock and number of choices within
+// these bounds. They are never ranked, so any combination is allowed.
+const CUSTOM_QUIZ_LIMITS = {
+  questions: { min: 3, max: 30 },
+  seconds: { min: 5, max: 60 },
+  options: { min: 2, max: 6 },
+};
+const CUSTOM_QUIZ_ERAS: { label: string; from: number; to: number }[] = [
+  { label: "Any era", from: 0, to: 9999 },
+  { label: "Before 1950", from: 0, to: 1949 },
+  { label: "1950–1979", from: 1950, to: 1979 },
+  { label: "1980–1999", from: 1980, to: 1999 },
+  { label: "2000 onwards", from: 2000, to: 9999 },
+];
+
+// Zoom-reveal photos widen in equal steps over the question timer. Each step
+// shows more of the frame and replaces the speed bonus with a smaller one.
+const ZOOM_REVEAL_SCHEDULE = [
+  { scale: 4, bonus: 300 },
+  { scale: 2.8, bonus: 200 },
+  { scale: 2, bonus: 120 },
+  { scale: 1.4, bonus: 60 },
+  { scale: 1, bonus: 0 },
+];
+
+// Mirrors ACHIEVEMENT_IDS in functions/api/achievements.ts and api/achievements.ts.
+const ACHIEVEMENTS: { id: AchievementId; title: string; description: string }[] = [
+  { id: "perfect-round", title: "Perfect round", description: "Answer every question of a ten-question round correctly." },
+  { id: "streak-10", title: "10-streak", description: `Get ${ACHIEVEMENT_STREAK} answers in a row right.` },
+  { id: "all-vintage", title: "All vintage identified", description: "Identify every vintage aircraft at least once." },
+  { id: "week-streak", title: "Played 7 days in a row", description: `Finish a round on ${ACHIEVEMENT_PLAY_DAYS} days in a row.` },
+  { id: "quick-draw", title: "Sub-2-second answer", description: "Answer correctly in under two seconds." },
+];
+// Time Attack's single clock, shared devices and server-run rooms cannot be
+// picked up again fairly, so only these rounds survive a reload.
+const RESUMABLE_MODES: QuizMode[] = ["classic", "daily", "challenge", "survival", "typing", "silhouette", "zoom", "reverse", "specs", "custom", "campaign", "practice"];
+// Modes whose rounds are always questionsPerRun long; a custom quiz picks its own length.
+const PERFECT_ROUND_MODES: QuizMode[] = ["classic", "daily", "challenge", "typing", "silhouette", "zoom", "reverse", "specs", "campaign", "practice"];
+
+const MODE_LABELS: Record<QuizMode, string> = {
+  classic: "Classic",
+  daily: "Daily Challenge",
+  challenge: "Challenge",
+  survival: "Survival",
+  timeAttack: "Time Attack",
+  typing: "Expert typing",
+  silhouette: "Silhouettes",
+  zoom: "Zoom reveal",
+  reverse: "Name to photo",
+  specs: "Spec clues",
+  party: "Pass and play",
+  room: "Multiplayer room",
+  custom: "Custom quiz",
+  campaign: "Career",
+  practice: "Practice weak spots",
+};
+
+const DIFFICULTY_SETTINGS: Record<Difficulty, { label: string; description: string; multiplier: number }> = {
+  easy: { label: "Easy", description: "Distractors from different roles · ×0.5 points", multiplier: 0.5 },
+  normal: { label: "Normal", description: "Distractors from the whole pool · ×1 points", multiplier: 1 },
+  expert: { label: "Expert", description: "Look-alikes from the same family, role or maker · ×1.5 points", multiplier: 1.5 },
+};
 
+type QuizMode = "classic" | "daily" | "challenge" | "survival" | "timeAttack" | "typing" | "silhouette" | "zoom" | "reverse" | "specs" | "party" | "room" | "custom" | "campaign" | "practice";
+type RankedMode = "classic" | "survival" | "timeAttack" | "typing" | "silhouette";
+type PlannedQuestion = { correct: string; options: string[]; spares?: PlannedQuestion[] };
+type AnswerGrade = "correct" | "partial" | "wrong";
+// Each run may use every lifeline once; `hidden` holds the options a 50/50 removed.
+type Lifeline = "fiftyFifty" | "extraTime" | "specHint";
+type LifelineUse = { lifeline: Lifeline; questionIndex: number; hidden?: string[] };
+// `forfeited` says why a question was lost without an answer or a timeout.
+type AnswerFeedback = { correct: boolean; partial?: boolean; forfeited?: "reload" | "hidden"; fact: string; correctModel: string; points: number; selectedId?: string; typedAnswer?: string };
+// One per participant: solo runs keep a single tally, pass-and-play one per player.
+type RunTally = { name: string; score: number; streak: number; bestStreak: number; misses: number; answered: number };
+// Mirrors the snapshot server/rooms.ts broadcasts; deadline is local time.
+type RoomPhase = "lobby" | "prepare" | "question" | "results" | "finished";
+// The open question only: the room's own URL for the photo, or a spec clue
+// with its class silhouette when none loaded, and the option ids in order.
+type RoomQuestion = {
+  photo: string | null;
+  options: string[];
+  clue?: SpecClue;
+  silhouette?: { type: Aircraft["type"]; shape: SilhouetteClass };
+};
+type RoomPlayerView = { id: string; name: string; score: number; streak: number; connected: boolean; answered: boolean; lastPoints: number; lastCorrect: boolean };
+type RoomState = {
+  code: string;
+  phase: RoomPhase;
+  hostId: string | null;
+  you: string;
+  questionIndex: number;
+  questionCount: number;
+  difficulty: Difficulty | null;
+  question: RoomQuestion | null;
+  correctId: string | null;
+  players: RoomPlayerView[];
+  deadline: number;
+};
+type ZoomFocus = { x: number; y: number }; // fractions of the photo's width and height
+type RoundSeed = { seed: string; types: Aircraft["type"][]; difficulty?: Difficulty };
+// `ghost` is the id of the uploaded run log, so the friend can race its timing.
+type RoundChallenge = RoundSeed & { name: string; score: number; ghost?: string };
+// One entry per question in order; a timeout has no selectedId and the full clock.
+type RunLogAnswer = { aircraftId: string; selectedId: string | null; ms: number; points: number };
+type RunLog = RoundSeed & { score: number; answers: RunLogAnswer[] };
+type GhostRun = RunLog & { name: string };
+// One row of the post-round review: points = floor((base + speedBonus + streakBonus) × multiplier).
+// `picked` is the chosen model or the typed text, null when the clock ran out.
+// `ms` is null only for a question forfeited by a reload, whose timing was lost.
+type QuestionReview = {
+  aircraft: Aircraft;
+  imageUrl: string | null;
+  grade: AnswerGrade;
+  selectedId: string | null;
+  picked: string | null;
+  ms: number | null;
+  base: number;
+  speedBonus: number;
+  streakBonus: number;
+  multiplier: number;
+  points: number;
+};
+// Best accuracy, in percent, for every tier played so far.
+type CampaignProgress = Record<string, number>;
+// An unfinished solo round, saved whenever a question is on screen. Aircraft
+// are stored by id and looked up again on resume.
+type RunSnapshot = {
+  mode: QuizMode;
+  difficulty: Difficulty;
+  questionIndex: number;
+  tally: RunTally;
+  plan: PlannedQuestion[] | null;
+  types: Aircraft["type"][];
+  question: { correct: string; options: string[]; imageUrl: string | null; revealUrl?: string; focus?: ZoomFocus; optionPhotos?: Record<string, string>; clue?: SpecClue };
+  feedback: AnswerFeedback | null;
+  seenIds: string[];
+  lifelineUses: LifelineUse[];
+  review: QuestionReview[];
+  runLog: RunLogAnswer[];
+  roundSeed: RoundSeed | null;
+  challenge: RoundChallenge | null;
+  ghost: GhostRun | null;
+  quiz: CustomQuiz | null;
+  tier: string | null;
+};
+// Wrong picks counted per "correctId>pickedId"; the order matters, since
+// mistaking A for B is not the same habit as mistaking B for A.
+type ConfusionCounts = Record<string, number>;
+// Leitner box (0 = never answered) and when the aircraft is next due, in epoch ms.
+type MasteryRecord = Record<string, { box: number; due: number }>;
+// One finished solo round, kept in IndexedDB for the Stats screen.
+type RunRecord = {
+  id?: number;
+  date: string;
+  mode: QuizMode;
+  difficulty: Difficulty;
+  types: Aircraft["type"][];
+  score: number;
+  answers: { aircraftId: string; selectedId: string | null; grade: AnswerGrade; ms: number | null }[];
+};
+type AchievementId = "perfect-round" | "streak-10" | "all-vintage" | "week-streak" | "quick-draw";
+// UTC day each achievement was unlocked on.
+type UnlockedAchievements = Partial<Record<AchievementId, string>>;
+// What the achievements spanning several rounds count towards.
+type AchievementProgress = { vintageIds: string[]; playDays: string[] };
+type CustomQuiz = { id: string; name: string; aircraftIds: string[]; questionCount: number; timeSec: number; optionCount: number };
 type LeaderboardEntry = { name: string; score: number; date: string; deviceId?: string };
+type DailyEntry = { name: string; score: number; bestStreak: number; deviceId?: string };
+type DailyStatus = {
+  date: string;
+  attempted: boolean;
+  result: { score: number; bestStreak: number; rank?: number | null; totalPlayers?: number } | null;
+  leaderboard: DailyEntry[];
+  yesterday: DailyEntry[];
+};
 type AnonymousProfile = { deviceId: string; username: string; usernameChosen: boolean };
-type PlayerStats = { personalBest: number; bestStreak: number; rank?: number | null; totalPlayers?: number; topPercent?: number | null };
+type PlayerStats = { personalBest: number; bestStreak: number; rank?: number | null; totalPlayers?: number; topPercent?: number | null; modeBests?: Partial<Record<RankedMode, number>> };
 type PersonalRecord = { beaten: boolean; previousBest: number; newBest: number; rank?: number | null; totalPlayers?: number; topPercent?: number | null };
 
-function encodeIdentityTransfer(value: unknown) {
+function encodeHashPayload(value: unknown) {
   const bytes = new TextEncoder().encode(JSON.stringify(value));
   let binary = "";
   bytes.forEach((byte) => { binary += String.fromCharCode(byte); });
   return btoa(binary).replaceAll("+", "-").replaceAll("/", "_").replace(/=+$/, "");
 }
 
-function decodeIdentityTransfer(value: string) {
+function decodeHashPayload(value: string) {
   const padded = value.replaceAll("-", "+").replaceAll("_", "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
   const binary = atob(padded);
   const bytes = Uint8Array.from(binary, (character) => character.charCodeAt(0));
@@ -75,7 +335,7 @@ function isValidTransferredProfile(value: any): value is AnonymousProfile {
 function sanitizeTransferredStats(value: any): PlayerStats | null {
   if (!value || !Number.isFinite(value.personalBest) || !Number.isFinite(value.bestStreak)) return null;
   return {
-    personalBest: Math.max(0, Math.min(2900, Math.trunc(value.personalBest))),
+    personalBest: Math.max(0, Math.min(MAX_ROUND_SCORE, Math.trunc(value.personalBest))),
     bestStreak: Math.max(0, Math.min(10, Math.trunc(value.bestStreak))),
     rank: Number.isFinite(value.rank) ? Math.max(1, Math.trunc(value.rank)) : null,
     totalPlayers: Number.isFinite(value.totalPlayers) ? Math.max(0, Math.trunc(value.totalPlayers)) : undefined,
@@ -90,7 +350,7 @@ function transferLegacyBrowserIdentity() {
       const hash = new URLSearchParams(window.location.hash.slice(1));
       const encoded = hash.get(IDENTITY_TRANSFER_PARAM);
       if (!encoded) return;
-      const transfer = decodeIdentityTransfer(encoded);
+      const transfer = decodeHashPayload(encoded);
       if (isValidTransferredProfile(transfer?.profile)) {
         localStorage.setItem(PLAYER_PROFILE_KEY, JSON.stringify(transfer.profile));
         const stats = sanitizeTransferredStats(transfer?.stats);
@@ -108,7 +368,7 @@ function transferLegacyBrowserIdentity() {
       const stats = JSON.parse(localStorage.getItem(PLAYER_STATS_KEY) || "null");
       const completed = localStorage.getItem(QUIZ_COMPLETED_KEY) === "true";
       const transfer = isValidTransferredProfile(profile)
-        ? encodeIdentityTransfer({ profile, stats, completed })
+        ? encodeHashPayload({ profile, stats, completed })
         : "";
       window.location.replace(`${PRIMARY_APP_ORIGIN}/${transfer ? `#${IDENTITY_TRANSFER_PARAM}=${transfer}` : ""}`);
     }
@@ -119,6 +379,160 @@ function transferLegacyBrowserIdentity() {
 
 transferLegacyBrowserIdentity();
 
+function roundPool(types: Aircraft["type"][]) {
+  return AIRCRAFT_DB.filter((a) => types.includes(a.type));
+}
+
+function customQuizPool(quiz: CustomQuiz) {
+  return AIRCRAFT_DB.filter((a) => quiz.aircraftIds.includes(a.id));
+}
+
+function withinLimit(value: unknown, limit: { min: number; max: number }) {
+  return Number.isInteger(value) && (value as number) >= limit.min && (value as number) <= limit.max;
+}
+
+// Ids that are no longer in the database are ignored, as long as enough
+// aircraft remain to fill every question's choices.
+function isValidCustomQuiz(value: any): value is CustomQuiz {
+  return Boolean(
+    value &&
+    typeof value.id === "string" &&
+    /^[A-Za-z0-9_-]{1,32}$/.test(value.id) &&
+    typeof value.name === "string" &&
+    value.name.trim().length > 0 &&
+    value.name.length <= 40 &&
+    Array.isArray(value.aircraftIds) &&
+    value.aircraftIds.every((id: unknown) => typeof id === "string") &&
+    withinLimit(value.questionCount, CUSTOM_QUIZ_LIMITS.questions) &&
+    withinLimit(value.timeSec, CUSTOM_QUIZ_LIMITS.seconds) &&
+    withinLimit(value.optionCount, CUSTOM_QUIZ_LIMITS.options) &&
+    customQuizPool(value).length >= value.optionCount
+  );
+}
+
+function isValidChallenge(value: any): value is RoundChallenge {
+  return Boolean(
+    value &&
+    typeof value.seed === "string" &&
+    /^[A-Za-z0-9_-]{1,32}$/.test(value.seed) &&
+    Array.isArray(value.types) &&
+    value.types.every((type: unknown) => TYPES.includes(type as Aircraft["type"])) &&
+    roundPool(value.types).length >= OPTIONS_PER_QUESTION &&
+    (value.difficulty === undefined || Object.hasOwn(DIFFICULTY_SETTINGS, value.difficulty)) &&
+    typeof value.name === "string" &&
+    /^[A-Za-z0-9_-]{3,24}$/.test(value.name) &&
+    Number.isInteger(value.score) &&
+    value.score >= 0 &&
+    value.score <= MAX_ROUND_SCORE &&
+    (value.ghost === undefined || (typeof value.ghost === "string" && RUN_ID_PATTERN.test(value.ghost)))
+  );
+}
+
+// Shared links live in the hash so the seed never reaches a server log. The
+// parameter is removed once read, so a reload does not reopen the invite.
+function takeHashPayload(param: string): unknown {
+  if (typeof window === "undefined") return null;
+  try {
+    const hash = new URLSearchParams(window.location.hash.slice(1));
+    const encoded = hash.get(param);
+    if (!encoded) return null;
+    hash.delete(param);
+    const cleanHash = hash.toString();
+    window.history.replaceState(null, "", `${window.location.pathname}${window.location.search}${cleanHash ? `#${cleanHash}` : ""}`);
+    return decodeHashPayload(encoded);
+  } catch {
+    return null;
+  }
+}
+
+function readChallengeFromLocation(): RoundChallenge | null {
+  const challenge = takeHashPayload(CHALLENGE_PARAM);
+  return isValidChallenge(challenge) ? challenge : null;
+}
+
+function readCustomQuizFromLocation(): CustomQuiz | null {
+  const quiz = takeHashPayload(CUSTOM_QUIZ_PARAM);
+  return isValidCustomQuiz(quiz) ? quiz : null;
+}
+
+const LIFELINES: Record<Lifeline, string> = {
+  fiftyFifty: "50/50",
+  extraTime: `+${LIFELINE_SECONDS}s`,
+  specHint: "Spec hint",
+};
+
+// What happens to a live question when the tab is hidden. Ranked modes and
+// challenge links, which are compared score for score, forfeit it, since a
+// paused clock would let players look the aircraft up; casual modes pause and
+// blur the photo until the player returns. Rooms run on the server's clock
+// and are left alone.
+const HIDDEN_TAB_POLICY: Record<QuizMode, "pause" | "forfeit" | "none"> = {
+  classic: "forfeit",
+  daily: "forfeit",
+  survival: "forfeit",
+  timeAttack: "forfeit",
+  typing: "forfeit",
+  silhouette: "forfeit",
+  challenge: "forfeit",
+  zoom: "pause",
+  reverse: "pause",
+  specs: "pause",
+  party: "pause",
+  custom: "pause",
+  campaign: "pause",
+  practice: "pause",
+  room: "none",
+};
+
+// Standard-mapping gamepad buttons replayed as keys: A, B and the D-pad.
+const GAMEPAD_BUTTON_KEYS: Record<number, string> = { 0: "Enter", 1: "Escape", 12: "ArrowUp", 13: "ArrowDown", 14: "ArrowLeft", 15: "ArrowRight" };
+const ARROW_DIRECTIONS: Record<string, [number, number]> = { ArrowUp: [0, -1], ArrowDown: [0, 1], ArrowLeft: [-1, 0], ArrowRight: [1, 0] };
+const FOCUSABLE_SELECTOR = 'button:not(:disabled), a[href], input:not(:disabled), select:not(:disabled), [tabindex="0"]';
+
+// Modes that show lifelines; the rest either have no options to remove, no
+// per-question clock, or a shared round that should stay equal for everyone.
+// api/scores.ts and functions/api/scores.ts keep the same list.
+const LIFELINE_MODES: QuizMode[] = ["classic", "survival", "silhouette", "challenge", "custom"];
+
+// The first spec the photo does not already show, e.g. "Engines: 2 x CFM56-7B".
+function specHint(a: Aircraft) {
+  if (a.specs.engines) return `Engines: ${a.specs.engines}`;
+  if (a.specs.firstFlight) return `First flight: ${a.specs.firstFlight}`;
+  return `Role: ${a.specs.role}`;
+}
+
+const RANKED_MODE_LABELS: Record<RankedMode, string> = {
+  classic: "Classic",
+  survival: "Survival",
+  timeAttack: "Time Attack",
+  typing: "Typing",
+  silhouette: "Silhouette",
+};
+
+async function fetchModeLeaderboard(mode: RankedMode): Promise<LeaderboardEntry[]> {
+  const response = await fetch(`/api/leaderboard?mode=${mode}`, { headers: { Accept: "application/json" } });
+  if (!response.ok) throw new Error("Leaderboard unavailable");
+  const data = await response.json();
+  if (!Array.isArray(data?.leaderboard)) throw new Error("Invalid leaderboard response");
+  return data.leaderboard;
+}
+
+function buildChallengeLink(challenge: RoundChallenge) {
+  return `${window.location.origin}${window.location.pathname}#${CHALLENGE_PARAM}=${encodeHashPayload(challenge)}`;
+}
+
+function buildCustomQuizLink(quiz: CustomQuiz) {
+  return `${window.location.origin}${window.location.pathname}#${CUSTOM_QUIZ_PARAM}=${encodeHashPayload(quiz)}`;
+}
+
+async function fetchGhostRun(id: string): Promise<GhostRun> {
+  const response = await fetch(`/api/runs?id=${encodeURIComponent(id)}`, { headers: { Accept: "application/json" } });
+  if (!response.ok) throw new Error("Ghost run unavailable");
+  const data = await response.json();
+  if (typeof data?.run?.name !== "string" || !Array.isArray(data?.run?.answers)) throw new Error("Invalid ghost run response");
+  return data.run;
+}
+
 const CALLSIGN_BASES = [
   "Ace", "Albatross", "Arrow", "Atlas", "Aurora", "Badger", "Beacon", "Bear",
   "Bluebird", "Bolt", "Breeze", "Buzzard", "Canyon", "Cardinal", "Cedar", "Cheetah",
@@ -188,24 +602,433 @@ function writePlayerStats(stats: PlayerStats) {
   try { localStorage.setItem(PLAYER_STATS_KEY, JSON.stringify(stats)); } catch { /* best effort */ }
 }
 
+function readDailyAttemptDate(): string | null {
+  try { return localStorage.getItem(DAILY_ATTEMPT_KEY); } catch { return null; }
+}
+
+function writeDailyAttemptDate(date: string) {
+  try { localStorage.setItem(DAILY_ATTEMPT_KEY, date); } catch { /* the server still enforces one attempt */ }
+}
+
+function readCustomQuizzes(): CustomQuiz[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CUSTOM_QUIZZES_KEY) || "[]");
+    return Array.isArray(saved) ? saved.filter(isValidCustomQuiz) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeCustomQuizzes(quizzes: CustomQuiz[]) {
+  try { localStorage.setItem(CUSTOM_QUIZZES_KEY, JSON.stringify(quizzes)); } catch { /* quizzes last for this session */ }
+}
+
+function readCampaignProgress(): CampaignProgress {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CAMPAIGN_PROGRESS_KEY) || "{}");
+    return saved && typeof saved === "object" ? saved : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeCampaignProgress(progress: CampaignProgress) {
+  try { localStorage.setItem(CAMPAIGN_PROGRESS_KEY, JSON.stringify(progress)); } catch { /* the server copy still syncs */ }
+}
+
+// The first tier is always open; each later one needs the previous tier cleared.
+function unlockedTierCount(progress: CampaignProgress) {
+  const locked = CAMPAIGN_TIERS.findIndex((tier, index) =>
+    index > 0 && (progress[CAMPAIGN_TIERS[index - 1].id] || 0) < CAMPAIGN_PASS_ACCURACY
+  );
+  return locked === -1 ? CAMPAIGN_TIERS.length : locked;
+}
+
+function mergeCampaignProgress(a: CampaignProgress, b: CampaignProgress) {
+  const merged = { ...a };
+  for (const [tier, accuracy] of Object.entries(b)) merged[tier] = Math.max(merged[tier] || 0, accuracy);
+  return merged;
+}
+
+function readAchievements(): UnlockedAchievements {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ACHIEVEMENTS_KEY) || "{}");
+    return saved && typeof saved === "object" ? saved : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeAchievements(achievements: UnlockedAchievements) {
+  try { localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(achievements)); } catch { /* the server copy still syncs */ }
+}
+
+// Keeps the earlier unlock date when both copies have an achievement.
+function mergeAchievements(a: UnlockedAchievements, b: Record<string, string>) {
+  const merged = { ...a };
+  for (const { id } of ACHIEVEMENTS) {
+    const date = b[id];
+    if (typeof date === "string" && (!merged[id] || date < merged[id]!)) merged[id] = date;
+  }
+  return merged;
+}
+
+function readAchievementProgress(): AchievementProgress {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ACHIEVEMENT_PROGRESS_KEY) || "{}");
+    return {
+      vintageIds: Array.isArray(saved?.vintageIds) ? saved.vintageIds : [],
+      playDays: Array.isArray(saved?.playDays) ? saved.playDays : [],
+    };
+  } catch {
+    return { vintageIds: [], playDays: [] };
+  }
+}
+
+function writeAchievementProgress(progress: AchievementProgress) {
+  try { localStorage.setItem(ACHIEVEMENT_PROGRESS_KEY, JSON.stringify(progress)); } catch { /* progress restarts next session */ }
+}
+
+// Returns true once every vintage aircraft has been identified.
+function recordVintageIdentified(id: string) {
+  const progress = readAchievementProgress();
+  const vintageIds = progress.vintageIds.includes(id) ? progress.vintageIds : [...progress.vintageIds, id];
+  writeAchievementProgress({ ...progress, vintageIds });
+  return AIRCRAFT_DB.every((a) => a.type !== "vintage" || vintageIds.includes(a.id));
+}
+
+// Returns how many days in a row, ending today, have a finished round.
+function recordPlayDay(today = utcDateKey()) {
+  const progress = readAchievementProgress();
+  const playDays = [...new Set([...progress.playDays, today])].sort().slice(-ACHIEVEMENT_PLAY_DAYS);
+  writeAchievementProgress({ ...progress, playDays });
+  const day = new Date(`${today}T00:00:00Z`);
+  let run = 0;
+  while (playDays.includes(utcDateKey(day))) {
+    run += 1;
+    day.setUTCDate(day.getUTCDate() - 1);
+  }
+  return run;
+}
+
+function readConfusions(): ConfusionCounts {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CONFUSIONS_KEY) || "{}");
+    return saved && typeof saved === "object" ? saved : {};
+  } catch {
+    return {};
+  }
+}
+
+function recordConfusion(correctId: string, pickedId: string) {
+  const counts = readConfusions();
+  const pair = `${correctId}>${pickedId}`;
+  counts[pair] = (counts[pair] || 0) + 1;
+  try { localStorage.setItem(CONFUSIONS_KEY, JSON.stringify(counts)); } catch { /* the pair is simply not counted */ }
+}
+
+function topConfusions(counts: ConfusionCounts, limit = STATS_CONFUSED_PAIRS) {
+  const byId = new Map(AIRCRAFT_DB.map((a) => [a.id, a]));
+  return Object.entries(counts)
+    .map(([pair, count]) => {
+      const [correctId, pickedId] = pair.split(">");
+      return { correct: byId.get(correctId), picked: byId.get(pickedId), count };
+    })
+    .filter((entry): entry is { correct: Aircraft; picked: Aircraft; count: number } => Boolean(entry.correct && entry.picked))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+}
+
+function readRunSnapshot(): RunSnapshot | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RUN_SNAPSHOT_KEY) || "null");
+    const known = (id: unknown) => AIRCRAFT_DB.some((a) => a.id === id);
+    const knownQuestion = (question: any) => known(question?.correct) && Array.isArray(question.options) && question.options.every(known);
+    // A newer aircraft list may have dropped an aircraft the round relied on.
+    if (
+      !saved ||
+      !RESUMABLE_MODES.includes(saved.mode) ||
+      !Array.isArray(saved.types) ||
+      !saved.types.every((type: unknown) => TYPES.some((known) => known === type)) ||
+      !knownQuestion(saved.question) ||
+      (saved.plan !== null && !(Array.isArray(saved.plan) && saved.plan.every(knownQuestion)))
+    ) return null;
+    return saved;
+  } catch {
+    return null;
+  }
+}
+
+function writeRunSnapshot(snapshot: RunSnapshot) {
+  try { localStorage.setItem(RUN_SNAPSHOT_KEY, JSON.stringify(snapshot)); } catch { /* the round simply cannot be resumed */ }
+}
+
+function clearRunSnapshot() {
+  try { localStorage.removeItem(RUN_SNAPSHOT_KEY); } catch { /* nothing to resume either way */ }
+}
+
+function readMastery(): MasteryRecord {
+  try {
+    const saved = JSON.parse(localStorage.getItem(MASTERY_KEY) || "{}");
+    return saved && typeof saved === "object" ? saved : {};
+  } catch {
+    return {};
+  }
+}
+
+// A right answer moves the aircraft up a box and pushes it further out; a
+// wrong one sends it back to the first box, due straight away.
+function recordMastery(id: string, grade: AnswerGrade, now = Date.now()) {
+  const mastery = readMastery();
+  const box = mastery[id]?.box || 0;
+  const nextBox = grade === "correct"
+    ? Math.min(MASTERY_INTERVAL_DAYS.length - 1, box + 1)
+    : grade === "partial" ? Math.max(1, box - 1) : 1;
+  mastery[id] = { box: nextBox, due: grade === "wrong" ? now : now + MASTERY_INTERVAL_DAYS[nextBox] * 86400000 };
+  try { localStorage.setItem(MASTERY_KEY, JSON.stringify(mastery)); } catch { /* the schedule restarts next session */ }
+}
+
+// Due aircraft from the lowest box first, then whatever falls due soonest.
+// Ties are shuffled so equal aircraft do not always appear in the same order.
+function practiceQueue(pool: Aircraft[], mastery: MasteryRecord, now = Date.now()) {
+  const priority = (a: Aircraft) => {
+    const entry = mastery[a.id];
+    if (!entry) return MASTERY_NEW_PRIORITY;
+    return entry.due <= now ? entry.box : MASTERY_INTERVAL_DAYS.length + (entry.due - now) / 86400000;
+  };
+  return shuffle(pool).sort((a, b) => priority(a) - priority(b));
+}
+
+function openHistoryDb() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(HISTORY_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(HISTORY_STORE, { keyPath: "id", autoIncrement: true });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function addRunRecord(record: RunRecord) {
+  const db = await openHistoryDb();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(HISTORY_STORE, "readwrite");
+      transaction.objectStore(HISTORY_STORE).add(record);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Oldest first, since ids only ever grow.
+async function readRunHistory() {
+  const db = await openHistoryDb();
+  try {
+    return await new Promise<RunRecord[]>((resolve, reject) => {
+      const request = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function readDifficulty(): Difficulty {
+  try {
+    const saved = localStorage.getItem(DIFFICULTY_KEY);
+    return saved && Object.hasOwn(DIFFICULTY_SETTINGS, saved) ? saved as Difficulty : "normal";
+  } catch {
+    return "normal";
+  }
+}
+
+function writeDifficulty(difficulty: Difficulty) {
+  try { localStorage.setItem(DIFFICULTY_KEY, difficulty); } catch { /* the choice lasts for this session */ }
+}
+
 // --------------------------
 // Utilities
 // --------------------------
-function randInt(n: number) {
-  return Math.floor(Math.random() * n);
+function choice<T>(arr: T[], random = Math.random): T {
+  return arr[randInt(arr.length, random)];
+}
+
+function createRoundSeed() {
+  return Math.random().toString(36).slice(2, 12);
+}
+
+function createRoomCode() {
+  return Array.from({ length: 4 }, () => choice(ROOM_CODE_LETTERS.split(""))).join("");
+}
+
+function utcDateKey(date = new Date()) {
+  return date.toISOString().slice(0, 10);
 }
 
-function shuffle<T>(arr: T[]): T[] {
-  const a = [...arr];
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
+function summarizeHistory(records: RunRecord[]) {
+  const byId = new Map(AIRCRAFT_DB.map((a) => [a.id, a]));
+  const accuracy = Object.fromEntries(TYPES.map((type) => [type, { correct: 0, total: 0 }])) as Record<Aircraft["type"], { correct: number; total: number }>;
+  const perAircraft = new Map<string, { aircraft: Aircraft; seen: number; missed: number }>();
+  let totalMs = 0;
+  let timed = 0;
+  for (const record of records) {
+    for (const answer of record.answers) {
+      const aircraft = byId.get(answer.aircraftId);
+      if (!aircraft) continue;
+      accuracy[aircraft.type].total += 1;
+      if (answer.grade === "correct") accuracy[aircraft.type].correct += 1;
+      const tally = perAircraft.get(aircraft.id) || { aircraft, seen: 0, missed: 0 };
+      tally.seen += 1;
+      if (answer.grade !== "correct") tally.missed += 1;
+      perAircraft.set(aircraft.id, tally);
+      if (answer.ms !== null) {
+        totalMs += answer.ms;
+        timed += 1;
+      }
+    }
+  }
+  const mostMissed = [...perAircraft.values()]
+    .filter((tally) => tally.missed > 0)
+    .sort((a, b) => b.missed - a.missed || b.missed / b.seen - a.missed / a.seen)
+    .slice(0, STATS_MOST_MISSED);
+  return { accuracy, averageMs: timed ? totalMs / timed : null, mostMissed };
+}
+
+function isTextEntry(target: EventTarget | null) {
+  return target instanceof HTMLElement && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName));
+}
+
+// Spatial navigation for keyboards and gamepads: focus moves to the nearest
+// control in the arrow's direction, inside the topmost dialog if one is open.
+// With nothing focused yet, it starts at the screen's main control.
+function moveFocus([dx, dy]: [number, number]) {
+  const dialogs = document.querySelectorAll<HTMLElement>('[aria-modal="true"]');
+  const scope = dialogs[dialogs.length - 1] || document.body;
+  const items = [...scope.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)].filter((item) => item.getClientRects().length > 0);
+  const active = document.activeElement as HTMLElement | null;
+  if (!active || !items.includes(active)) {
+    (items.find((item) => item.dataset.navStart !== undefined) || items.find((item) => item.closest("main")) || items[0])?.focus();
+    return;
+  }
+  const center = (item: HTMLElement) => {
+    const rect = item.getBoundingClientRect();
+    return [rect.left + rect.width / 2, rect.top + rect.height / 2];
+  };
+  const [fromX, fromY] = center(active);
+  let best: HTMLElement | null = null;
+  let bestScore = Infinity;
+  for (const item of items) {
+    const [x, y] = center(item);
+    const along = (x - fromX) * dx + (y - fromY) * dy;
+    if (item === active || along <= 0) continue;
+    // Stray sideways distance counts double, so focus stays in its row or column.
+    const score = along + 2 * (Math.abs((x - fromX) * dy) + Math.abs((y - fromY) * dx));
+    if (score < bestScore) {
+      best = item;
+      bestScore = score;
+    }
+  }
+  best?.focus();
+}
+
+// Synthetic key events do not activate controls, so a gamepad's Enter clicks
+// the focused button or link itself.
+function pressGamepadKey(key: string) {
+  const target = document.activeElement instanceof HTMLElement ? document.activeElement : document.body;
+  if (key === "Enter" && target.matches("button:not(:disabled), a[href]")) {
+    target.click();
+    return;
+  }
+  target.dispatchEvent(new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true }));
+}
+
+function planToIds(question: RoundQuestion): PlannedQuestion {
+  return { correct: question.correct.id, options: question.options.map((a) => a.id), spares: question.spares?.map(planToIds) };
+}
+
+function planFromIds(question: PlannedQuestion, byId: Map<string, Aircraft>): RoundQuestion {
+  return {
+    correct: byId.get(question.correct)!,
+    options: question.options.map((id) => byId.get(id)!),
+    spares: question.spares?.map((spare) => planFromIds(spare, byId)),
+  };
+}
+
+// Typed answers ignore case, accents, spaces and punctuation, so "737-800",
+// "737 800" and "737800" all compare equal.
+function compactAnswer(text: string) {
+  return text.toLowerCase().normalize("NFKD").replace(/[^a-z0-9]/g, "");
+}
+
+function answerNames(a: Aircraft) {
+  const tokens = a.model.split(" ");
+  const designation = tokens.findIndex((token) => /\d/.test(token));
+  const names = [a.model, ...(a.aliases || [])];
+  // "Boeing 737-800" is also accepted as "737-800".
+  if (designation > 0) names.push(tokens.slice(designation).join(" "));
+  return names;
+}
+
+// Family names such as "Boeing 737" or "A320" for the A320neo, plus the
+// Wikipedia family article title.
+function familyNames(a: Aircraft) {
+  const tokens = a.model.split(" ");
+  const designation = tokens.findIndex((token) => /\d/.test(token));
+  const base = designation < 0 ? null : tokens[designation].match(/^[A-Za-z/]*-?\d+/)?.[0];
+  const names = base ? [[...tokens.slice(0, designation), base].join(" "), base] : [];
+  if (a.wikiTitle) names.push(a.wikiTitle);
+  return names.filter((name) => compactAnswer(name) !== compactAnswer(a.model));
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = row;
   }
-  return a;
+  return previous[b.length];
+}
+
+function gradeTypedAnswer(text: string, correct: Aircraft): AnswerGrade {
+  const typed = compactAnswer(text);
+  if (!typed) return "wrong";
+  if (answerNames(correct).some((name) => compactAnswer(name) === typed)) return "correct";
+  if (familyNames(correct).some((name) => compactAnswer(name) === typed)) return "partial";
+  // A name that belongs to another aircraft is a wrong answer, not a typo.
+  const namesAnother = AIRCRAFT_DB.some((a) =>
+    a.id !== correct.id && a.model !== correct.model && answerNames(a).some((name) => compactAnswer(name) === typed)
+  );
+  if (namesAnother) return "wrong";
+  // Small letter typos pass, but a different number is a different aircraft.
+  const digits = (value: string) => value.replace(/\D/g, "");
+  const closeEnough = answerNames(correct).some((name) => {
+    const compact = compactAnswer(name);
+    const allowed = compact.length >= 10 ? 2 : compact.length >= 5 ? 1 : 0;
+    return digits(compact) === digits(typed) && editDistance(compact, typed) <= allowed;
+  });
+  return closeEnough ? "correct" : "wrong";
 }
 
-function choice<T>(arr: T[]): T {
-  return arr[randInt(arr.length)];
+// Every model name and alias in the catalogue, so suggestions never narrow
+// the field to the aircraft enabled for this round.
+const ANSWER_SUGGESTIONS = [...new Map(
+  AIRCRAFT_DB.flatMap((a) => [a.model, ...(a.aliases || [])]).map((name) => [compactAnswer(name), name] as const)
+).values()];
+
+function suggestAnswers(text: string) {
+  const typed = compactAnswer(text);
+  if (typed.length < 2) return [];
+  const matches = ANSWER_SUGGESTIONS.filter((name) => compactAnswer(name).includes(typed));
+  if (matches.some((name) => compactAnswer(name) === typed)) return [];
+  return matches
+    .sort((a, b) => Number(compactAnswer(b).startsWith(typed)) - Number(compactAnswer(a).startsWith(typed)))
+    .slice(0, TYPING_SUGGESTIONS);
 }
 
 function classNames(...xs: Array<string | false | null | undefined>) {
@@ -220,8 +1043,72 @@ function getHasCompletedQuiz() {
   }
 }
 
-// Generate a crisp SVG poster as a fallback when a photo is unavailable
-function posterFor(model: string, type: string) {
+// Quiz-safe fallback artwork: one generic top-view drawing per airframe
+// class, so a missing photo never prints the model name on screen.
+// Shapes are drawn nose-right on the 1600x900 canvas, centred on y=450.
+const SILHOUETTE_SHAPES: Record<SilhouetteClass, string> = {
+  narrowbody: `
+    <rect x='330' y='428' width='960' height='44' rx='22'/>
+    <polygon points='840,432 640,150 585,150 700,432'/><polygon points='840,468 640,750 585,750 700,468'/>
+    <polygon points='430,434 345,320 315,320 360,434'/><polygon points='430,466 345,580 315,580 360,466'/>
+    <rect x='700' y='320' width='80' height='26' rx='12'/><rect x='700' y='554' width='80' height='26' rx='12'/>`,
+  widebody: `
+    <rect x='260' y='418' width='1080' height='64' rx='32'/>
+    <polygon points='860,422 620,90 550,90 690,422'/><polygon points='860,478 620,810 550,810 690,478'/>
+    <polygon points='380,424 280,290 245,290 310,424'/><polygon points='380,476 280,610 245,610 310,476'/>
+    <rect x='680' y='290' width='100' height='34' rx='16'/><rect x='680' y='576' width='100' height='34' rx='16'/>`,
+  propliner: `
+    <rect x='380' y='430' width='860' height='40' rx='20'/>
+    <rect x='760' y='140' width='95' height='620' rx='24'/>
+    <rect x='440' y='330' width='60' height='240' rx='18'/>
+    <rect x='820' y='250' width='90' height='28' rx='12'/><rect x='820' y='622' width='90' height='28' rx='12'/>
+    <rect x='905' y='225' width='8' height='78' rx='4'/><rect x='905' y='597' width='8' height='78' rx='4'/>`,
+  fighter: `
+    <polygon points='1380,450 1180,420 420,416 420,484 1180,480'/>
+    <polygon points='980,440 640,190 560,190 600,440'/><polygon points='980,460 640,710 560,710 600,460'/>
+    <polygon points='520,440 420,330 390,330 420,440'/><polygon points='520,460 420,570 390,570 420,460'/>`,
+  bomber: `
+    <rect x='360' y='430' width='880' height='40' rx='20'/>
+    <polygon points='880,436 600,60 540,60 660,436'/><polygon points='880,464 600,840 540,840 660,464'/>
+    <polygon points='450,436 380,340 350,340 390,436'/><polygon points='450,464 380,560 350,560 390,464'/>
+    <rect x='700' y='250' width='90' height='26' rx='12'/><rect x='630' y='160' width='90' height='26' rx='12'/>
+    <rect x='700' y='624' width='90' height='26' rx='12'/><rect x='630' y='714' width='90' height='26' rx='12'/>`,
+  helicopter: `
+    <ellipse cx='900' cy='450' rx='170' ry='70'/>
+    <rect x='420' y='438' width='420' height='24' rx='12'/>
+    <rect x='420' y='390' width='16' height='120' rx='8'/>
+    <g stroke='white' stroke-width='16' stroke-linecap='round'>
+      <line x1='560' y1='290' x2='1200' y2='610'/><line x1='560' y1='610' x2='1200' y2='290'/>
+    </g>`,
+  warbird: `
+    <rect x='520' y='425' width='620' height='50' rx='25'/>
+    <ellipse cx='880' cy='450' rx='85' ry='330'/>
+    <ellipse cx='560' cy='450' rx='40' ry='120'/>
+    <rect x='1140' y='370' width='10' height='160' rx='5'/>`,
+  biplane: `
+    <rect x='820' y='150' width='110' height='600' rx='16'/>
+    <rect x='760' y='190' width='100' height='520' rx='16' opacity='0.6'/>
+    <rect x='520' y='428' width='560' height='44' rx='22'/>
+    <rect x='540' y='360' width='60' height='180' rx='14'/>
+    <rect x='1080' y='390' width='10' height='120' rx='5'/>`,
+  light: `
+    <rect x='520' y='430' width='600' height='40' rx='20'/>
+    <rect x='820' y='170' width='90' height='560' rx='18'/>
+    <rect x='540' y='350' width='55' height='200' rx='14'/>
+    <rect x='1120' y='395' width='8' height='110' rx='4'/>`,
+  bizjet: `
+    <rect x='420' y='432' width='820' height='36' rx='18'/>
+    <polygon points='900,436 720,200 670,200 780,436'/><polygon points='900,464 720,700 670,700 780,464'/>
+    <polygon points='470,436 400,330 375,330 420,436'/><polygon points='470,464 400,570 375,570 420,464'/>
+    <rect x='480' y='392' width='110' height='28' rx='12'/><rect x='480' y='480' width='110' height='28' rx='12'/>`,
+};
+
+function silhouetteFor(a: Aircraft) {
+  return classSilhouette(a.type, silhouetteClass(a));
+}
+
+// Room questions only receive the class, so they draw it from that alone.
+function classSilhouette(type: Aircraft["type"], shape: SilhouetteClass) {
   const palette: Record<string, string> = {
     commercial: "#0ea5e9",
     military: "#64748b",
@@ -243,35 +1130,13 @@ function posterFor(model: string, type: string) {
       <circle cx='1450' cy='220' r='160'/>
       <circle cx='1200' cy='750' r='220'/>
     </g>
-    <g fill='white' opacity='0.22'>
-      <path d='M350 620 c200 -90 400 -140 650 -150 l220 -10 -180 65 c-210 77 -420 130 -690 160z' />
-    </g>
-    <g font-family='ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto' fill='white'>
-      <text x='80' y='780' font-size='48' opacity='0.7'>Airplane Recognition</text>
-      <text x='80' y='850' font-size='80' font-weight='700'>${model.replace(/&/g, '&amp;')}</text>
+    <g fill='white' opacity='0.85'>${SILHOUETTE_SHAPES[shape]}
     </g>
   </svg>`;
   return `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`;
 }
 
-// Wikipedia API cache (in-memory + localStorage)
-const wikiCache: Record<string, string> = {};
 const decodedImageCache = new Set<string>();
-const COMMONS_EXTERIOR_SEARCH: Record<string, string> = {
-  "Gulfstream G650": "Gulfstream G650 aircraft exterior in flight",
-};
-const PREFERRED_AIRCRAFT_IMAGES: Record<string, string> = {
-  "Gulfstream G650":
-    "https://upload.wikimedia.org/wikipedia/commons/thumb/d/d6/G-ULFS_Gulfstream_G650_CVT_05-05-16_%2827046023031%29_%28cropped%29.jpg/1280px-G-ULFS_Gulfstream_G650_CVT_05-05-16_%2827046023031%29_%28cropped%29.jpg",
-};
-
-function fetchWithTimeout(url: string, timeoutMs = 6000) {
-  const controller = new AbortController();
-  const timeout = window.setTimeout(() => controller.abort(), timeoutMs);
-  return fetch(url, { signal: controller.signal }).finally(() =>
-    window.clearTimeout(timeout)
-  );
-}
 
 function preloadImage(url: string, timeoutMs = 15000): Promise<void> {
   if (decodedImageCache.has(url)) return Promise.resolve();
@@ -301,123 +1166,221 @@ function preloadImage(url: string, timeoutMs = 15000): Promise<void> {
   });
 }
 
-async function fetchWikipediaImage(model: string): Promise<string | null> {
-  if (PREFERRED_AIRCRAFT_IMAGES[model]) {
-    return PREFERRED_AIRCRAFT_IMAGES[model];
+// Silhouette questions split a photo into shape and backdrop. The backdrop
+// colour is sampled from the frame's border, and each pixel's distance from
+// it is thresholded with Otsu's method. Returns 1 for shape pixels.
+function silhouetteMask(data: Uint8ClampedArray, width: number, height: number) {
+  let r = 0, g = 0, b = 0, border = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (y !== 0 && y !== height - 1 && x !== 0 && x !== width - 1) continue;
+      const i = (y * width + x) * 4;
+      r += data[i];
+      g += data[i + 1];
+      b += data[i + 2];
+      border++;
+    }
   }
-  const cacheKey = `wikiimg:v2:${model}`;
-  if (wikiCache[cacheKey]) return wikiCache[cacheKey];
-  const ls = localStorage.getItem(cacheKey);
-  if (ls) {
-    wikiCache[cacheKey] = ls;
-    return ls;
+  r /= border;
+  g /= border;
+  b /= border;
+
+  const distances = new Uint8Array(width * height);
+  const histogram = new Array(256).fill(0);
+  for (let p = 0; p < distances.length; p++) {
+    const i = p * 4;
+    const distance = Math.min(255, Math.round(Math.hypot(data[i] - r, data[i + 1] - g, data[i + 2] - b) * 255 / 442));
+    distances[p] = distance;
+    histogram[distance]++;
   }
 
-  const exteriorSearch = COMMONS_EXTERIOR_SEARCH[model];
-  if (exteriorSearch) {
-    try {
-      const url = `https://commons.wikimedia.org/w/api.php?action=query&generator=search&gsrsearch=${encodeURIComponent(
-        exteriorSearch
-      )}&gsrnamespace=6&gsrlimit=12&prop=imageinfo&iiprop=url|mime&iiurlwidth=1000&format=json&origin=*`;
-      const response = await fetchWithTimeout(url);
-      if (response.ok) {
-        const data = await response.json();
-        const pages = Object.values(data?.query?.pages || {}) as any[];
-        const exterior = pages
-          .map((page) => page?.imageinfo?.[0])
-          .find((info) => info?.mime?.startsWith("image/") && info?.thumburl);
-        const exteriorUrl = exterior?.thumburl || exterior?.url;
-        if (exteriorUrl) {
-          wikiCache[cacheKey] = exteriorUrl;
-          try {
-            localStorage.setItem(cacheKey, exteriorUrl);
-          } catch {
-            // Continue without persistent caching when storage is unavailable.
-          }
-          return exteriorUrl;
-        }
-      }
-    } catch {
-      // Do not fall back to an interior lead image for an exterior-only entry.
+  let sumAll = 0;
+  histogram.forEach((count, value) => { sumAll += count * value; });
+  let sumBelow = 0, countBelow = 0, bestVariance = 0, threshold = 0;
+  for (let t = 0; t < 256; t++) {
+    countBelow += histogram[t];
+    if (!countBelow) continue;
+    const countAbove = distances.length - countBelow;
+    if (!countAbove) break;
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sumAll - sumBelow) / countAbove;
+    const variance = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = t;
     }
-    return null;
   }
+  threshold = Math.max(threshold, SILHOUETTE_MIN_CONTRAST);
+  return distances.map((distance) => (distance > threshold ? 1 : 0));
+}
 
-  const tryTitles = [model, `${model} (aircraft)`, model.replaceAll("-", " ")];
-  const results = await Promise.all(
-    tryTitles.map(async (t) => {
-      try {
-      const url = `https://en.wikipedia.org/w/api.php?action=query&prop=pageimages&format=json&piprop=thumbnail|original&pithumbsize=1000&titles=${encodeURIComponent(
-        t
-      )}&origin=*`;
-      const res = await fetchWithTimeout(url);
-      if (!res.ok) return null;
-      const data = await res.json();
-      const pages = data?.query?.pages || {};
-      for (const k of Object.keys(pages)) {
-        const p = pages[k];
-        const src = p?.thumbnail?.source || p?.original?.source;
-        if (src) return src as string;
-      }
-      return null;
-      } catch {
-        return null;
-      }
-    })
-  );
+const silhouetteCache = new Map<string, string>();
+
+// Runs after preloadImage, so the download is normally served from cache.
+// The copy is requested with CORS so the canvas stays readable; a host
+// without CORS taints it and getImageData throws, which the caller treats
+// like any other failed photo.
+async function readPhotoPixels(url: string, maxWidth: number) {
+  const image = new Image();
+  image.crossOrigin = "anonymous";
+  image.src = url;
+  await image.decode();
+
+  const scale = Math.min(1, maxWidth / image.naturalWidth);
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("Canvas unavailable");
+  context.drawImage(image, 0, 0, width, height);
+  return { canvas, context, frame: context.getImageData(0, 0, width, height), width, height };
+}
 
-  const src = results.find((result): result is string => !!result);
-  if (src) {
-    wikiCache[cacheKey] = src;
-    try {
-      localStorage.setItem(cacheKey, src);
-    } catch {
-      // Continue without persistent caching when storage is unavailable.
-    }
-    return src;
+async function photoSilhouette(url: string): Promise<string> {
+  const cached = silhouetteCache.get(url);
+  if (cached) return cached;
+  const { canvas, context, frame, width, height } = await readPhotoPixels(url, SILHOUETTE_MAX_WIDTH);
+  const mask = silhouetteMask(frame.data, width, height);
+  for (let p = 0; p < mask.length; p++) {
+    const i = p * 4;
+    // Slate-900 shape on a slate-200 backdrop.
+    frame.data[i] = mask[p] ? 15 : 226;
+    frame.data[i + 1] = mask[p] ? 23 : 232;
+    frame.data[i + 2] = mask[p] ? 42 : 240;
+    frame.data[i + 3] = 255;
   }
+  context.putImageData(frame, 0, 0);
+  const silhouette = canvas.toDataURL("image/png");
+  silhouetteCache.set(url, silhouette);
+  return silhouette;
+}
 
-  // Some aircraft pages have no usable lead image. Search Wikimedia Commons
-  // directly so a valid photo can still be found for the aircraft.
+// Zoom questions open on one end of the airframe—nose, tail or a wingtip—
+// found as an extreme point of the silhouette mask and nudged inwards so
+// the crop holds aircraft rather than sky. Unreadable or cluttered photos
+// fall back to a point along the middle of the frame.
+async function detailFocus(url: string, random = Math.random): Promise<ZoomFocus> {
   try {
-    const searchUrl = `https://commons.wikimedia.org/w/api.php?action=query&generator=search&gsrsearch=${encodeURIComponent(
-      model
-    )}&gsrnamespace=6&gsrlimit=10&prop=imageinfo&iiprop=url|mime&iiurlwidth=1000&format=json&origin=*`;
-    const response = await fetchWithTimeout(searchUrl);
-    if (response.ok) {
-      const data = await response.json();
-      const pages = Object.values(data?.query?.pages || {}) as any[];
-      const image = pages
-        .map((page) => page?.imageinfo?.[0])
-        .find((info) => info?.mime?.startsWith("image/") && info?.thumburl);
-      const commonsUrl = image?.thumburl || image?.url;
-      if (commonsUrl) {
-        wikiCache[cacheKey] = commonsUrl;
-        try {
-          localStorage.setItem(cacheKey, commonsUrl);
-        } catch {
-          // Continue without persistent caching when storage is unavailable.
-        }
-        return commonsUrl;
-      }
+    const { frame, width, height } = await readPhotoPixels(url, ZOOM_FOCUS_SAMPLE_WIDTH);
+    const mask = silhouetteMask(frame.data, width, height);
+    const ends: [number, number][] = [];
+    let area = 0;
+    mask.forEach((value, p) => {
+      if (!value) return;
+      area++;
+      const point: [number, number] = [p % width, Math.floor(p / width)];
+      if (!ends.length) ends.push(point, point, point, point);
+      if (point[0] < ends[0][0]) ends[0] = point;
+      if (point[0] > ends[1][0]) ends[1] = point;
+      if (point[1] < ends[2][1]) ends[2] = point;
+      if (point[1] > ends[3][1]) ends[3] = point;
+    });
+    const coverage = area / mask.length;
+    if (coverage > 0.02 && coverage < 0.8) {
+      const centerX = (ends[0][0] + ends[1][0]) / 2;
+      const centerY = (ends[2][1] + ends[3][1]) / 2;
+      const [x, y] = choice(ends, random);
+      return { x: (x + (centerX - x) * 0.15) / width, y: (y + (centerY - y) * 0.15) / height };
     }
   } catch {
-    // The caller will try another aircraft or show the retry state.
+    // A tainted canvas cannot be read; use the fallback point.
   }
-  return null;
+  return { x: choice([0.3, 0.5, 0.7], random), y: 0.5 };
+}
+
+function newTally(name = ""): RunTally {
+  return { name, score: 0, streak: 0, bestStreak: 0, misses: 0, answered: 0 };
+}
+
+// Podium order: score, then best streak; ties share a place.
+function rankTallies(tallies: RunTally[]) {
+  const sorted = [...tallies].sort((a, b) => b.score - a.score || b.bestStreak - a.bestStreak);
+  return sorted.map((tally) => ({
+    ...tally,
+    place: 1 + sorted.findIndex((other) => other.score === tally.score && other.bestStreak === tally.bestStreak),
+  }));
+}
+
+function zoomStage(timeLeft: number, totalTime: number) {
+  const elapsed = 1 - Math.max(0, timeLeft) / totalTime;
+  return Math.min(ZOOM_REVEAL_SCHEDULE.length - 1, Math.floor(elapsed * ZOOM_REVEAL_SCHEDULE.length));
+}
+
+async function fetchAircraftPhoto(a: Aircraft): Promise<string | null> {
+  if (IMAGE_SOURCE === "internal") return null;
+  return lookupAircraftPhoto(a);
 }
 
 async function fetchImageForAircraft(a: Aircraft): Promise<string> {
-  if (IMAGE_SOURCE === "internal") {
-    return posterFor(a.model, a.type);
-  }
-  const wiki = await fetchWikipediaImage(a.wikiTitle || a.model);
-  return wiki || posterFor(a.model, a.type);
+  return (await fetchAircraftPhoto(a)) || silhouetteFor(a);
+}
+
+// Reverse questions show every option as a photo, so all four must download
+// and decode before the timer starts. Silhouettes are shared by a whole class,
+// so a distractor without a distinct photo is swapped for a spare aircraft.
+async function loadOptionPhotos(options: Aircraft[], correctId: string, pool: Aircraft[]) {
+  const spares = shuffle(pool.filter((a) => !options.some((o) => o.id === a.id || o.model === a.model)));
+  const used = new Set<string>();
+  return Promise.all(options.map(async (option): Promise<[Aircraft, string]> => {
+    let candidate: Aircraft | undefined = option;
+    for (let attempt = 0; candidate && attempt < PHOTO_OPTION_ATTEMPTS; attempt++) {
+      try {
+        const url = await fetchAircraftPhoto(candidate);
+        if (url && !used.has(url)) {
+          used.add(url);
+          await preloadImage(url);
+          return [candidate, url];
+        }
+      } catch {
+        // Fall through to a spare aircraft.
+      }
+      candidate = option.id === correctId ? undefined : spares.pop();
+    }
+    throw new Error("No distinct photo for this option");
+  }));
 }
 
 // --------------------------
 // Hooks
 // --------------------------
+// Polls connected gamepads and replays their presses as keys; the left stick
+// doubles as the D-pad. Polling stops while no gamepad is connected.
+function useGamepadKeys() {
+  useEffect(() => {
+    let frame: number | null = null;
+    let held = new Set<string>();
+    const poll = () => {
+      const pads = navigator.getGamepads().filter((pad): pad is Gamepad => Boolean(pad));
+      const pressed = new Set<string>();
+      for (const pad of pads) {
+        for (const [index, key] of Object.entries(GAMEPAD_BUTTON_KEYS)) {
+          if (pad.buttons[Number(index)]?.pressed) pressed.add(key);
+        }
+        const [x = 0, y = 0] = pad.axes;
+        if (x <= -GAMEPAD_STICK_THRESHOLD) pressed.add("ArrowLeft");
+        if (x >= GAMEPAD_STICK_THRESHOLD) pressed.add("ArrowRight");
+        if (y <= -GAMEPAD_STICK_THRESHOLD) pressed.add("ArrowUp");
+        if (y >= GAMEPAD_STICK_THRESHOLD) pressed.add("ArrowDown");
+      }
+      for (const key of pressed) if (!held.has(key)) pressGamepadKey(key);
+      held = pressed;
+      frame = pads.length ? requestAnimationFrame(poll) : null;
+    };
+    const start = () => {
+      if (frame === null) frame = requestAnimationFrame(poll);
+    };
+    window.addEventListener("gamepadconnected", start);
+    start();
+    return () => {
+      window.removeEventListener("gamepadconnected", start);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, []);
+}
+
 function useCountdown(
   seconds: number,
   isRunning: boolean,
@@ -426,7 +1389,9 @@ function useCountdown(
 ) {
   const [timeLeft, setTimeLeft] = useState(seconds);
   const startedAt = useRef<number | null>(null);
-  const raf = useRef<number | null>(null);
+  // Seconds used before the latest pause, so a run-level clock keeps its
+  // place across questions until restartKey changes.
+  const spent = useRef(0);
   const onElapsedRef = useRef(onElapsed);
 
   useEffect(() => {
@@ -437,36 +1402,63 @@ function useCountdown(
   useEffect(() => {
     setTimeLeft(seconds);
     startedAt.current = null;
+    spent.current = 0;
   }, [seconds, restartKey]);
 
   useEffect(() => {
     if (!isRunning) return;
     startedAt.current = performance.now();
-    const tick = () => {
+    // Wall time still decides how much is left; the interval only sets how
+    // often that is rendered.
+    const interval = window.setInterval(() => {
       if (startedAt.current == null) return;
-      const elapsed = (performance.now() - startedAt.current) / 1000;
+      const elapsed = spent.current + (performance.now() - startedAt.current) / 1000;
       const left = Math.max(0, seconds - elapsed);
       setTimeLeft(left);
       if (left <= 0) {
+        window.clearInterval(interval);
         onElapsedRef.current();
-        return;
       }
-      raf.current = requestAnimationFrame(tick);
-    };
-    raf.current = requestAnimationFrame(tick);
+    }, TIMER_TICK_MS);
     return () => {
-      if (raf.current) cancelAnimationFrame(raf.current);
+      window.clearInterval(interval);
+      if (startedAt.current != null) spent.current += (performance.now() - startedAt.current) / 1000;
+      startedAt.current = null;
     };
   }, [isRunning, seconds, restartKey]);
 
-  return timeLeft;
-}
+  // Extra time is taken off the seconds already spent, so it lasts until the
+  // next reset whether or not the clock is running.
+  function addTime(extra: number) {
+    spent.current -= extra;
+    setTimeLeft((left) => left + extra);
+  }
+
+  return [timeLeft, addTime] as const;
+}
+
+// Room questions are timed by the server; this only renders what is left of
+// the deadline it sent.
+function useDeadline(deadline: number | null) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!deadline) return;
+    setNow(Date.now());
+    const interval = window.setInterval(() => {
+      const time = Date.now();
+      setNow(time);
+      if (time >= deadline) window.clearInterval(interval);
+    }, TIMER_TICK_MS);
+    return () => window.clearInterval(interval);
+  }, [deadline]);
+  return deadline ? Math.max(0, (deadline - now) / 1000) : 0;
+}
 
 // --------------------------
 // Main App
 // --------------------------
 export default function AirplaneQuizApp() {
-  const [screen, setScreen] = useState<"menu" | "quiz" | "learn" | "result">(
+  const [screen, setScreen] = useState<"menu" | "quiz" | "learn" | "result" | "stats">(
     "menu"
   );
 
@@ -477,8 +1469,8 @@ export default function AirplaneQuizApp() {
     vintage: true,
     general: true,
   });
-  const questionTimeSec = QUIZ_DEFAULTS.questionTimeSec; // fixed, not user-editable
   const questionsPerRun = QUIZ_DEFAULTS.questionsPerRun; // fixed, not user-editable
+  const [difficulty, setDifficulty] = useState<Difficulty>(() => readDifficulty());
 
   // Quiz runtime state
   const [questionIndex, setQuestionIndex] = useState(0);
@@ -486,6 +1478,10 @@ export default function AirplaneQuizApp() {
     correct: Aircraft | null;
     options: Aircraft[];
     imageUrl: string | null;
+    revealUrl?: string;
+    focus?: ZoomFocus;
+    optionPhotos?: Record<string, string>;
+    clue?: SpecClue;
     questionKey: number;
   } | null>(null);
   const [questionStatus, setQuestionStatus] = useState<
@@ -496,19 +1492,65 @@ export default function AirplaneQuizApp() {
   const warmupPromiseRef = useRef<Promise<void> | null>(null);
   const warmedImagesRef = useRef<Set<string>>(new Set());
 
+  const [showPartySetup, setShowPartySetup] = useState(false);
   const [locked, setLocked] = useState(false);
-  const [feedback, setFeedback] = useState<
-    | null
-    | { correct: boolean; fact: string; correctModel: string; points: number; selectedId?: string }
-  >(null);
-
-  const [score, setScore] = useState(0);
-  const [streak, setStreak] = useState(0);
-  const [bestStreak, setBestStreak] = useState(0);
+  const [feedback, setFeedback] = useState<AnswerFeedback | null>(null);
+
+  // `turn` points at the participant answering now; everything that reads the
+  // score reads that participant's tally.
+  const [tallies, setTallies] = useState<RunTally[]>([newTally()]);
+  const [turn, setTurn] = useState(0);
+  const { score, streak, bestStreak, misses, answered } = tallies[turn] || tallies[0];
+  // Pass-and-play pauses before each turn so the device can change hands, and
+  // after each question for the scoreboard.
+  const [partyStep, setPartyStep] = useState<"handoff" | "board" | null>(null);
+  const [lifelineUses, setLifelineUses] = useState<LifelineUse[]>([]);
+  const questionLifelines = lifelineUses.filter((use) => use.questionIndex === questionIndex);
+  const [runKey, setRunKey] = useState(0);
 
   const seenIdsRef = useRef<Set<string>>(new Set());
   const seenPhotosRef = useRef<Set<string>>(new Set());
 
+  // Rounds are planned up front from a seed so they can be replayed exactly.
+  const [mode, setMode] = useState<QuizMode>("classic");
+  // nextQuestion runs in the same tick as setMode, so it reads the mode here.
+  const modeRef = useRef<QuizMode>("classic");
+  const roundPlanRef = useRef<RoundQuestion[] | null>(null);
+  // Rounds without a plan draw from the types and difficulty they started
+  // with, so changing the settings before a resume does not change the round.
+  const roundDrawRef = useRef<{ types: Aircraft["type"][]; difficulty: Difficulty }>({ types: [...TYPES], difficulty: "normal" });
+  const [roundSeed, setRoundSeed] = useState<RoundSeed | null>(null);
+  const [pendingChallenge, setPendingChallenge] = useState<RoundChallenge | null>(() => readChallengeFromLocation());
+  const [activeChallenge, setActiveChallenge] = useState<RoundChallenge | null>(null);
+  // Challenge rounds can race the rival's recorded run; every round records
+  // its own so it can become someone else's ghost.
+  const [activeGhost, setActiveGhost] = useState<GhostRun | null>(null);
+  const runLogRef = useRef<RunLogAnswer[]>([]);
+  const [review, setReview] = useState<QuestionReview[]>([]);
+  const [lastRun, setLastRun] = useState<RunLog | null>(null);
+  const [ghostRunId, setGhostRunId] = useState<string | null>(null);
+
+  // Custom quizzes set their own length and clock; every other round uses
+  // the fixed defaults, which keeps ranked scores comparable.
+  const [customQuizzes, setCustomQuizzes] = useState<CustomQuiz[]>(() => readCustomQuizzes());
+  const [activeQuiz, setActiveQuiz] = useState<CustomQuiz | null>(null);
+  const [pendingQuiz, setPendingQuiz] = useState<CustomQuiz | null>(() => readCustomQuizFromLocation());
+  const [showCustomQuizzes, setShowCustomQuizzes] = useState(false);
+  const customRound = mode === "custom" ? activeQuiz : null;
+  const questionTimeSec = customRound?.timeSec || QUIZ_DEFAULTS.questionTimeSec;
+  const roundLength = customRound?.questionCount || questionsPerRun;
+  const [roundDifficulty, setRoundDifficulty] = useState<Difficulty>("normal");
+
+  // Multiplayer rooms: the server owns phases, timing and scoring.
+  const [room, setRoom] = useState<RoomState | null>(null);
+  const [showRoomSetup, setShowRoomSetup] = useState(false);
+  const [roomError, setRoomError] = useState("");
+  const roomSocketRef = useRef<WebSocket | null>(null);
+  const roomPreparedRef = useRef(-1);
+  const roomPickRef = useRef<string | undefined>(undefined);
+  const roomMessageRef = useRef<(message: any) => void>(() => {});
+  const roomTimeLeft = useDeadline(room?.phase === "question" ? room.deadline : null);
+
   const filteredDB = useMemo(() => {
     const enabled = new Set(
       TYPES.filter((t) => enabledTypes[t]).map((t) => t as string)
@@ -520,9 +1562,7 @@ export default function AirplaneQuizApp() {
     const targets = shuffle(aircraft).slice(0, count);
     await Promise.all(targets.map(async (item) => {
       try {
-        const url = IMAGE_SOURCE === "internal"
-          ? posterFor(item.model, item.type)
-          : await fetchWikipediaImage(item.wikiTitle || item.model);
+        const url = IMAGE_SOURCE === "internal" ? silhouetteFor(item) : await fetchAircraftPhoto(item);
         if (!url || warmedImagesRef.current.has(url)) return;
         await preloadImage(url);
         warmedImagesRef.current.add(url);
@@ -557,6 +1597,8 @@ export default function AirplaneQuizApp() {
   const [playerStanding, setPlayerStanding] = useState<(LeaderboardEntry & { rank?: number | null; totalPlayers?: number; topPercent?: number | null }) | null>(null);
   const [personalRecord, setPersonalRecord] = useState<PersonalRecord | null>(null);
   const [showUsernameSetup, setShowUsernameSetup] = useState(false);
+  const [dailyStatus, setDailyStatus] = useState<DailyStatus | null>(null);
+  const [dailyAttemptDate, setDailyAttemptDate] = useState<string | null>(() => readDailyAttemptDate());
 
   async function refreshGlobalLeaderboard() {
     try {
@@ -574,7 +1616,7 @@ export default function AirplaneQuizApp() {
           setPlayerStanding(playerData.player);
           const nextStats = { personalBest: Number(playerData.player.score || 0), bestStreak: Number(playerData.player.bestStreak || 0), rank: playerData.player.rank, totalPlayers: playerData.player.totalPlayers, topPercent: playerData.player.topPercent };
           setPlayerStats((current) => ({ ...current, ...nextStats, personalBest: Math.max(current.personalBest, nextStats.personalBest), bestStreak: Math.max(current.bestStreak, nextStats.bestStreak) }));
-          writePlayerStats(nextStats);
+          writePlayerStats({ ...readPlayerStats(), ...nextStats });
         }
       }
       setLeaderboardOnline(true);
@@ -583,8 +1625,123 @@ export default function AirplaneQuizApp() {
     }
   }
 
+  async function refreshDailyStatus() {
+    try {
+      const response = await fetch(`/api/daily?deviceId=${encodeURIComponent(playerProfile.deviceId)}`, {
+        headers: { Accept: "application/json" },
+      });
+      if (!response.ok) throw new Error("Daily challenge unavailable");
+      const data = await response.json();
+      if (typeof data?.date !== "string" || !Array.isArray(data?.leaderboard)) throw new Error("Invalid daily challenge response");
+      setDailyStatus(data);
+      if (data.attempted) {
+        writeDailyAttemptDate(data.date);
+        setDailyAttemptDate(data.date);
+      }
+    } catch {
+      // The menu falls back to the attempt date remembered by this browser.
+    }
+  }
+
+  // Career progress belongs to the profile: it is kept locally and merged
+  // with the server copy, keeping the best accuracy for every tier.
+  const [campaignProgress, setCampaignProgress] = useState<CampaignProgress>(() => readCampaignProgress());
+  const [activeTier, setActiveTier] = useState<CampaignTier | null>(null);
+  const [showCampaign, setShowCampaign] = useState(false);
+
+  async function submitCampaignResult(tier: string, accuracy: number) {
+    const response = await fetch("/api/progress", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({ name: playerProfile.username, deviceId: playerProfile.deviceId, tier, accuracy }),
+    });
+    if (!response.ok) throw new Error("Progress sync failed");
+  }
+
+  async function syncCampaignProgress() {
+    try {
+      const response = await fetch(`/api/progress?deviceId=${encodeURIComponent(playerProfile.deviceId)}`, {
+        headers: { Accept: "application/json" },
+      });
+      if (!response.ok) throw new Error("Progress unavailable");
+      const data = await response.json();
+      if (!data?.progress || typeof data.progress !== "object") throw new Error("Invalid progress response");
+      const local = readCampaignProgress();
+      const merged = mergeCampaignProgress(local, data.progress);
+      setCampaignProgress(merged);
+      writeCampaignProgress(merged);
+      // Results earned offline go up in tier order, so each tier is already
+      // unlocked on the server when its result arrives.
+      for (const tier of CAMPAIGN_TIERS) {
+        if ((local[tier.id] || 0) > (data.progress[tier.id] || 0)) await submitCampaignResult(tier.id, local[tier.id]);
+      }
+    } catch {
+      // Local progress stays usable and is merged on the next load.
+    }
+  }
+
+  function recordCampaignResult(tier: CampaignTier, accuracy: number) {
+    const next = mergeCampaignProgress(campaignProgress, { [tier.id]: accuracy });
+    setCampaignProgress(next);
+    writeCampaignProgress(next);
+    void submitCampaignResult(tier.id, accuracy).catch(() => {
+      // The next sync uploads it.
+    });
+  }
+
+  // Achievements unlock on this device first and are mirrored to the server
+  // under the same anonymous profile.
+  const [achievements, setAchievements] = useState<UnlockedAchievements>(() => readAchievements());
+  const [achievementToasts, setAchievementToasts] = useState<AchievementId[]>([]);
+  const [showProfile, setShowProfile] = useState(false);
+
+  async function submitAchievements(ids: AchievementId[]) {
+    const response = await fetch("/api/achievements", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({ name: playerProfile.username, deviceId: playerProfile.deviceId, achievements: ids }),
+    });
+    if (!response.ok) throw new Error("Achievement sync failed");
+  }
+
+  async function syncAchievements() {
+    try {
+      const response = await fetch(`/api/achievements?deviceId=${encodeURIComponent(playerProfile.deviceId)}`, {
+        headers: { Accept: "application/json" },
+      });
+      if (!response.ok) throw new Error("Achievements unavailable");
+      const data = await response.json();
+      if (!data?.achievements || typeof data.achievements !== "object") throw new Error("Invalid achievements response");
+      const local = readAchievements();
+      const merged = mergeAchievements(local, data.achievements);
+      setAchievements(merged);
+      writeAchievements(merged);
+      const missing = ACHIEVEMENTS.map(({ id }) => id).filter((id) => local[id] && !data.achievements[id]);
+      if (missing.length) await submitAchievements(missing);
+    } catch {
+      // Local achievements stay visible and are merged on the next load.
+    }
+  }
+
+  function unlockAchievements(ids: AchievementId[]) {
+    const earned = ids.filter((id) => !achievements[id]);
+    if (!earned.length) return;
+    const today = utcDateKey();
+    const next = { ...achievements };
+    for (const id of earned) next[id] = today;
+    setAchievements(next);
+    writeAchievements(next);
+    setAchievementToasts((queue) => [...queue, ...earned]);
+    void submitAchievements(earned).catch(() => {
+      // The next sync uploads them.
+    });
+  }
+
   useEffect(() => {
     void refreshGlobalLeaderboard();
+    void refreshDailyStatus();
+    void syncCampaignProgress();
+    void syncAchievements();
   }, []);
 
   const [showLeaderboard, setShowLeaderboard] = useState(false);
@@ -595,50 +1752,86 @@ export default function AirplaneQuizApp() {
   );
 
   // Generate next question
-  async function nextQuestion(resetKey = false) {
-    if (filteredDB.length < OPTIONS_PER_QUESTION) return;
+  async function nextQuestion(resetKey = false, index = questionIndex) {
+    const planned = roundPlanRef.current?.[index];
+    const reverse = modeRef.current === "reverse";
+    const drawPool = roundPool(roundDrawRef.current.types);
+    if (!planned && drawPool.length < OPTIONS_PER_QUESTION) return;
     const requestId = ++questionRequestRef.current;
     setCurrent(null);
     setQuestionStatus("loading");
     setImageLoadError("");
 
-    let pool = filteredDB.filter((a) => !seenIdsRef.current.has(a.id));
+    let pool = drawPool.filter((a) => !seenIdsRef.current.has(a.id));
     if (pool.length === 0) {
       seenIdsRef.current.clear();
-      pool = filteredDB;
+      pool = drawPool;
     }
 
     // Try several aircraft so one broken remote photo does not block the run.
-    const candidates = shuffle(pool).slice(0, Math.min(4, pool.length));
-    for (const correct of candidates) {
+    // A planned question falls back to its seeded spares, so a challenge
+    // replay swaps in the same aircraft the sender would have seen.
+    // Practice follows the spaced-repetition schedule instead of a random draw.
+    const ordered = modeRef.current === "practice" ? practiceQueue(pool, readMastery()) : shuffle(pool);
+    const candidates: RoundQuestion[] = planned
+      ? [planned, ...(planned.spares || []).filter((spare) => !seenIdsRef.current.has(spare.correct.id))]
+      : ordered.slice(0, Math.min(4, pool.length)).map((correct) => ({ correct, options: buildOptions(correct, drawPool, Math.random, roundDrawRef.current.difficulty) }));
+
+    // Spec clues need no photo, so they also stand in when none can be loaded.
+    // The class silhouette narrows the field without naming the aircraft.
+    const presentClue = ({ correct, options }: RoundQuestion) => {
+      setCurrent({
+        correct,
+        options: distinctClueOptions(correct, options, drawPool),
+        imageUrl: modeRef.current === "specs" ? null : silhouetteFor(correct),
+        clue: aircraftClue(correct),
+        questionKey: resetKey ? Date.now() : Math.random(),
+      });
+      setQuestionStatus("ready");
+    };
+    if (modeRef.current === "specs" || (IMAGE_SOURCE === "internal" && !reverse)) {
+      presentClue(candidates[0]);
+      return;
+    }
+    for (const { correct, options } of candidates) {
       try {
-        const distractors = shuffle(
-          filteredDB.filter((a) => a.id !== correct.id)
-        ).slice(0, OPTIONS_PER_QUESTION - 1);
-        const options = shuffle([correct, ...distractors]);
         const questionKey = resetKey ? Date.now() : Math.random();
         setCurrent({ correct, options, imageUrl: null, questionKey });
 
-        const imageUrl =
-          IMAGE_SOURCE === "internal"
-            ? posterFor(correct.model, correct.type)
-            : await fetchWikipediaImage(correct.wikiTitle || correct.model);
+        if (reverse) {
+          const loaded = await loadOptionPhotos(options, correct.id, drawPool);
+          if (requestId !== questionRequestRef.current) return;
+          const optionPhotos = Object.fromEntries(loaded.map(([aircraft, url]) => [aircraft.id, url]));
+          setCurrent({ correct, options: loaded.map(([aircraft]) => aircraft), imageUrl: optionPhotos[correct.id], optionPhotos, questionKey });
+          setQuestionStatus("ready");
+          void warmAircraftImages(roundPlanRef.current?.[index + 1]?.options || [], OPTIONS_PER_QUESTION);
+          return;
+        }
+
+        const imageUrl = await fetchAircraftPhoto(correct);
         if (!imageUrl || seenPhotosRef.current.has(imageUrl)) continue;
 
         // This downloads and decodes the actual image before the timer can start.
         await preloadImage(imageUrl);
+        // Silhouette rounds show the shape and keep the photo for the reveal.
+        const shape = modeRef.current === "silhouette" ? await photoSilhouette(imageUrl) : null;
+        const focus = modeRef.current === "zoom" ? await detailFocus(imageUrl) : undefined;
         if (requestId !== questionRequestRef.current) return;
 
         seenPhotosRef.current.add(imageUrl);
         setCurrent({
           correct,
           options,
-          imageUrl,
+          imageUrl: shape || imageUrl,
+          revealUrl: shape ? imageUrl : undefined,
+          focus,
           questionKey,
         });
         setQuestionStatus("ready");
         void warmAircraftImages(
-          filteredDB.filter((aircraft) => aircraft.id !== correct.id),
+          planned
+            ? roundPlanRef.current!.slice(index + 1, index + 1 + IMAGE_WARM_QUEUE_SIZE).map((question) => question.correct)
+            : drawPool.filter((aircraft) => aircraft.id !== correct.id),
           IMAGE_WARM_QUEUE_SIZE
         );
         return;
@@ -647,7 +1840,9 @@ export default function AirplaneQuizApp() {
       }
     }
 
-    if (requestId === questionRequestRef.current) {
+    if (requestId === questionRequestRef.current && !reverse) {
+      presentClue(candidates[0]);
+    } else if (requestId === questionRequestRef.current) {
       setQuestionStatus("error");
       setImageLoadError(
         "We couldn't load an aircraft photo. Check your connection and try again—your timer has not started."
@@ -655,11 +1850,18 @@ export default function AirplaneQuizApp() {
     }
   }
 
-  function resetRun() {
+  function updateTally(change: (tally: RunTally) => Partial<RunTally>) {
+    setTallies((list) => list.map((tally, index) => (index === turn ? { ...tally, ...change(tally) } : tally)));
+  }
+
+  function resetRun(players: string[] = [""]) {
     questionRequestRef.current += 1;
-    setScore(0);
-    setStreak(0);
-    setBestStreak(0);
+    setTallies(players.map((name) => newTally(name)));
+    setTurn(0);
+    setPartyStep(players.length > 1 ? "handoff" : null);
+    setLifelineUses([]);
+    setPaused(false);
+    setRunKey((key) => key + 1);
     setFeedback(null);
     setLocked(false);
     setQuestionIndex(0);
@@ -669,83 +1871,723 @@ export default function AirplaneQuizApp() {
     setQuestionStatus("idle");
     setImageLoadError("");
     setPersonalRecord(null);
+    runLogRef.current = [];
+    setReview([]);
+    setLastRun(null);
+    setGhostRunId(null);
   }
 
-  async function startQuiz() {
-    resetRun();
+  async function beginRound(nextMode: QuizMode, plan: RoundQuestion[] | null, nextDifficulty: Difficulty, players?: string[]) {
+    resetRun(players);
+    clearRunSnapshot();
+    setSavedRun(null);
+    roundPlanRef.current = plan;
+    roundDrawRef.current = { types: TYPES.filter((t) => enabledTypes[t]), difficulty: nextDifficulty };
+    modeRef.current = nextMode;
+    setMode(nextMode);
+    setRoundDifficulty(nextDifficulty);
     setScreen("quiz");
     if (warmupPromiseRef.current) await warmupPromiseRef.current;
-    await nextQuestion(true);
+    await nextQuestion(true, 0);
   }
 
-  // Timer
-  const timeLeft = useCountdown(
-    questionTimeSec,
-    screen === "quiz" && questionStatus === "ready" && !!current && !locked,
-    () => {
-      if (locked || !current) return;
-      // Time out => incorrect
-      setLocked(true);
-      const fact = current.correct?.fact || "";
-      setFeedback({
-        correct: false,
-        fact,
-        correctModel: current.correct?.model || "",
-        points: 0,
-        selectedId: undefined,
+  // Resuming never gives a second look: a question that was on screen without
+  // an answer is forfeited like a timeout, and the player moves on from there.
+  function resumeRun(snapshot: RunSnapshot) {
+    const byId = new Map(AIRCRAFT_DB.map((a) => [a.id, a]));
+    const correct = byId.get(snapshot.question.correct)!;
+    resetRun();
+    setSavedRun(null);
+    roundPlanRef.current = snapshot.plan?.map((question) => planFromIds(question, byId)) || null;
+    roundDrawRef.current = { types: snapshot.types, difficulty: snapshot.difficulty };
+    modeRef.current = snapshot.mode;
+    setMode(snapshot.mode);
+    setRoundDifficulty(snapshot.difficulty);
+    setRoundSeed(snapshot.roundSeed);
+    setActiveChallenge(snapshot.challenge);
+    setActiveGhost(snapshot.ghost);
+    setActiveQuiz(snapshot.quiz);
+    setActiveTier(CAMPAIGN_TIERS.find((tier) => tier.id === snapshot.tier) || null);
+    snapshot.seenIds.forEach((id) => seenIdsRef.current.add(id));
+    runLogRef.current = snapshot.runLog;
+    setLifelineUses(snapshot.lifelineUses);
+    setQuestionIndex(snapshot.questionIndex);
+
+    let { tally, feedback, review: rows } = snapshot;
+    if (!feedback) {
+      tally = { ...tally, streak: 0, misses: tally.misses + 1, answered: tally.answered + 1 };
+      runLogRef.current.push({ aircraftId: correct.id, selectedId: null, ms: (snapshot.quiz?.timeSec || QUIZ_DEFAULTS.questionTimeSec) * 1000, points: 0 });
+      rows = [...rows, { aircraft: correct, imageUrl: snapshot.question.revealUrl || snapshot.question.imageUrl, grade: "wrong", selectedId: null, picked: null, ms: null, base: 0, speedBonus: 0, streakBonus: 0, multiplier: 1, points: 0 }];
+      recordMastery(correct.id, "wrong");
+      feedback = { correct: false, forfeited: "reload", fact: correct.fact, correctModel: correct.model, points: 0 };
+    }
+    setTallies([tally]);
+    setReview(rows);
+    setCurrent({
+      ...snapshot.question,
+      correct,
+      options: snapshot.question.options.map((id) => byId.get(id)!),
+      questionKey: Math.random(),
+    });
+    setQuestionStatus("ready");
+    setFeedback(feedback);
+    setLocked(true);
+    setScreen("quiz");
+  }
+
+  function discardSavedRun() {
+    clearRunSnapshot();
+    setSavedRun(null);
+  }
+
+  async function startQuiz() {
+    const seed = { seed: createRoundSeed(), types: TYPES.filter((t) => enabledTypes[t]), difficulty };
+    setRoundSeed(seed);
+    setActiveChallenge(null);
+    await beginRound("classic", buildSeededRound(seed.seed, roundPool(seed.types), questionsPerRun, difficulty), difficulty);
+  }
+
+  async function startChallenge(challenge: RoundChallenge, ghost: GhostRun | null = null) {
+    setPendingChallenge(null);
+    if (!ghost && challenge.ghost) {
+      try {
+        const run = await fetchGhostRun(challenge.ghost);
+        if (run.seed === challenge.seed) ghost = run;
+      } catch {
+        // The challenge still works without the rival's timing.
+      }
+    }
+    const challengeDifficulty = challenge.difficulty || "normal";
+    setRoundSeed({ seed: challenge.seed, types: challenge.types, difficulty: challengeDifficulty });
+    setActiveChallenge(challenge);
+    setActiveGhost(ghost);
+    await beginRound("challenge", buildSeededRound(challenge.seed, roundPool(challenge.types), questionsPerRun, challengeDifficulty), challengeDifficulty);
+  }
+
+  async function startDailyChallenge() {
+    let date = utcDateKey();
+    if (dailyAttemptDate === date) return;
+    try {
+      const response = await fetch("/api/daily", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json" },
+        body: JSON.stringify({ action: "start", name: playerProfile.username, deviceId: playerProfile.deviceId }),
       });
-      // mark this id as seen to avoid repeats
-      if (current?.correct?.id) seenIdsRef.current.add(current.correct.id);
+      const data = await response.json().catch(() => null);
+      if (response.status === 409 && data?.attempted) {
+        writeDailyAttemptDate(data.date || date);
+        setDailyAttemptDate(data.date || date);
+        void refreshDailyStatus();
+        return;
+      }
+      if (response.status === 409) {
+        setShowUsernameSetup(true);
+        return;
+      }
+      if (!response.ok) throw new Error("Daily challenge unavailable");
+      if (typeof data?.date === "string") date = data.date;
+    } catch {
+      // Offline players still get today's round; it simply cannot be ranked.
+    }
+
+    writeDailyAttemptDate(date);
+    setDailyAttemptDate(date);
+    setRoundSeed(null);
+    setActiveChallenge(null);
+    // Everyone plays the daily round at Normal so its scores stay comparable.
+    await beginRound("daily", buildSeededRound(`daily:${date}`, AIRCRAFT_DB, questionsPerRun), "normal");
+  }
+
+  // Survival is endless, so it draws from the enabled pool as it goes.
+  async function startSurvival() {
+    setRoundSeed(null);
+    setActiveChallenge(null);
+    await beginRound("survival", null, difficulty);
+  }
+
+  // Typing rounds reuse a planned round but ignore its options, so the
+  // difficulty setting changes nothing and they always score at ×1.
+  async function startTyping() {
+    setRoundSeed(null);
+    setActiveChallenge(null);
+    await beginRound("typing", buildSeededRound(createRoundSeed(), filteredDB, questionsPerRun), "normal");
+  }
+
+  async function startSilhouette() {
+    setRoundSeed(null);
+    setActiveChallenge(null);
+    await beginRound("silhouette", buildSeededRound(createRoundSeed(), filteredDB, questionsPerRun, difficulty), difficulty);
+  }
+
+  async function startZoom() {
+    setRoundSeed(null);
+    setActiveChallenge(null);
+    await beginRound("zoom", buildSeededRound(createRoundSeed(), filteredDB, questionsPerRun, difficulty), difficulty);
+  }
+
+  // Pass-and-play rounds are unranked: every player answers each question of
+  // one planned round before the next one loads.
+  async function startParty(players: string[]) {
+    setShowPartySetup(false);
+    setRoundSeed(null);
+    setActiveChallenge(null);
+    await beginRound("party", buildSeededRound(createRoundSeed(), filteredDB, questionsPerRun, difficulty), difficulty, players);
+  }
+
+  // Reverse rounds are practice: the same planned round, answered with photos.
+  async function startReverse() {
+    setRoundSeed(null);
+    setActiveChallenge(null);
+    await beginRound("reverse", buildSeededRound(createRoundSeed(), filteredDB, questionsPerRun, difficulty), difficulty);
+  }
+
+  async function startSpecClues() {
+    setRoundSeed(null);
+    setActiveChallenge(null);
+    await beginRound("specs", buildSeededRound(createRoundSeed(), filteredDB, questionsPerRun, difficulty), difficulty);
+  }
+
+  async function startPractice() {
+    setRoundSeed(null);
+    setActiveChallenge(null);
+    await beginRound("practice", null, difficulty);
+  }
+
+  async function startTimeAttack() {
+    setRoundSeed(null);
+    setActiveChallenge(null);
+    await beginRound("timeAttack", null, difficulty);
+  }
+
+  // Custom quizzes are practice: the player chose the aircraft and the rules.
+  async function startCustomQuiz(quiz: CustomQuiz) {
+    setShowCustomQuizzes(false);
+    setPendingQuiz(null);
+    setRoundSeed(null);
+    setActiveChallenge(null);
+    setActiveQuiz(quiz);
+    await beginRound("custom", buildSeededRound(createRoundSeed(), customQuizPool(quiz), quiz.questionCount, difficulty, quiz.optionCount), difficulty);
+  }
+
+  function saveCustomQuiz(quiz: CustomQuiz) {
+    const next = [quiz, ...customQuizzes.filter((saved) => saved.id !== quiz.id)];
+    setCustomQuizzes(next);
+    writeCustomQuizzes(next);
+  }
+
+  function deleteCustomQuiz(id: string) {
+    const next = customQuizzes.filter((saved) => saved.id !== id);
+    setCustomQuizzes(next);
+    writeCustomQuizzes(next);
+  }
+
+  // Career rounds draw only from the tier's aircraft and are not ranked.
+  async function startCampaignTier(tier: CampaignTier) {
+    setShowCampaign(false);
+    setRoundSeed(null);
+    setActiveChallenge(null);
+    setActiveTier(tier);
+    const pool = AIRCRAFT_DB.filter((a) => tier.aircraftIds.includes(a.id));
+    await beginRound("campaign", buildSeededRound(createRoundSeed(), pool, questionsPerRun, difficulty), difficulty);
+  }
+
+  // Replays the round just flown against its own log.
+  function raceOwnGhost() {
+    if (!lastRun) return;
+    const ghost = { ...lastRun, name: "Your ghost" };
+    return startChallenge({ seed: ghost.seed, types: ghost.types, difficulty: ghost.difficulty, name: ghost.name, score: ghost.score }, ghost);
+  }
+
+  function startSameMode() {
+    if (mode === "survival") return startSurvival();
+    if (mode === "timeAttack") return startTimeAttack();
+    if (mode === "typing") return startTyping();
+    if (mode === "silhouette") return startSilhouette();
+    if (mode === "zoom") return startZoom();
+    if (mode === "party") return startParty(tallies.map((tally) => tally.name));
+    if (mode === "reverse") return startReverse();
+    if (mode === "specs") return startSpecClues();
+    if (mode === "practice") return startPractice();
+    if (mode === "custom" && activeQuiz) return startCustomQuiz(activeQuiz);
+    if (mode === "campaign" && activeTier) return startCampaignTier(activeTier);
+    return startQuiz();
+  }
+
+  // Timer: Time Attack runs one clock across the whole run, pausing only
+  // while the next photo loads; other modes restart it for every question.
+  const timeAttack = mode === "timeAttack";
+  // The extra-time lifeline lengthens only the question it was used on.
+  const questionSeconds = questionTimeSec + (questionLifelines.some((use) => use.lifeline === "extraTime") ? LIFELINE_SECONDS : 0);
+  const [paused, setPaused] = useState(false);
+  const timerRunning = screen === "quiz" && questionStatus === "ready" && !!current && !partyStep && mode !== "room" && (timeAttack || !locked) && !paused;
+  const [timeLeft, addTime] = useCountdown(
+    timeAttack ? TIME_ATTACK_SECONDS : questionTimeSec,
+    timerRunning,
+    () => {
+      if (timeAttack) {
+        finishRun();
+        return;
+      }
+      missQuestion();
     },
-    current?.questionKey
+    timeAttack ? runKey : current?.questionKey
   );
 
+  // Response times are measured from the moment each question's clock first
+  // runs, since the Time Attack clock spans the whole run.
+  const questionStartRef = useRef<{ key: number; at: number } | null>(null);
+  useEffect(() => {
+    if (!timerRunning || !current || locked || questionStartRef.current?.key === current.questionKey) return;
+    questionStartRef.current = { key: current.questionKey, at: performance.now() };
+  }, [timerRunning, current, locked]);
+
+  function questionElapsedMs() {
+    const start = questionStartRef.current;
+    return start && start.key === current?.questionKey ? Math.round(performance.now() - start.at) : questionSeconds * 1000;
+  }
+
+  // Time out (or a forfeit) => incorrect
+  function missQuestion(forfeited?: AnswerFeedback["forfeited"]) {
+    if (locked || !current) return;
+    setLocked(true);
+    updateTally((tally) => ({ answered: tally.answered + 1, misses: tally.misses + 1 }));
+    // A timeout spends the whole clock; only a Time Attack forfeit can end a
+    // question sooner.
+    const elapsedMs = timeAttack ? questionElapsedMs() : questionSeconds * 1000;
+    if (current.correct) runLogRef.current.push({ aircraftId: current.correct.id, selectedId: null, ms: elapsedMs, points: 0 });
+    recordReview({ grade: "wrong", selectedId: null, picked: null, ms: elapsedMs, base: 0, speedBonus: 0, streakBonus: 0, multiplier: 1, points: 0 });
+    const fact = current.correct?.fact || "";
+    setFeedback({
+      correct: false,
+      forfeited,
+      fact,
+      correctModel: current.correct?.model || "",
+      points: 0,
+      selectedId: undefined,
+    });
+    // mark this id as seen to avoid repeats
+    if (current?.correct?.id) seenIdsRef.current.add(current.correct.id);
+  }
+
+  // The listener is registered once and always runs the latest render's policy.
+  const hiddenTabRef = useRef(() => {});
+  hiddenTabRef.current = () => {
+    const live = screen === "quiz" && questionStatus === "ready" && !!current && !partyStep && !locked;
+    if (document.visibilityState !== "hidden" || !live) return;
+    if (HIDDEN_TAB_POLICY[mode] === "pause") setPaused(true);
+    else if (HIDDEN_TAB_POLICY[mode] === "forfeit") missQuestion("hidden");
+  };
+  useEffect(() => {
+    const onVisibilityChange = () => hiddenTabRef.current();
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", onVisibilityChange);
+  }, []);
+
+  // Arrows move focus on every screen; the quiz adds 1–6 or A–F to answer,
+  // Enter or Space for Next, and Esc to ask before quitting.
+  const keyboardRef = useRef((_event: KeyboardEvent) => {});
+  keyboardRef.current = (event) => {
+    if (event.defaultPrevented || event.altKey || event.ctrlKey || event.metaKey) return;
+    const textEntry = isTextEntry(event.target);
+    const direction = ARROW_DIRECTIONS[event.key];
+    if (direction) {
+      // Single-line inputs only give up the vertical arrows.
+      if (textEntry && (direction[0] !== 0 || (event.target as HTMLElement).tagName !== "INPUT")) return;
+      event.preventDefault();
+      moveFocus(direction);
+      return;
+    }
+    if (screen !== "quiz") return;
+    if (event.key === "Escape") {
+      setShowQuitConfirm((open) => !open);
+      return;
+    }
+    if (showQuitConfirm || textEntry) return;
+    if (event.key === "Enter" || event.key === " ") {
+      // A focused button already handles its own Enter and Space.
+      if ((event.target as HTMLElement).closest?.("button:not(:disabled), a[href]")) return;
+      event.preventDefault();
+      if (paused) setPaused(false);
+      else if (feedback && mode !== "room") void handleNext();
+      return;
+    }
+    if (event.key.length !== 1 || mode === "typing" || locked || paused || partyStep || questionStatus !== "ready") return;
+    const slot = /^[1-6]$/.test(event.key) ? Number(event.key) - 1 : "abcdef".indexOf(event.key.toLowerCase());
+    const option = slot >= 0 ? current?.options[slot] : undefined;
+    if (!option || questionLifelines.some((use) => use.hidden?.includes(option.id))) return;
+    event.preventDefault();
+    handleAnswer(option);
+  };
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => keyboardRef.current(event);
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+  useGamepadKeys();
+
+  // Snapshot the round whenever a question is showing, so a reload can pick
+  // it up from the menu. Between questions the last answered one is kept.
+  // Every state value the snapshot reads is a dependency; the refs are read
+  // fresh on each write.
+  const [savedRun, setSavedRun] = useState<RunSnapshot | null>(() => readRunSnapshot());
+  useEffect(() => {
+    if (screen !== "quiz" || !RESUMABLE_MODES.includes(mode) || questionStatus !== "ready" || !current?.correct) return;
+    const { correct, options, questionKey, ...photos } = current;
+    writeRunSnapshot({
+      mode,
+      difficulty: roundDifficulty,
+      questionIndex,
+      tally: tallies[0],
+      plan: roundPlanRef.current?.map(planToIds) || null,
+      types: roundDrawRef.current.types,
+      question: { ...photos, correct: correct.id, options: options.map((a) => a.id) },
+      feedback,
+      seenIds: [...seenIdsRef.current],
+      lifelineUses,
+      review,
+      runLog: runLogRef.current,
+      roundSeed,
+      challenge: activeChallenge,
+      ghost: activeGhost,
+      quiz: activeQuiz,
+      tier: activeTier?.id || null,
+    });
+  }, [screen, mode, questionStatus, current, roundDifficulty, questionIndex, tallies, feedback, lifelineUses, review, roundSeed, activeChallenge, activeGhost, activeQuiz, activeTier]);
+
+  useEffect(() => {
+    if (!timeAttack || !feedback || screen !== "quiz") return;
+    const timer = window.setTimeout(() => void handleNext(), TIME_ATTACK_FEEDBACK_MS);
+    return () => window.clearTimeout(timer);
+  }, [feedback]);
+
+  function applyLifeline(lifeline: Lifeline) {
+    if (!current?.correct || locked || questionStatus !== "ready") return;
+    if (lifelineUses.some((use) => use.lifeline === lifeline)) return;
+    const use: LifelineUse = { lifeline, questionIndex };
+    if (lifeline === "fiftyFifty") {
+      // Always leave at least one wrong option next to the answer.
+      const wrong = shuffle(current.options.filter((a) => a.id !== current.correct!.id));
+      use.hidden = wrong.slice(0, Math.min(2, wrong.length - 1)).map((a) => a.id);
+    } else if (lifeline === "extraTime") {
+      addTime(LIFELINE_SECONDS);
+    }
+    setLifelineUses((uses) => [...uses, use]);
+  }
+
   function handleAnswer(a: Aircraft) {
+    if (!current) return;
+    if (mode === "room") {
+      // Room answers are graded by the server when the question closes.
+      if (room?.phase !== "question" || locked) return;
+      roomPickRef.current = a.id;
+      setLocked(true);
+      sendRoom({ type: "answer", questionIndex: room.questionIndex, optionId: a.id });
+      return;
+    }
+    if (!current.correct) return;
+    if (a.id !== current.correct.id && mode !== "party" && !locked) recordConfusion(current.correct.id, a.id);
+    answerQuestion(a.id === current.correct.id ? "correct" : "wrong", { selectedId: a.id });
+  }
+
+  function handleTypedAnswer(text: string) {
+    if (!current?.correct) return;
+    answerQuestion(gradeTypedAnswer(text, current.correct), { typedAnswer: text });
+  }
+
+  // Pass-and-play rounds have several players, so only solo rounds keep a review
+// and move aircraft through the practice schedule.
+  function recordReview(row: Omit<QuestionReview, "aircraft" | "imageUrl">) {
+    if (!current?.correct || mode === "party") return;
+    recordMastery(current.correct.id, row.grade);
+    const entry = { ...row, aircraft: current.correct, imageUrl: current.revealUrl || current.imageUrl };
+    setReview((rows) => [...rows, entry]);
+  }
+
+  function answerQuestion(grade: AnswerGrade, answer: { selectedId?: string; typedAnswer?: string }) {
     if (!current || locked) return;
     setLocked(true);
 
-    const isCorrect = a.id === current.correct?.id;
     const fact = current.correct?.fact || "";
+    // Time Attack already rewards speed with volume, so it has no speed bonus;
+    // zoom questions pay the bonus of the reveal step on screen instead.
+    const speedBonus = timeAttack
+      ? 0
+      : mode === "zoom"
+        ? ZOOM_REVEAL_SCHEDULE[zoomStage(timeLeft, questionTimeSec)].bonus
+        : Math.round(Math.min(1, timeLeft / questionTimeSec) * 100);
+    // Lifelines cost a share of this question's points each.
+    const multiplier = DIFFICULTY_SETTINGS[roundDifficulty].multiplier * (1 - LIFELINE_PENALTY * questionLifelines.length);
 
     let awarded = 0;
-    if (isCorrect) {
-      const speedBonus = Math.round((timeLeft / questionTimeSec) * 100);
-      const streakBonus = streak * 20; // bonus grows with streak
-      awarded = 100 + speedBonus + streakBonus;
-      setScore((s) => s + awarded);
-      const newStreak = streak + 1;
-      setStreak(newStreak);
-      if (newStreak > bestStreak) setBestStreak(newStreak);
-    } else {
-      setStreak(0);
+    let streakBonus = 0;
+    let credit = 1;
+    if (grade === "correct") {
+      streakBonus = streak * 20; // bonus grows with streak
+      awarded = Math.floor((100 + speedBonus + streakBonus) * multiplier);
+    } else if (grade === "partial") {
+      // Naming only the family earns part of the base points but ends the streak.
+      credit = TYPING_PARTIAL_CREDIT;
+      awarded = Math.floor((100 + speedBonus) * multiplier * credit);
+    }
+    updateTally((tally) => {
+      const newStreak = grade === "correct" ? tally.streak + 1 : 0;
+      return {
+        score: tally.score + awarded,
+        streak: newStreak,
+        bestStreak: Math.max(tally.bestStreak, newStreak),
+        misses: tally.misses + (grade === "wrong" ? 1 : 0),
+        answered: tally.answered + 1,
+      };
+    });
+    const elapsedMs = questionElapsedMs();
+    runLogRef.current.push({
+      aircraftId: current.correct!.id,
+      selectedId: answer.selectedId || null,
+      ms: elapsedMs,
+      points: awarded,
+    });
+    recordReview({
+      grade,
+      selectedId: answer.selectedId || null,
+      picked: answer.typedAnswer ?? current.options.find((a) => a.id === answer.selectedId)?.model ?? null,
+      ms: elapsedMs,
+      base: grade === "wrong" ? 0 : 100,
+      speedBonus: grade === "wrong" ? 0 : speedBonus,
+      streakBonus,
+      multiplier: multiplier * credit,
+      points: awarded,
+    });
+    // Pass-and-play shares one device between players, so it earns nothing.
+    if (grade === "correct" && mode !== "party") {
+      const earned: AchievementId[] = [];
+      if (streak + 1 >= ACHIEVEMENT_STREAK) earned.push("streak-10");
+      if (elapsedMs < ACHIEVEMENT_QUICK_MS) earned.push("quick-draw");
+      if (current.correct!.type === "vintage" && recordVintageIdentified(current.correct!.id)) earned.push("all-vintage");
+      unlockAchievements(earned);
     }
 
     setFeedback({
-      correct: isCorrect,
+      correct: grade === "correct",
+      partial: grade === "partial",
       fact,
       correctModel: current.correct!.model,
       points: awarded,
-      selectedId: a.id,
+      ...answer,
     });
     seenIdsRef.current.add(current.correct!.id);
   }
 
+  function finishRun() {
+    questionRequestRef.current += 1;
+    clearRunSnapshot();
+    setFeedback(null);
+    setLocked(true);
+    // The browser's existing anonymous profile owns every score automatically.
+    setHasCompletedQuiz(true);
+    localStorage.setItem(QUIZ_COMPLETED_KEY, "true");
+    if (!playerProfile.usernameChosen && mode !== "party") setShowUsernameSetup(true);
+    setScreen("result");
+    const run = (mode === "classic" || mode === "challenge") && roundSeed
+      ? { ...roundSeed, difficulty: roundDifficulty, score, answers: runLogRef.current }
+      : null;
+    setLastRun(run);
+    // Replayed challenge rounds are practice: the seed was known in advance.
+    if (mode === "daily") void submitDailyResult();
+    else if (mode === "classic") void saveLeaderboard().then(() => run && uploadRun(run));
+    else if (mode === "survival" || mode === "timeAttack" || mode === "typing" || mode === "silhouette") void saveModeScore(mode);
+    else if (mode === "campaign" && activeTier) recordCampaignResult(activeTier, answered ? Math.round(((answered - misses) / answered) * 100) : 0);
+    if (review.length) {
+      void addRunRecord({
+        date: new Date().toISOString(),
+        mode,
+        difficulty: roundDifficulty,
+        types: roundSeed?.types || TYPES.filter((t) => enabledTypes[t]),
+        score,
+        answers: review.map((row) => ({ aircraftId: row.aircraft.id, selectedId: row.selectedId, grade: row.grade, ms: row.ms })),
+      }).catch(() => {
+        // History is best effort; private windows may block IndexedDB.
+      });
+    }
+    if (mode !== "party") {
+      const earned: AchievementId[] = [];
+      if (PERFECT_ROUND_MODES.includes(mode) && bestStreak >= questionsPerRun) earned.push("perfect-round");
+      if (recordPlayDay() >= ACHIEVEMENT_PLAY_DAYS) earned.push("week-streak");
+      unlockAchievements(earned);
+    }
+  }
+
   async function handleNext() {
+    if (screen !== "quiz") return;
     setFeedback(null);
     setLocked(true);
     const nextIdx = questionIndex + 1;
-    if (nextIdx >= questionsPerRun) {
-      // The browser's existing anonymous profile owns every score automatically.
-      setHasCompletedQuiz(true);
-      localStorage.setItem(QUIZ_COMPLETED_KEY, "true");
-      if (!playerProfile.usernameChosen) setShowUsernameSetup(true);
-      setScreen("result");
-      void saveLeaderboard();
+    if (mode === "party") {
+      if (turn + 1 < tallies.length) {
+        // Same question for the next player, with a fresh timer.
+        setTurn(turn + 1);
+        setPartyStep("handoff");
+        setCurrent((question) => question && { ...question, questionKey: Math.random() });
+        setLocked(false);
+      } else if (nextIdx >= questionsPerRun) {
+        finishRun();
+      } else {
+        setPartyStep("board");
+      }
       return;
     }
+    const runOver = mode === "survival" ? misses >= SURVIVAL_LIVES : !timeAttack && nextIdx >= roundLength;
+    if (runOver) {
+      finishRun();
+      return;
+    }
+    setQuestionIndex(nextIdx);
+    setLocked(false);
+    await nextQuestion(false, nextIdx);
+  }
+
+  async function startNextPartyQuestion() {
+    const nextIdx = questionIndex + 1;
+    setTurn(0);
+    setPartyStep("handoff");
     setQuestionIndex(nextIdx);
     setLocked(false);
-    await nextQuestion();
+    await nextQuestion(false, nextIdx);
+  }
+
+  function sendRoom(message: unknown) {
+    const socket = roomSocketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  }
+
+  function connectRoom(code: string, action: "create" | "join") {
+    leaveRoom();
+    setRoomError("");
+    const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+    const socket = new WebSocket(`${protocol}://${window.location.host}/api/rooms?code=${code}`);
+    roomSocketRef.current = socket;
+    socket.onopen = () => socket.send(JSON.stringify({ type: action, name: playerProfile.username }));
+    socket.onmessage = (event) => {
+      try {
+        roomMessageRef.current(JSON.parse(event.data));
+      } catch {
+        // Ignore frames that are not room messages.
+      }
+    };
+    socket.onclose = () => {
+      // A deliberate leave clears the ref first, so only drops land here.
+      if (roomSocketRef.current !== socket) return;
+      roomSocketRef.current = null;
+      setRoomError((error) => error || "Couldn't reach the room. Check the code and your connection.");
+      setRoom(null);
+      if (modeRef.current === "room") {
+        resetRun();
+        modeRef.current = "classic";
+        setScreen("menu");
+        setShowRoomSetup(true);
+      }
+    };
+  }
+
+  function leaveRoom() {
+    const socket = roomSocketRef.current;
+    roomSocketRef.current = null;
+    socket?.close();
+    setRoom(null);
+  }
+
+  // Every snapshot replaces the room; phase changes drive the quiz state.
+  roomMessageRef.current = (message: any) => {
+    if (message?.type === "error") {
+      setRoomError(message.message);
+      return;
+    }
+    if (message?.type !== "state") return;
+    const next: RoomState = { ...message, deadline: message.remainingMs ? Date.now() + message.remainingMs : 0 };
+    const me = next.players.find((player) => player.id === next.you);
+
+    if (modeRef.current !== "room") {
+      resetRun();
+      roundPlanRef.current = null;
+      roomPreparedRef.current = -1;
+      modeRef.current = "room";
+      setMode("room");
+      setShowRoomSetup(false);
+      setRoomError("");
+      setScreen("quiz");
+    }
+    setRoom(next);
+    if (me) setTallies([{ ...newTally(me.name), score: me.score, streak: me.streak }]);
+
+    if (next.difficulty) setRoundDifficulty(next.difficulty);
+
+    if (next.phase === "lobby") {
+      // Back in the lobby for a rematch, numbering starts again at zero.
+      roomPreparedRef.current = -1;
+      setFeedback(null);
+      setCurrent(null);
+    } else if (next.phase === "prepare" && next.question && roomPreparedRef.current !== next.questionIndex) {
+      // Load the photo first; the server opens the question once everyone is ready.
+      const questionIndex = next.questionIndex;
+      roomPreparedRef.current = questionIndex;
+      roomPickRef.current = undefined;
+      setFeedback(null);
+      setLocked(false);
+      setQuestionIndex(questionIndex);
+      void loadRoomQuestion(next.question).then(() => sendRoom({ type: "ready", questionIndex }));
+    } else if (next.phase === "results") {
+      const correct = AIRCRAFT_DB.find((a) => a.id === next.correctId);
+      setLocked(true);
+      if (correct && me) {
+        setFeedback({
+          correct: me.lastCorrect,
+          fact: correct.fact || "",
+          correctModel: correct.model,
+          points: me.lastPoints,
+          selectedId: roomPickRef.current,
+        });
+      }
+    }
+  };
+
+  // The server runs the photo lookup and the spec-clue fallback itself, so a
+  // room question arrives as either its photo or a clue over the silhouette.
+  // A player whose copy of the photo will not load can retry while the
+  // room's clock runs on.
+  async function loadRoomQuestion(question: RoomQuestion) {
+    const requestId = ++questionRequestRef.current;
+    const options = question.options.flatMap((id) => AIRCRAFT_DB.find((a) => a.id === id) || []);
+    setImageLoadError("");
+    if (!question.photo) {
+      const drawing = question.silhouette ? classSilhouette(question.silhouette.type, question.silhouette.shape) : null;
+      setCurrent({ correct: null, options, imageUrl: drawing, clue: question.clue, questionKey: Date.now() });
+      setQuestionStatus("ready");
+      return;
+    }
+    setCurrent(null);
+    setQuestionStatus("loading");
+    try {
+      await preloadImage(question.photo);
+      if (requestId !== questionRequestRef.current) return;
+      setCurrent({ correct: null, options, imageUrl: question.photo, questionKey: Date.now() });
+      setQuestionStatus("ready");
+    } catch {
+      if (requestId !== questionRequestRef.current) return;
+      setQuestionStatus("error");
+      setImageLoadError("We couldn't load this aircraft photo. Try again—the room's clock keeps running.");
+    }
+  }
+
+  // The host only chooses the settings; the server plans the round itself
+  // and scores everyone on its own clock.
+  function startRoomRound() {
+    sendRoom({ type: "start", settings: { types: TYPES.filter((t) => enabledTypes[t]), difficulty, count: questionsPerRun } });
+  }
+
+  function exitRoom() {
+    leaveRoom();
+    resetRun();
+    modeRef.current = "classic";
+    setScreen("menu");
   }
 
   function handleImageRenderError() {
@@ -787,6 +2629,8 @@ export default function AirplaneQuizApp() {
         name: profile.username,
         score,
         bestStreak,
+        difficulty: roundDifficulty,
+        lifelines: lifelineUses.map((use) => use.lifeline),
         deviceId: profile.deviceId,
       }),
     });
@@ -800,6 +2644,7 @@ export default function AirplaneQuizApp() {
       if (!response.ok) throw new Error("Score submission failed");
       const data = await response.json();
       const nextStats: PlayerStats = {
+        ...playerStats,
         personalBest: Number(data.personalBest || score),
         bestStreak: Number(data.bestStreak || bestStreak),
         rank: data.rank,
@@ -833,39 +2678,130 @@ export default function AirplaneQuizApp() {
     }
   }
 
-  async function updatePlayerUsername(rawName: string) {
-    const cleanName = normalizeUsername(rawName);
-    if (cleanName.length < 3) {
-      return { ok: false, error: "Use at least 3 letters or numbers." };
-    }
-    if (cleanName === playerProfile.username && playerProfile.usernameChosen) return { ok: true, online: leaderboardOnline };
-
-    const previousName = playerProfile.username;
-    const candidate = { ...playerProfile, username: cleanName };
-    const persistRenamedProfile = () => {
-      const saved = saveAnonymousUsername(cleanName, true);
-      setPlayerProfile(saved);
-      setShowUsernameSetup(false);
-      setLeaderboard((current) => {
-        const renamed = current.map((entry) =>
-          entry.deviceId === saved.deviceId || entry.name === previousName
-            ? { ...entry, name: cleanName, deviceId: saved.deviceId }
-            : entry
-        );
-        localStorage.setItem(LOCAL_LEADERBOARD_KEY, JSON.stringify(renamed));
-        return renamed;
-      });
-      return saved;
-    };
-
+  async function submitDailyResult() {
+    const date = dailyAttemptDate || utcDateKey();
     try {
-      const response = await fetch("/api/scores", {
+      const response = await fetch("/api/daily", {
         method: "POST",
         headers: { "Content-Type": "application/json", Accept: "application/json" },
         body: JSON.stringify({
-          name: candidate.username,
+          action: "finish",
+          name: playerProfile.username,
+          deviceId: playerProfile.deviceId,
+          date,
           score,
           bestStreak,
+        }),
+      });
+      if (!response.ok) throw new Error("Daily result submission failed");
+      const data = await response.json();
+      if (!Array.isArray(data?.leaderboard)) throw new Error("Invalid daily challenge response");
+      setDailyStatus(data);
+    } catch {
+      setDailyStatus((current) => ({
+        date,
+        attempted: true,
+        result: { score, bestStreak },
+        leaderboard: current?.date === date ? current.leaderboard : [],
+        yesterday: current?.date === date ? current.yesterday : [],
+      }));
+    }
+  }
+
+  // Runs are stored against the profile the score submission just saved, so
+  // a challenge link can carry the run for its friend to race.
+  async function uploadRun(run: RunLog) {
+    try {
+      const response = await fetch("/api/runs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json" },
+        body: JSON.stringify({ deviceId: playerProfile.deviceId, run }),
+      });
+      if (!response.ok) throw new Error("Run upload failed");
+      const data = await response.json();
+      if (typeof data?.id === "string" && RUN_ID_PATTERN.test(data.id)) setGhostRunId(data.id);
+    } catch {
+      // The challenge link falls back to a plain score to beat.
+    }
+  }
+
+  async function saveModeScore(rankedMode: Exclude<RankedMode, "classic">) {
+    const previousBest = playerStats.modeBests?.[rankedMode] || 0;
+    const recordBest = (newBest: number) => {
+      const nextStats = { ...playerStats, modeBests: { ...playerStats.modeBests, [rankedMode]: newBest } };
+      setPlayerStats(nextStats);
+      writePlayerStats(nextStats);
+    };
+    try {
+      const response = await fetch("/api/scores", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json" },
+        body: JSON.stringify({
+          mode: rankedMode,
+          name: playerProfile.username,
+          score,
+          bestStreak,
+          difficulty: roundDifficulty,
+          lifelines: lifelineUses.map((use) => use.lifeline),
+          deviceId: playerProfile.deviceId,
+        }),
+      });
+      if (response.status === 409) {
+        setShowUsernameSetup(true);
+        throw new Error("Username is already in use");
+      }
+      if (!response.ok) throw new Error("Score submission failed");
+      const data = await response.json();
+      const newBest = Number(data.personalBest || score);
+      recordBest(newBest);
+      if (data.personalRecord) {
+        setPersonalRecord({ beaten: true, previousBest: Number(data.previousBest || 0), newBest, rank: data.rank, totalPlayers: data.totalPlayers, topPercent: data.topPercent });
+      }
+    } catch {
+      recordBest(Math.max(previousBest, score));
+      if (score > previousBest) setPersonalRecord({ beaten: true, previousBest, newBest: score });
+      setLeaderboardOnline(false);
+    }
+  }
+
+  async function updatePlayerUsername(rawName: string) {
+    const cleanName = normalizeUsername(rawName);
+    if (cleanName.length < 3) {
+      return { ok: false, error: "Use at least 3 letters or numbers." };
+    }
+    if (cleanName === playerProfile.username && playerProfile.usernameChosen) return { ok: true, online: leaderboardOnline };
+
+    const previousName = playerProfile.username;
+    const candidate = { ...playerProfile, username: cleanName };
+    const persistRenamedProfile = () => {
+      const saved = saveAnonymousUsername(cleanName, true);
+      setPlayerProfile(saved);
+      setShowUsernameSetup(false);
+      setLeaderboard((current) => {
+        const renamed = current.map((entry) =>
+          entry.deviceId === saved.deviceId || entry.name === previousName
+            ? { ...entry, name: cleanName, deviceId: saved.deviceId }
+            : entry
+        );
+        localStorage.setItem(LOCAL_LEADERBOARD_KEY, JSON.stringify(renamed));
+        return renamed;
+      });
+      return saved;
+    };
+
+    // Renaming re-submits the latest ranked run so a 409 after a round still
+    // lands that score; unranked rounds only claim the name.
+    const rankedRun = mode === "classic" || mode === "survival" || mode === "timeAttack" || mode === "typing" || mode === "silhouette";
+    try {
+      const response = await fetch("/api/scores", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json" },
+        body: JSON.stringify({
+          mode: rankedRun ? mode : "classic",
+          name: candidate.username,
+          score: rankedRun ? score : 0,
+          bestStreak: rankedRun ? bestStreak : 0,
+          difficulty: rankedRun ? roundDifficulty : "normal",
           deviceId: candidate.deviceId,
         }),
       });
@@ -893,7 +2829,7 @@ export default function AirplaneQuizApp() {
     <div
       className={classNames(
         "min-h-screen w-full bg-slate-950 text-slate-100",
-        screen === "learn"
+        screen === "learn" || screen === "stats"
           ? "overflow-y-auto"
           : screen === "quiz"
             ? "h-dvh overflow-hidden"
@@ -901,6 +2837,7 @@ export default function AirplaneQuizApp() {
       )}
     >
       <TopBar
+        onOpenProfile={() => setShowProfile(true)}
         onOpenLeaderboard={() => {
           setShowLeaderboard(true);
           void refreshGlobalLeaderboard();
@@ -915,10 +2852,39 @@ export default function AirplaneQuizApp() {
         <MenuScreen
           enabledTypes={enabledTypes}
           questionsPerRun={questionsPerRun}
-          questionTimeSec={questionTimeSec}
+          questionTimeSec={QUIZ_DEFAULTS.questionTimeSec}
           aircraftCount={filteredDB.length}
           hasCompletedQuiz={hasCompletedQuiz}
+          dailyPlayed={dailyAttemptDate === utcDateKey()}
+          dailyResult={dailyStatus?.date === dailyAttemptDate ? dailyStatus?.result : null}
           onStart={startQuiz}
+          onDailyChallenge={startDailyChallenge}
+          onSurvival={startSurvival}
+          onTimeAttack={startTimeAttack}
+          onTyping={startTyping}
+          onReverse={startReverse}
+          onSpecClues={startSpecClues}
+          onPractice={startPractice}
+          savedRun={savedRun && {
+            mode: savedRun.mode,
+            question: savedRun.questionIndex + 1,
+            total: savedRun.mode === "survival" ? null : savedRun.quiz?.questionCount || questionsPerRun,
+            score: savedRun.tally.score,
+            forfeit: !savedRun.feedback,
+          }}
+          onResume={() => savedRun && resumeRun(savedRun)}
+          onDiscardResume={discardSavedRun}
+          onSilhouette={startSilhouette}
+          onZoom={startZoom}
+          onParty={() => setShowPartySetup(true)}
+          onCustom={() => setShowCustomQuizzes(true)}
+          onStats={() => setScreen("stats")}
+          campaignTiers={unlockedTierCount(campaignProgress)}
+          onCampaign={() => setShowCampaign(true)}
+          onRoom={() => {
+            setRoomError("");
+            setShowRoomSetup(true);
+          }}
           onLearn={() => {
             if (hasCompletedQuiz) setScreen("learn");
           }}
@@ -926,22 +2892,73 @@ export default function AirplaneQuizApp() {
         />
       )}
 
-      {screen === "quiz" && (
+      {screen === "quiz" && partyStep === "handoff" && (
+        <PartyHandoff
+          player={tallies[turn]}
+          questionIndex={questionIndex}
+          totalQuestions={questionsPerRun}
+          onReady={() => setPartyStep(null)}
+          onQuit={() => setShowQuitConfirm(true)}
+          paused={paused}
+          onResumePaused={() => setPaused(false)}
+        />
+      )}
+
+      {screen === "quiz" && partyStep === "board" && (
+        <PartyScoreboard
+          tallies={tallies}
+          questionIndex={questionIndex}
+          totalQuestions={questionsPerRun}
+          onNext={() => void startNextPartyQuestion()}
+          onQuit={() => setShowQuitConfirm(true)}
+        />
+      )}
+
+      {screen === "quiz" && !partyStep && (
         <QuizScreen
           key={current?.questionKey}
           current={current}
           questionIndex={questionIndex}
-          totalQuestions={questionsPerRun}
-          timeLeft={timeLeft}
-          totalTime={questionTimeSec}
+          totalQuestions={mode === "survival" || timeAttack ? null : mode === "room" ? room?.questionCount : roundLength}
+          lives={mode === "survival" ? SURVIVAL_LIVES - misses : null}
+          playerName={mode === "party" ? tallies[turn]?.name : null}
+          tag={customRound ? `${customRound.name} · unranked` : mode === "practice" ? "Weak spots · unranked" : null}
+          timeLeft={mode === "room" ? roomTimeLeft : timeLeft}
+          totalTime={timeAttack ? TIME_ATTACK_SECONDS : mode === "room" ? ROOM_QUESTION_SECONDS : questionSeconds}
+          lifelines={LIFELINE_MODES.includes(mode) ? {
+            available: (Object.keys(LIFELINES) as Lifeline[]).filter((lifeline) =>
+              !lifelineUses.some((use) => use.lifeline === lifeline) && (lifeline !== "fiftyFifty" || (current?.options.length || 0) > 2)
+            ),
+            hidden: questionLifelines.flatMap((use) => use.hidden || []),
+            hint: current?.correct && questionLifelines.some((use) => use.lifeline === "specHint") ? specHint(current.correct) : null,
+          } : null}
+          onLifeline={applyLifeline}
+          room={mode === "room" ? room : null}
+          ghost={mode === "challenge" && activeGhost ? {
+            name: activeGhost.name,
+            answer: activeGhost.answers[questionIndex],
+            scoreBefore: activeGhost.answers.slice(0, questionIndex).reduce((sum, answer) => sum + answer.points, 0),
+          } : null}
+          roomPick={current?.options.find((a) => a.id === roomPickRef.current)?.model}
+          onRoomStart={startRoomRound}
+          onRoomLobby={() => sendRoom({ type: "lobby" })}
+          onRoomExit={exitRoom}
           onAnswer={handleAnswer}
+          typing={mode === "typing"}
+          reverse={mode === "reverse"}
+          zoom={mode === "zoom"}
+          onTypedAnswer={handleTypedAnswer}
           onNext={handleNext}
           locked={locked}
           feedback={feedback}
           onImageError={handleImageRenderError}
-          loading={questionStatus !== "ready"}
+          loading={questionStatus !== "ready" || (mode === "room" && room?.phase === "prepare")}
           loadError={questionStatus === "error" ? imageLoadError : ""}
           onRetry={() => {
+            if (mode === "room") {
+              if (room?.question) void loadRoomQuestion(room.question);
+              return;
+            }
             setLocked(false);
             nextQuestion();
           }}
@@ -949,17 +2966,40 @@ export default function AirplaneQuizApp() {
         />
       )}
 
-      {screen === "result" && (
+      {screen === "result" && mode === "party" && (
+        <PartyPodium
+          tallies={tallies}
+          onPlayAgain={startSameMode}
+          onBackToMenu={() => setScreen("menu")}
+        />
+      )}
+
+      {screen === "result" && mode !== "party" && (
         <ResultScreen
+          mode={mode}
+          difficulty={roundDifficulty}
           score={score}
           bestStreak={bestStreak}
+          questionsAnswered={answered}
+          misses={misses}
+          daily={dailyStatus}
+          challenge={activeChallenge}
+          customQuiz={customRound}
+          campaign={mode === "campaign" && activeTier ? { tier: activeTier, next: CAMPAIGN_TIERS[CAMPAIGN_TIERS.indexOf(activeTier) + 1] || null } : null}
+          playerName={playerProfile.username}
+          challengeLink={roundSeed ? buildChallengeLink({ ...roundSeed, name: playerProfile.username, score, ...(ghostRunId ? { ghost: ghostRunId } : {}) }) : null}
+          ghostShared={Boolean(ghostRunId)}
+          review={review}
+          onRaceGhost={lastRun ? () => void raceOwnGhost() : null}
           personalRecord={personalRecord}
-          onPlayAgain={startQuiz}
+          onPlayAgain={startSameMode}
           onBackToMenu={() => setScreen("menu")}
           onOpenLeaderboard={() => setShowLeaderboard(true)}
         />
       )}
 
+      {screen === "stats" && <StatsScreen onBackToMenu={() => setScreen("menu")} />}
+
       {screen === "learn" && (
         <LearnModeScreen
           db={AIRCRAFT_DB}
@@ -984,6 +3024,11 @@ export default function AirplaneQuizApp() {
         <SettingsModal
           enabledTypes={enabledTypes}
           setEnabledTypes={setEnabledTypes}
+          difficulty={difficulty}
+          onDifficultyChange={(next: Difficulty) => {
+            setDifficulty(next);
+            writeDifficulty(next);
+          }}
           username={playerProfile.username}
           deviceId={playerProfile.deviceId}
           onSaveUsername={updatePlayerUsername}
@@ -991,6 +3036,27 @@ export default function AirplaneQuizApp() {
         />
       )}
 
+      {showProfile && (
+        <ProfileModal
+          username={playerProfile.username}
+          playerStats={playerStats}
+          achievements={achievements}
+          onOpenStats={() => {
+            setShowProfile(false);
+            setScreen("stats");
+          }}
+          onClose={() => setShowProfile(false)}
+        />
+      )}
+
+      {achievementToasts.length > 0 && (
+        <AchievementToast
+          key={achievementToasts[0]}
+          id={achievementToasts[0]}
+          onDone={() => setAchievementToasts((queue) => queue.slice(1))}
+        />
+      )}
+
       {showUsernameSetup && !showSettings && (
         <UsernameSetupModal
           deviceId={playerProfile.deviceId}
@@ -999,11 +3065,74 @@ export default function AirplaneQuizApp() {
         />
       )}
 
+      {showRoomSetup && (
+        <RoomSetupModal
+          error={roomError}
+          onCreate={() => connectRoom(createRoomCode(), "create")}
+          onJoin={(code: string) => connectRoom(code, "join")}
+          onClose={() => {
+            if (modeRef.current !== "room") leaveRoom();
+            setShowRoomSetup(false);
+          }}
+        />
+      )}
+
+      {showPartySetup && (
+        <PartySetupModal
+          onStart={(players: string[]) => void startParty(players)}
+          onClose={() => setShowPartySetup(false)}
+        />
+      )}
+
+      {showCampaign && (
+        <CampaignModal
+          progress={campaignProgress}
+          onPlay={(tier: CampaignTier) => void startCampaignTier(tier)}
+          onClose={() => setShowCampaign(false)}
+        />
+      )}
+
+      {showCustomQuizzes && (
+        <CustomQuizModal
+          quizzes={customQuizzes}
+          onSave={saveCustomQuiz}
+          onDelete={deleteCustomQuiz}
+          onPlay={(quiz: CustomQuiz) => void startCustomQuiz(quiz)}
+          onClose={() => setShowCustomQuizzes(false)}
+        />
+      )}
+
+      {pendingQuiz && !pendingChallenge && screen === "menu" && (
+        <CustomQuizInviteModal
+          quiz={pendingQuiz}
+          onDecline={() => setPendingQuiz(null)}
+          onSave={() => {
+            saveCustomQuiz(pendingQuiz);
+            setPendingQuiz(null);
+          }}
+          onPlay={() => {
+            saveCustomQuiz(pendingQuiz);
+            void startCustomQuiz(pendingQuiz);
+          }}
+        />
+      )}
+
+      {pendingChallenge && screen === "menu" && (
+        <ChallengeInviteModal
+          challenge={pendingChallenge}
+          onDecline={() => setPendingChallenge(null)}
+          onAccept={() => void startChallenge(pendingChallenge)}
+        />
+      )}
+
       {showQuitConfirm && (
         <ConfirmQuitModal
+          detail={mode === "daily" ? "Today's daily challenge attempt will be used up." : undefined}
           onCancel={() => setShowQuitConfirm(false)}
           onConfirm={() => {
             setShowQuitConfirm(false);
+            if (mode === "room") leaveRoom();
+            clearRunSnapshot();
             resetRun();
             setCurrent(null);
             setScreen("menu");
@@ -1023,12 +3152,14 @@ function TopBar({
   streak,
   playerStats,
   screen,
+  onOpenProfile,
   onOpenLeaderboard,
 }: {
   score: number;
   streak: number;
   playerStats: PlayerStats;
   screen: string;
+  onOpenProfile: () => void;
   onOpenLeaderboard: () => void;
 }) {
   const inQuiz = screen === "quiz";
@@ -1068,6 +3199,15 @@ function TopBar({
             </svg>
             <span className="font-black text-white">{displayStreak}</span>
           </div>
+          <button
+            onClick={onOpenProfile}
+            className="inline-flex items-center gap-2 rounded-xl border border-slate-700/90 bg-slate-900/70 px-3 py-2 text-xs font-black text-white shadow-lg shadow-black/20 transition hover:border-sky-500/60 hover:bg-slate-900 sm:px-4"
+          >
+            <svg aria-hidden="true" viewBox="0 0 24 24" className="h-4 w-4" fill="currentColor">
+              <path d="M12 12a4.5 4.5 0 1 0 0-9 4.5 4.5 0 0 0 0 9Zm0 2c-4.4 0-8 2.2-8 5v1a1 1 0 0 0 1 1h14a1 1 0 0 0 1-1v-1c0-2.8-3.6-5-8-5Z" />
+            </svg>
+            <span className="hidden sm:inline">Profile</span>
+          </button>
           <button
             onClick={onOpenLeaderboard}
             className="inline-flex items-center gap-2 rounded-xl border border-slate-700/90 bg-slate-900/70 px-3 py-2 text-xs font-black text-white shadow-lg shadow-black/20 transition hover:border-sky-500/60 hover:bg-slate-900 sm:px-4"
@@ -1186,13 +3326,56 @@ function ChecklistItem({
   );
 }
 
+function ModeButton({
+  title,
+  description,
+  disabled,
+  onClick,
+}: {
+  title: string;
+  description: string;
+  disabled?: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className="rounded-xl border border-sky-900/70 bg-slate-950/60 px-3 py-2 text-left transition hover:border-blue-500/60 hover:bg-slate-900 disabled:cursor-not-allowed disabled:opacity-50 sm:px-4 sm:py-2.5"
+    >
+      <div className="text-sm font-black text-white">{title}</div>
+      <div className="mt-0.5 text-xs font-semibold text-slate-400">{description}</div>
+    </button>
+  );
+}
+
 function MenuScreen({
   enabledTypes,
   questionsPerRun,
   questionTimeSec,
   aircraftCount,
   hasCompletedQuiz,
+  dailyPlayed,
+  dailyResult,
   onStart,
+  onDailyChallenge,
+  onSurvival,
+  onTimeAttack,
+  onTyping,
+  onReverse,
+  onSpecClues,
+  onPractice,
+  savedRun,
+  onResume,
+  onDiscardResume,
+  onSilhouette,
+  onZoom,
+  onParty,
+  onRoom,
+  onCustom,
+  onStats,
+  campaignTiers,
+  onCampaign,
   onLearn,
   onOpenSettings,
 }: any) {
@@ -1265,8 +3448,28 @@ function MenuScreen({
                 </div>
 
                 <div className="mt-3 border-t border-sky-900/50 pt-3 sm:mt-5 sm:pt-5 xl:mt-8 xl:pt-8">
-                  <div className="grid grid-cols-1 gap-2 min-[520px]:grid-cols-[1fr_1fr_auto] sm:gap-3 xl:gap-4">
+                  {savedRun && (
+                    <div className="mb-3 flex flex-wrap items-center justify-between gap-3 rounded-xl border border-emerald-500/40 bg-emerald-500/10 px-4 py-3">
+                      <div className="min-w-0 text-sm">
+                        <p className="font-black text-white">Unfinished flight</p>
+                        <p className="text-slate-300">
+                          {MODE_LABELS[savedRun.mode as QuizMode]} · question {savedRun.question}{savedRun.total ? ` of ${savedRun.total}` : ""} · {savedRun.score} pts
+                        </p>
+                        {savedRun.forfeit && <p className="text-xs text-slate-400">The question you left unanswered counts as a miss.</p>}
+                      </div>
+                      <div className="flex gap-2">
+                        <button onClick={onDiscardResume} className="rounded-lg border border-slate-700 px-3 py-2 text-sm font-semibold text-slate-300 hover:bg-slate-800">
+                          Discard
+                        </button>
+                        <button onClick={onResume} className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-black text-slate-950 hover:bg-emerald-400">
+                          Resume flight
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-1 gap-2 min-[520px]:grid-cols-[1fr_1fr_1fr_auto] sm:gap-3 xl:gap-4">
                     <button
+                      data-nav-start=""
                       onClick={onStart}
                       disabled={!canStart}
                       className="inline-flex min-h-12 items-center justify-center gap-2 rounded-xl bg-blue-600 px-3 py-3 text-sm font-black text-white shadow-xl shadow-blue-950/40 transition hover:bg-blue-500 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400 sm:min-h-14 sm:text-base xl:min-h-[4.4rem] xl:gap-3 xl:px-7 xl:text-lg"
@@ -1276,6 +3479,18 @@ function MenuScreen({
                       </svg>
                       Start Quiz
                     </button>
+                    <button
+                      onClick={onDailyChallenge}
+                      disabled={dailyPlayed}
+                      title={dailyPlayed ? "Come back after 00:00 UTC for a new challenge" : "Same 10 aircraft for everyone today"}
+                      className="inline-flex min-h-12 items-center justify-center gap-2 rounded-xl border border-amber-400/50 bg-amber-400/10 px-3 py-3 text-sm font-black text-amber-100 transition hover:border-amber-300 hover:bg-amber-400/20 disabled:cursor-not-allowed disabled:border-slate-700/80 disabled:bg-slate-950/50 disabled:text-slate-500 sm:min-h-14 sm:text-base xl:min-h-[4.4rem] xl:gap-3 xl:px-7 xl:text-lg"
+                    >
+                      <svg aria-hidden="true" viewBox="0 0 24 24" className="hidden h-5 w-5 sm:block xl:h-6 xl:w-6" fill="none" stroke="currentColor" strokeWidth="2.2" strokeLinecap="round" strokeLinejoin="round">
+                        <path d="M8 2v4M16 2v4" />
+                        <path d="M5 4h14a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2ZM3 10h18" />
+                      </svg>
+                      {dailyPlayed ? "Played today" : <><span className="hidden sm:inline">Daily Challenge</span><span className="sm:hidden">Daily</span></>}
+                    </button>
                     <button
                       onClick={() => {
                         if (hasCompletedQuiz) {
@@ -1333,6 +3548,84 @@ function MenuScreen({
                     </button>
                   </div>
 
+                  <div className="mt-2 grid grid-cols-2 gap-2 sm:mt-3 sm:gap-3 md:grid-cols-4">
+                    <ModeButton
+                      title="Career"
+                      description={`Tier ${campaignTiers} of ${CAMPAIGN_TIERS.length} unlocked`}
+                      onClick={onCampaign}
+                    />
+                    <ModeButton
+                      title="Practice weak spots"
+                      description="Spaced repetition · practice"
+                      disabled={!canStart}
+                      onClick={onPractice}
+                    />
+                    <ModeButton
+                      title="Survival"
+                      description={`Endless · ${SURVIVAL_LIVES} lives`}
+                      disabled={!canStart}
+                      onClick={onSurvival}
+                    />
+                    <ModeButton
+                      title="Time Attack"
+                      description={`${TIME_ATTACK_SECONDS}s · as many as you can`}
+                      disabled={!canStart}
+                      onClick={onTimeAttack}
+                    />
+                    <ModeButton
+                      title="Expert typing"
+                      description="Type the model · no choices"
+                      disabled={!canStart}
+                      onClick={onTyping}
+                    />
+                    <ModeButton
+                      title="Silhouettes"
+                      description={IMAGE_SOURCE === "internal" ? "Needs online photos" : "Shapes only · ranked"}
+                      disabled={!canStart || IMAGE_SOURCE === "internal"}
+                      onClick={onSilhouette}
+                    />
+                    <ModeButton
+                      title="Zoom reveal"
+                      description={IMAGE_SOURCE === "internal" ? "Needs online photos" : "Details first · practice"}
+                      disabled={!canStart || IMAGE_SOURCE === "internal"}
+                      onClick={onZoom}
+                    />
+                    <ModeButton
+                      title="Pass and play"
+                      description={`${PARTY_MIN_PLAYERS}–${PARTY_MAX_PLAYERS} players · one device`}
+                      disabled={!canStart}
+                      onClick={onParty}
+                    />
+                    <ModeButton
+                      title="Multiplayer room"
+                      description={IMAGE_SOURCE === "internal" ? "Needs online photos" : "Host or join with a code"}
+                      disabled={!canStart || IMAGE_SOURCE === "internal"}
+                      onClick={onRoom}
+                    />
+                    <ModeButton
+                      title="Name to photo"
+                      description={IMAGE_SOURCE === "internal" ? "Needs online photos" : "Pick the matching photo · practice"}
+                      disabled={!canStart || IMAGE_SOURCE === "internal"}
+                      onClick={onReverse}
+                    />
+                    <ModeButton
+                      title="Spec clues"
+                      description="No photos · practice"
+                      disabled={!canStart}
+                      onClick={onSpecClues}
+                    />
+                    <ModeButton
+                      title="Custom quiz"
+                      description="Build your own · unranked"
+                      onClick={onCustom}
+                    />
+                    <ModeButton
+                      title="Your stats"
+                      description="Accuracy, trends, misses"
+                      onClick={onStats}
+                    />
+                  </div>
+
                   <div className="mt-3 hidden gap-4 border-t border-sky-900/40 pt-4 text-sm font-bold text-slate-300 md:grid md:grid-cols-3 xl:mt-7 xl:pt-6">
                     <div className="flex items-center gap-3">
                       <span className="text-blue-400">Quick rounds</span>
@@ -1350,6 +3643,14 @@ function MenuScreen({
                       Select at least four aircraft in Settings to start a quiz.
                     </p>
                   )}
+                  {dailyPlayed && (
+                    <p className="mt-4 text-sm text-slate-400">
+                      {dailyResult
+                        ? <>Today's daily: <span className="font-bold text-amber-200">{dailyResult.score} pts</span>{dailyResult.rank ? <> · #{dailyResult.rank} of {dailyResult.totalPlayers}</> : null}. </>
+                        : "You've used today's daily attempt. "}
+                      A new challenge starts at 00:00 UTC.
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -1438,7 +3739,8 @@ function MenuScreen({
                 </div>
                 <p className="mt-2 text-sm leading-6 text-slate-300">
                   Start with wing shape, engine count, and tail layout. Model
-                  details get easier once the big silhouette is familiar.
+                  details get easier once the big silhouette is familiar—drill
+                  it in Silhouettes.
                 </p>
               </div>
             </div>
@@ -1484,9 +3786,24 @@ function QuizScreen({
   current,
   questionIndex,
   totalQuestions,
+  lives,
+  playerName,
+  tag,
   timeLeft,
   totalTime,
+  room,
+  ghost,
+  lifelines,
+  onLifeline,
+  roomPick,
+  onRoomStart,
+  onRoomLobby,
+  onRoomExit,
   onAnswer,
+  typing,
+  reverse,
+  zoom,
+  onTypedAnswer,
   onNext,
   onQuit,
   locked,
@@ -1495,16 +3812,38 @@ function QuizScreen({
   loading,
   loadError,
   onRetry,
+  paused,
+  onResumePaused,
 }: any) {
   const pct = Math.max(0, Math.min(100, Math.round((timeLeft / totalTime) * 100)));
 
+  if (room && (room.phase === "lobby" || room.phase === "results" || room.phase === "finished")) {
+    return <RoomPanel room={room} current={current} feedback={feedback} onStart={onRoomStart} onLobby={onRoomLobby} onQuit={onQuit} onExit={onRoomExit} />;
+  }
+
   return (
-    <main className="mx-auto flex h-[calc(100dvh-3.5rem)] w-full max-w-6xl flex-col overflow-hidden px-3 py-2 sm:px-5 sm:py-3 lg:px-8 lg:py-2">
+    <main className="relative mx-auto flex h-[calc(100dvh-3.5rem)] w-full max-w-6xl flex-col overflow-hidden px-3 py-2 sm:px-5 sm:py-3 lg:px-8 lg:py-2">
+      {paused && (
+        <div role="dialog" aria-modal="true" className="absolute inset-0 z-10 flex items-center justify-center bg-slate-950/60 p-4 backdrop-blur-2xl">
+          <div className="max-w-sm rounded-2xl border border-slate-700 bg-slate-900/90 p-6 text-center shadow-2xl shadow-black/40">
+            <h2 className="text-xl font-bold">Paused</h2>
+            <p className="mt-2 text-sm text-slate-300">The clock stopped while you were away, with {Math.ceil(timeLeft)}s left on this question.</p>
+            <button onClick={onResumePaused} className="mt-4 rounded-xl bg-sky-500 px-6 py-3 font-semibold text-slate-950 hover:bg-sky-400">
+              Resume
+            </button>
+          </div>
+        </div>
+      )}
       {/* Progress */}
       <div className="mb-2 shrink-0 rounded-xl border border-sky-900/70 bg-slate-900/55 p-2.5 sm:mb-3 sm:rounded-2xl sm:p-3 lg:grid lg:grid-cols-[10rem_1fr_9rem] lg:items-center lg:gap-6 lg:px-5 lg:py-2">
         <div className="mb-2 flex items-center justify-between gap-3 text-xs font-semibold text-slate-300 lg:mb-0">
-          <span className="sm:text-sm">
-            <span className="hidden text-slate-500 sm:inline">Question </span>{questionIndex + 1} <span className="text-slate-500">/ {totalQuestions}</span>
+          <span className="flex items-center gap-3 sm:text-sm">
+            <span>
+              <span className="hidden text-slate-500 sm:inline">Question </span>{questionIndex + 1}{totalQuestions ? <span className="text-slate-500"> / {totalQuestions}</span> : null}
+            </span>
+            {lives !== null && <LivesIndicator lives={lives} />}
+            {playerName && <span className="max-w-[8rem] truncate font-black text-sky-300">{playerName}</span>}
+            {tag && <span className="max-w-[12rem] truncate text-slate-400">{tag}</span>}
           </span>
           <div className="flex items-center gap-2 lg:hidden">
             <span className="font-bold text-white">{Math.ceil(timeLeft)}s</span>
@@ -1546,76 +3885,124 @@ function QuizScreen({
       </div>
 
       {/* Photo */}
-      <div className="relative min-h-[7rem] w-full flex-1 overflow-hidden rounded-2xl border border-sky-900/70 bg-slate-900 shadow-2xl shadow-black/30 lg:rounded-3xl">
-        {current?.imageUrl && !loading ? (
-          <>
-            <img
-              src={current.imageUrl}
-              alt=""
-              aria-hidden="true"
-              className="absolute inset-0 h-full w-full scale-[1.15] object-cover opacity-90 blur-lg"
-            />
-            <img
-              src={current.imageUrl}
-              alt={current.correct?.model}
+      {reverse ? (
+        <PhotoChoiceGrid
+          current={current}
+          locked={locked}
+          loading={loading}
+          loadError={loadError}
+          feedback={feedback}
+          onAnswer={onAnswer}
+          onImageError={onImageError}
+          onRetry={onRetry}
+        />
+      ) : current?.clue && !loading ? (
+        <ClueCard clue={current.clue} drawing={current.imageUrl} />
+      ) : (
+        <div className="relative min-h-[7rem] w-full flex-1 overflow-hidden rounded-2xl border border-sky-900/70 bg-slate-900 shadow-2xl shadow-black/30 lg:rounded-3xl">
+          {current?.imageUrl && !loading && zoom && current.focus ? (
+            <ZoomPhoto
+              url={current.imageUrl}
+              focus={current.focus}
+              stage={locked ? ZOOM_REVEAL_SCHEDULE.length - 1 : zoomStage(timeLeft, totalTime)}
               onError={onImageError}
-              className={classNames(
-                "aircraft-image-foreground relative z-[1] h-full w-full object-contain transition-opacity duration-500",
-                locked ? "opacity-80" : "opacity-100"
-              )}
             />
-          </>
-        ) : loadError ? (
-          <div className="flex h-full w-full flex-col items-center justify-center gap-2 bg-slate-900 text-center">
-            <span className="text-sm text-slate-400">Photo unavailable</span>
-            <button onClick={onRetry} className="text-sm text-sky-400 hover:text-sky-300">Retry</button>
-          </div>
-        ) : (
-          <div className="aircraft-image-skeleton h-full w-full" aria-label="Loading aircraft image" />
-        )}
-        <div className="pointer-events-none absolute inset-0 bg-[radial-gradient(transparent,rgba(2,6,23,0.6))]" />
-      </div>
+          ) : current?.imageUrl && !loading ? (
+            <>
+              <img
+                src={current.imageUrl}
+                alt=""
+                aria-hidden="true"
+                className="absolute inset-0 h-full w-full scale-[1.15] object-cover opacity-90 blur-lg"
+              />
+              <img
+                src={current.imageUrl}
+                alt="Aircraft to identify"
+                onError={onImageError}
+                className={classNames(
+                  "aircraft-image-foreground relative z-[1] h-full w-full object-contain transition-opacity duration-500",
+                  locked ? "opacity-80" : "opacity-100"
+                )}
+              />
+            </>
+          ) : loadError ? (
+            <div className="flex h-full w-full flex-col items-center justify-center gap-2 bg-slate-900 text-center">
+              <span className="text-sm text-slate-400">Photo unavailable</span>
+              <button onClick={onRetry} className="text-sm text-sky-400 hover:text-sky-300">Retry</button>
+            </div>
+          ) : (
+            <div className="aircraft-image-skeleton h-full w-full" aria-label="Loading aircraft image" />
+          )}
+          <div className="pointer-events-none absolute inset-0 bg-[radial-gradient(transparent,rgba(2,6,23,0.6))]" />
+        </div>
+      )}
+
+      {lifelines && <LifelineBar lifelines={lifelines} disabled={locked || loading} onUse={onLifeline} />}
 
       {/* Options */}
-      <div className="mt-2 grid shrink-0 grid-cols-1 gap-1.5 sm:mt-3 sm:gap-2 lg:mt-2 lg:gap-1.5">
-        {(current?.options || []).map((a: Aircraft, index: number) => {
-          const isCorrectAnswer = locked && current?.correct && a.id === current.correct.id;
-          const isWrongSelection = locked && feedback?.selectedId === a.id && !isCorrectAnswer;
-          return (
-          <button
-            key={a.id}
-            disabled={locked || loading}
-            onClick={() => onAnswer(a)}
-            className={classNames(
-              "group flex min-h-10 w-full items-center gap-3 rounded-xl border px-3 py-2 text-left text-sm font-bold transition sm:min-h-12 sm:rounded-2xl sm:px-5 sm:py-2.5 sm:text-base lg:min-h-10 lg:py-1.5",
-              "border-slate-700/80 bg-slate-900/80 hover:border-sky-500/60 hover:bg-slate-800/90 disabled:cursor-default",
-              isCorrectAnswer && "border-emerald-500 bg-emerald-500/10 text-emerald-50",
-              isWrongSelection && "border-rose-500 bg-rose-500/10 text-rose-50"
-            )}
-          >
-            <span className={classNames(
-              "flex h-7 w-7 shrink-0 items-center justify-center rounded-full border border-sky-500/80 text-xs font-black text-sky-400 sm:h-9 sm:w-9 sm:text-sm",
-              isCorrectAnswer && "border-emerald-400 bg-emerald-500 text-white",
-              isWrongSelection && "border-rose-400 bg-rose-500 text-white"
-            )}>{String.fromCharCode(65 + index)}</span>
-            <span className="min-w-0 flex-1">{a.model}</span>
-            {isCorrectAnswer && <span className="text-lg text-emerald-400" aria-label="Correct">✓</span>}
-            {isWrongSelection && <span className="text-lg text-rose-400" aria-label="Incorrect">×</span>}
-          </button>
-        )})}
-      </div>
+      {reverse ? null : typing ? (
+        <TypedAnswerForm disabled={locked || loading} onSubmit={onTypedAnswer} />
+      ) : (
+        <div className="mt-2 grid shrink-0 grid-cols-1 gap-1.5 sm:mt-3 sm:gap-2 lg:mt-2 lg:gap-1.5">
+          {(current?.options || []).map((a: Aircraft, index: number) => {
+            const isCorrectAnswer = locked && current?.correct && a.id === current.correct.id;
+            const isWrongSelection = locked && feedback?.selectedId === a.id && !isCorrectAnswer;
+            const isGhostPick = locked && ghost?.answer?.selectedId === a.id;
+            const isHidden = lifelines?.hidden.includes(a.id);
+            return (
+            <button
+              key={a.id}
+              data-nav-start={index === 0 ? "" : undefined}
+              disabled={locked || loading || isHidden}
+              onClick={() => onAnswer(a)}
+              className={classNames(
+                "group flex min-h-10 w-full items-center gap-3 rounded-xl border px-3 py-2 text-left text-sm font-bold transition sm:min-h-12 sm:rounded-2xl sm:px-5 sm:py-2.5 sm:text-base lg:min-h-10 lg:py-1.5",
+                "border-slate-700/80 bg-slate-900/80 hover:border-sky-500/60 hover:bg-slate-800/90 disabled:cursor-default",
+                isHidden && "line-through opacity-30",
+                isCorrectAnswer && "border-emerald-500 bg-emerald-500/10 text-emerald-50",
+                isWrongSelection && "border-rose-500 bg-rose-500/10 text-rose-50"
+              )}
+            >
+              <span className={classNames(
+                "flex h-7 w-7 shrink-0 items-center justify-center rounded-full border border-sky-500/80 text-xs font-black text-sky-400 sm:h-9 sm:w-9 sm:text-sm",
+                isCorrectAnswer && "border-emerald-400 bg-emerald-500 text-white",
+                isWrongSelection && "border-rose-400 bg-rose-500 text-white"
+              )}>{String.fromCharCode(65 + index)}</span>
+              <span className="min-w-0 flex-1">{a.model}</span>
+              {!locked && !isHidden && (
+                <kbd className="hidden rounded border border-slate-700 px-1.5 text-[11px] font-bold text-slate-500 sm:inline" aria-hidden="true">{index + 1}</kbd>
+              )}
+              {isGhostPick && <span className="max-w-[7rem] truncate text-[11px] font-black uppercase tracking-[0.12em] text-violet-300">{ghost.name}</span>}
+              {isCorrectAnswer && <span className="text-lg text-emerald-400" aria-label="Correct">✓</span>}
+              {isWrongSelection && <span className="text-lg text-rose-400" aria-label="Incorrect">×</span>}
+            </button>
+          )})}
+        </div>
+      )}
 
       {/* Feedback */}
+      {room && (locked || room.phase === "prepare") && <RoomWaiting room={room} pick={roomPick} />}
+      {ghost?.answer && !loading && <GhostTrack ghost={ghost} elapsedMs={(totalTime - timeLeft) * 1000} revealed={locked} />}
+
       {feedback && !feedback.correct && (
         <div
           className={classNames(
             "mt-2 shrink-0 rounded-2xl border p-3 sm:mt-3 sm:p-4 lg:mt-2 lg:p-3",
-            "border-rose-500/60 bg-rose-950/30 shadow-lg shadow-rose-950/20"
+            feedback.partial
+              ? "border-amber-400/60 bg-amber-950/30 shadow-lg shadow-amber-950/20"
+              : "border-rose-500/60 bg-rose-950/30 shadow-lg shadow-rose-950/20"
           )}
         >
           <div className="flex items-center justify-between gap-4">
-            <div className="min-w-0">
-              <div className="font-black text-rose-400">Incorrect</div>
+            {current?.revealUrl && <PhotoReveal url={current.revealUrl} />}
+            <div className="min-w-0 flex-1">
+              <div className={classNames("font-black", feedback.partial ? "text-amber-300" : "text-rose-400")}>
+                {feedback.partial ? "Right family" : feedback.forfeited === "reload" ? "Forfeited after reload" : feedback.forfeited === "hidden" ? "Forfeited: you left the tab" : "Incorrect"}
+                {feedback.partial && <span className="ml-2 text-sm font-semibold text-slate-300">{"+" + feedback.points + " pts"}</span>}
+              </div>
+              {feedback.typedAnswer && (
+                <div className="mt-1 truncate text-xs text-slate-400">You typed: {feedback.typedAnswer}</div>
+              )}
               <div className="mt-1 text-sm text-slate-200">
                 Answer: <span className="font-bold text-sky-400">{feedback.correctModel}</span>
               </div>
@@ -1634,8 +4021,9 @@ function QuizScreen({
       )}
 
       {feedback && feedback.correct && (
-        <div className="mt-2 flex shrink-0 items-center justify-between rounded-2xl border border-emerald-500/50 bg-emerald-500/10 p-3 sm:mt-3 sm:p-4 lg:mt-2 lg:p-3">
-          <div className="text-sm font-semibold">
+        <div className="mt-2 flex shrink-0 items-center justify-between gap-4 rounded-2xl border border-emerald-500/50 bg-emerald-500/10 p-3 sm:mt-3 sm:p-4 lg:mt-2 lg:p-3">
+          {current?.revealUrl && <PhotoReveal url={current.revealUrl} />}
+          <div className="flex-1 text-sm font-semibold">
             Correct!
             <span className="ml-2 text-slate-300">
               {"+" + feedback.points + " pts"}
@@ -1654,47 +4042,781 @@ function QuizScreen({
   );
 }
 
-function ResultScreen({ score, bestStreak, personalRecord, onPlayAgain, onBackToMenu, onOpenLeaderboard }: any) {
+// The focus point starts centred in the tightest crop and drifts back to its
+// place in the photo as the zoom widens. No blurred backdrop is drawn, since
+// it would show the whole frame.
+function ZoomPhoto({ url, focus, stage, onError }: { url: string; focus: ZoomFocus; stage: number; onError: () => void }) {
+  const boxRef = useRef<HTMLDivElement>(null);
+  const [box, setBox] = useState({ width: 0, height: 0 });
+  const [natural, setNatural] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = boxRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setBox({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const { scale, bonus } = ZOOM_REVEAL_SCHEDULE[stage];
+  // Locate the focus point inside the letterboxed object-contain image.
+  const fit = natural.width && box.width ? Math.min(box.width / natural.width, box.height / natural.height) : 0;
+  const originX = (box.width - natural.width * fit) / 2 + focus.x * natural.width * fit;
+  const originY = (box.height - natural.height * fit) / 2 + focus.y * natural.height * fit;
+  const pull = (scale - 1) / (ZOOM_REVEAL_SCHEDULE[0].scale - 1);
+
   return (
-    <main className="mx-auto flex min-h-[calc(100dvh-4rem)] max-w-3xl items-center justify-center px-4 py-4">
-      <div className="w-full rounded-2xl border border-slate-800 bg-slate-900/40 p-6 text-center sm:p-8">
-        <h2 className="text-2xl font-bold sm:text-3xl">Flight complete</h2>
-        <p className="mt-2 text-slate-300">Final score</p>
-        <div className="mt-2 text-5xl font-extrabold text-sky-400 sm:text-6xl">{score}</div>
-        <div className="mt-3 text-sm text-slate-300">Best streak: {bestStreak} in a row</div>
-        {personalRecord?.beaten && (
-          <div className="record-celebration relative mt-6 overflow-hidden rounded-2xl border border-amber-300/70 bg-gradient-to-br from-amber-300/15 via-sky-500/10 to-violet-500/15 p-5 text-left shadow-[0_0_45px_rgba(56,189,248,0.2)]">
-            <div className="record-shimmer" />
-            <span className="record-particle left-[12%] top-3" /><span className="record-particle left-[72%] top-5" /><span className="record-particle left-[88%] top-16" />
-            <div className="relative"><p className="text-xs font-black uppercase tracking-[0.18em] text-amber-200">Personal record</p><p className="mt-1 text-xl font-black text-white">{personalRecord.previousBest === 0 ? "Your first personal best." : "You just beat your best."}</p><p className="mt-2 text-sm text-slate-300">{personalRecord.previousBest === 0 ? <><span className="font-black text-sky-300">{personalRecord.newBest}</span> points</> : <>{personalRecord.previousBest} <span className="text-slate-500">→</span> <span className="font-black text-sky-300">{personalRecord.newBest}</span></>}</p>{personalRecord.rank && personalRecord.totalPlayers ? <p className="mt-2 text-sm font-semibold text-emerald-300">#{personalRecord.rank} of {personalRecord.totalPlayers} · Top {personalRecord.topPercent}% worldwide</p> : <p className="mt-2 text-xs text-slate-400">Your global placement will update when you’re online.</p>}</div>
-            <button onClick={onOpenLeaderboard} className="relative mt-4 rounded-lg border border-sky-400/40 px-3 py-2 text-xs font-bold text-sky-200 hover:bg-sky-400/10">View leaderboard</button>
-          </div>
-        )}
-        <div className="mt-6 flex flex-wrap items-center justify-center gap-3">
-          <button
-            onClick={onPlayAgain}
-            className="rounded-xl bg-sky-500 px-6 py-3 font-semibold text-slate-950 hover:bg-sky-400"
-          >
-            Play again
-          </button>
-          <button
-            onClick={onBackToMenu}
-            className="rounded-xl border border-slate-800 bg-slate-900 px-6 py-3 font-semibold hover:border-slate-700"
-          >
-            Back to menu
-          </button>
+    <div ref={boxRef} className="absolute inset-0 overflow-hidden bg-slate-950">
+      <img
+        src={url}
+        alt="Aircraft detail to identify"
+        onLoad={(event) => setNatural({ width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight })}
+        onError={onError}
+        className={classNames("h-full w-full object-contain", fit ? "transition-transform duration-700 ease-out" : "invisible")}
+        style={{
+          transformOrigin: `${originX}px ${originY}px`,
+          transform: `translate(${(box.width / 2 - originX) * pull}px, ${(box.height / 2 - originY) * pull}px) scale(${scale})`,
+        }}
+      />
+      {bonus > 0 && (
+        <div className="absolute left-3 top-3 z-[2] rounded-full bg-slate-950/80 px-3 py-1 text-xs font-black text-sky-300">
+          +{bonus} reveal bonus
         </div>
-      </div>
-    </main>
+      )}
+    </div>
   );
 }
 
-function UsernameEditor({ deviceId, initialName, onSave, compact = false, alwaysEditing = false }: any) {
-  const [draftName, setDraftName] = useState(initialName || "");
-  const [editing, setEditing] = useState(alwaysEditing);
-  const [availability, setAvailability] = useState<"idle" | "checking" | "available" | "taken" | "invalid" | "offline">("idle");
-  const [message, setMessage] = useState("");
-  const [saving, setSaving] = useState(false);
+// Silhouette rounds reveal the original photo once the question is answered.
+function PhotoReveal({ url }: { url: string }) {
+  return (
+    <img
+      src={url}
+      alt="Revealed aircraft photo"
+      className="h-14 w-20 shrink-0 rounded-lg border border-slate-700 object-cover sm:h-16 sm:w-24"
+    />
+  );
+}
+
+function ClueCard({ clue, drawing }: { clue: SpecClue; drawing?: string | null }) {
+  return (
+    <div className="flex min-h-[7rem] w-full flex-1 flex-col items-center justify-center overflow-y-auto rounded-2xl border border-sky-900/70 bg-slate-900 p-5 text-center shadow-2xl shadow-black/30 lg:rounded-3xl">
+      {drawing && (
+        <img src={drawing} alt="Aircraft class silhouette" className="mb-3 max-h-40 w-auto max-w-full rounded-xl object-contain sm:max-h-56" />
+      )}
+      <div className="text-xs font-black uppercase tracking-[0.16em] text-sky-300">Spec clue</div>
+      <p className="mt-3 max-w-2xl text-xl font-black leading-snug text-white sm:text-3xl">{clue.headline}</p>
+      {clue.fact && <p className="mt-3 max-w-xl text-sm leading-6 text-slate-300 sm:text-base">{clue.fact}</p>}
+      <p className="mt-4 text-sm font-semibold text-slate-400">Which aircraft is it?</p>
+    </div>
+  );
+}
+
+function PhotoChoiceGrid({ current, locked, loading, loadError, feedback, onAnswer, onImageError, onRetry }: any) {
+  return (
+    <div className="flex min-h-0 flex-1 flex-col">
+      <div className="mb-2 shrink-0 rounded-xl border border-sky-900/70 bg-slate-900/55 px-4 py-2 text-center sm:mb-3 sm:rounded-2xl">
+        <div className="text-[0.65rem] font-black uppercase tracking-[0.16em] text-slate-400 sm:text-xs">Which photo shows the</div>
+        <div className="mt-0.5 text-lg font-black text-white sm:text-2xl">{current?.correct?.model || "…"}</div>
+      </div>
+      {loadError ? (
+        <div className="flex flex-1 flex-col items-center justify-center gap-2 rounded-2xl border border-sky-900/70 bg-slate-900 text-center">
+          <span className="text-sm text-slate-400">Photos unavailable</span>
+          <button onClick={onRetry} className="text-sm text-sky-400 hover:text-sky-300">Retry</button>
+        </div>
+      ) : (
+        <div className="grid min-h-0 flex-1 grid-cols-2 grid-rows-2 gap-1.5 sm:gap-2">
+          {loading || !current?.optionPhotos
+            ? Array.from({ length: OPTIONS_PER_QUESTION }, (_, index) => (
+              <div key={index} className="aircraft-image-skeleton rounded-xl sm:rounded-2xl" aria-label="Loading aircraft image" />
+            ))
+            : current.options.map((a: Aircraft, index: number) => {
+              const isCorrectAnswer = locked && a.id === current.correct?.id;
+              const isWrongSelection = locked && feedback?.selectedId === a.id && !isCorrectAnswer;
+              return (
+                <button
+                  key={a.id}
+                  disabled={locked || loading}
+                  onClick={() => onAnswer(a)}
+                  aria-label={`Photo ${String.fromCharCode(65 + index)}`}
+                  className={classNames(
+                    "relative min-h-0 overflow-hidden rounded-xl border-2 bg-slate-900 transition disabled:cursor-default sm:rounded-2xl",
+                    "border-slate-700/80 hover:border-sky-500/60",
+                    isCorrectAnswer && "border-emerald-500",
+                    isWrongSelection && "border-rose-500"
+                  )}
+                >
+                  <img
+                    src={current.optionPhotos[a.id]}
+                    alt=""
+                    onError={onImageError}
+                    className={classNames("absolute inset-0 h-full w-full object-cover transition-opacity", locked && !isCorrectAnswer && "opacity-70")}
+                  />
+                  <span className={classNames(
+                    "absolute left-2 top-2 flex h-7 w-7 items-center justify-center rounded-full border border-sky-500/80 bg-slate-950/80 text-xs font-black text-sky-400",
+                    isCorrectAnswer && "border-emerald-400 bg-emerald-500 text-white",
+                    isWrongSelection && "border-rose-400 bg-rose-500 text-white"
+                  )}>{isCorrectAnswer ? "✓" : isWrongSelection ? "×" : String.fromCharCode(65 + index)}</span>
+                  {locked && !isCorrectAnswer && (
+                    <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-slate-950/95 via-slate-950/80 to-transparent p-2 pt-6 text-left sm:p-3 sm:pt-8">
+                      <div className="text-xs font-semibold text-white sm:text-sm">{a.model}</div>
+                      <div className="mt-0.5 text-[0.7rem] text-slate-300 sm:text-xs">{a.specs.role}</div>
+                    </div>
+                  )}
+                </button>
+              );
+            })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TypedAnswerForm({ disabled, onSubmit }: { disabled: boolean; onSubmit: (answer: string) => void }) {
+  const [value, setValue] = useState("");
+  const [highlighted, setHighlighted] = useState(-1);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const suggestions = useMemo(() => suggestAnswers(value), [value]);
+
+  useEffect(() => {
+    if (!disabled) inputRef.current?.focus();
+  }, [disabled]);
+
+  function pick(name: string) {
+    setValue(name);
+    setHighlighted(-1);
+    inputRef.current?.focus();
+  }
+
+  return (
+    <form
+      className="relative mt-2 flex shrink-0 gap-2 sm:mt-3 lg:mt-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (highlighted >= 0 && suggestions[highlighted]) pick(suggestions[highlighted]);
+        else if (value.trim() && !disabled) onSubmit(value.trim());
+      }}
+    >
+      {suggestions.length > 0 && !disabled && (
+        <ul
+          id="typed-answer-suggestions"
+          role="listbox"
+          className="absolute bottom-full left-0 right-0 z-10 mb-1 overflow-hidden rounded-xl border border-slate-700 bg-slate-900 shadow-xl shadow-black/40"
+        >
+          {suggestions.map((name, index) => (
+            <li key={name} role="option" aria-selected={index === highlighted}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => pick(name)}
+                className={classNames(
+                  "w-full px-4 py-2 text-left text-sm font-semibold hover:bg-slate-800",
+                  index === highlighted && "bg-slate-800 text-sky-300"
+                )}
+              >
+                {name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <input
+        ref={inputRef}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => {
+          setValue(e.target.value);
+          setHighlighted(-1);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "ArrowDown" && suggestions.length) {
+            e.preventDefault();
+            setHighlighted((index) => (index + 1) % suggestions.length);
+          } else if (e.key === "ArrowUp" && suggestions.length) {
+            e.preventDefault();
+            setHighlighted((index) => (index <= 0 ? suggestions.length : index) - 1);
+          }
+        }}
+        role="combobox"
+        aria-expanded={suggestions.length > 0}
+        aria-controls="typed-answer-suggestions"
+        aria-autocomplete="list"
+        aria-label="Aircraft model"
+        placeholder="Type the aircraft model…"
+        autoComplete="off"
+        spellCheck={false}
+        className="min-h-12 min-w-0 flex-1 rounded-xl border border-slate-700/80 bg-slate-900/80 px-4 text-base font-bold text-white outline-none placeholder:text-slate-500 focus:border-sky-500/70 disabled:opacity-60 sm:rounded-2xl"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !value.trim()}
+        className="rounded-xl bg-sky-500 px-4 text-sm font-black text-slate-950 hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400 sm:rounded-2xl sm:px-6"
+      >
+        Answer
+      </button>
+    </form>
+  );
+}
+
+function LivesIndicator({ lives }: { lives: number }) {
+  return (
+    <span className="inline-flex items-center gap-0.5" role="img" aria-label={`${lives} of ${SURVIVAL_LIVES} lives left`}>
+      {Array.from({ length: SURVIVAL_LIVES }, (_, index) => (
+        <svg
+          key={index}
+          aria-hidden="true"
+          viewBox="0 0 24 24"
+          className={classNames("h-4 w-4 transition-colors", index < lives ? "text-rose-400" : "text-slate-700")}
+          fill="currentColor"
+        >
+          <path d="M12 21s-7.5-4.6-9.6-9.2C.9 8.4 3 4.5 6.8 4.5c2.1 0 3.6 1.1 4.2 2.3.6-1.2 2.1-2.3 4.2-2.3 3.8 0 5.9 3.9 4.4 7.3C19.5 16.4 12 21 12 21Z" />
+        </svg>
+      ))}
+    </span>
+  );
+}
+
+function ResultScreen({ mode, difficulty, score, bestStreak, questionsAnswered, misses, daily, challenge, customQuiz, campaign, challengeLink, ghostShared, review, playerName, personalRecord, onPlayAgain, onRaceGhost, onBackToMenu, onOpenLeaderboard }: any) {
+  const isDaily = mode === "daily";
+  const isChallenge = mode === "challenge" && challenge;
+  return (
+    <main className="mx-auto flex min-h-[calc(100dvh-4rem)] max-w-3xl items-center justify-center px-4 py-4">
+      <div className="w-full rounded-2xl border border-slate-800 bg-slate-900/40 p-6 text-center sm:p-8">
+        <h2 className="text-2xl font-bold sm:text-3xl">{isDaily ? "Daily challenge complete" : isChallenge ? "Challenge complete" : mode === "survival" ? "Out of lives" : mode === "timeAttack" ? "Time's up" : "Flight complete"}</h2>
+        {isChallenge ? (
+          <ChallengeComparison challenge={challenge} playerName={playerName} score={score} />
+        ) : (
+          <>
+            <p className="mt-2 text-slate-300">Final score</p>
+            <div className="mt-2 text-5xl font-extrabold text-sky-400 sm:text-6xl">{score}</div>
+          </>
+        )}
+        <div className="mt-3 text-sm text-slate-300">Best streak: {bestStreak} in a row</div>
+        {difficulty !== "normal" && (
+          <div className="mt-1 text-sm text-slate-400">
+            {DIFFICULTY_SETTINGS[difficulty as Difficulty].label} difficulty · ×{DIFFICULTY_SETTINGS[difficulty as Difficulty].multiplier} points
+          </div>
+        )}
+        {(mode === "survival" || mode === "timeAttack" || customQuiz) && (
+          <div className="mt-1 text-sm text-slate-300">
+            {questionsAnswered - misses} aircraft identified in {questionsAnswered} questions
+          </div>
+        )}
+        {customQuiz && <div className="mt-1 text-sm text-slate-400">{customQuiz.name} · custom quizzes are not ranked</div>}
+        {campaign && <CampaignResult tier={campaign.tier} next={campaign.next} accuracy={questionsAnswered ? Math.round(((questionsAnswered - misses) / questionsAnswered) * 100) : 0} />}
+        {isDaily && <DailyResultPanel daily={daily} />}
+        {personalRecord?.beaten && (
+          <div className="record-celebration relative mt-6 overflow-hidden rounded-2xl border border-amber-300/70 bg-gradient-to-br from-amber-300/15 via-sky-500/10 to-violet-500/15 p-5 text-left shadow-[0_0_45px_rgba(56,189,248,0.2)]">
+            <div className="record-shimmer" />
+            <span className="record-particle left-[12%] top-3" /><span className="record-particle left-[72%] top-5" /><span className="record-particle left-[88%] top-16" />
+            <div className="relative"><p className="text-xs font-black uppercase tracking-[0.18em] text-amber-200">Personal record</p><p className="mt-1 text-xl font-black text-white">{personalRecord.previousBest === 0 ? "Your first personal best." : "You just beat your best."}</p><p className="mt-2 text-sm text-slate-300">{personalRecord.previousBest === 0 ? <><span className="font-black text-sky-300">{personalRecord.newBest}</span> points</> : <>{personalRecord.previousBest} <span className="text-slate-500">→</span> <span className="font-black text-sky-300">{personalRecord.newBest}</span></>}</p>{personalRecord.rank && personalRecord.totalPlayers ? <p className="mt-2 text-sm font-semibold text-emerald-300">#{personalRecord.rank} of {personalRecord.totalPlayers} · Top {personalRecord.topPercent}% worldwide</p> : <p className="mt-2 text-xs text-slate-400">Your global placement will update when you’re online.</p>}</div>
+            <button onClick={onOpenLeaderboard} className="relative mt-4 rounded-lg border border-sky-400/40 px-3 py-2 text-xs font-bold text-sky-200 hover:bg-sky-400/10">View leaderboard</button>
+          </div>
+        )}
+        <div className="mt-6 flex flex-wrap items-center justify-center gap-3">
+          <button
+            onClick={onPlayAgain}
+            className="rounded-xl bg-sky-500 px-6 py-3 font-semibold text-slate-950 hover:bg-sky-400"
+          >
+            {isDaily || isChallenge ? "Play a standard round" : "Play again"}
+          </button>
+          {onRaceGhost && (
+            <button
+              onClick={onRaceGhost}
+              className="rounded-xl border border-violet-400/50 bg-violet-500/10 px-6 py-3 font-semibold text-violet-100 hover:border-violet-300 hover:bg-violet-500/20"
+            >
+              Race your ghost
+            </button>
+          )}
+          <button
+            onClick={onBackToMenu}
+            className="rounded-xl border border-slate-800 bg-slate-900 px-6 py-3 font-semibold hover:border-slate-700"
+          >
+            Back to menu
+          </button>
+        </div>
+        {challengeLink && <ChallengeShare link={challengeLink} ghost={ghostShared} />}
+        {review.length > 0 && <RoundReview rows={review} />}
+      </div>
+    </main>
+  );
+}
+
+function RoundReview({ rows }: { rows: QuestionReview[] }) {
+  const [learning, setLearning] = useState<Aircraft | null>(null);
+  return (
+    <section className="mt-8 text-left">
+      <h3 className="text-sm font-black uppercase tracking-[0.16em] text-slate-400">Round review</h3>
+      <ol className="mt-3 space-y-2">
+        {rows.map((row, index) => (
+          <li key={index}>
+            <button
+              onClick={() => setLearning(row.aircraft)}
+              className="flex w-full items-center gap-3 rounded-xl border border-slate-800 bg-slate-950/60 p-2 text-left transition hover:border-sky-500/50"
+            >
+              <div className="h-14 w-20 shrink-0 overflow-hidden rounded-lg bg-slate-900">
+                {row.imageUrl && <img src={row.imageUrl} alt="" className="h-full w-full object-cover" />}
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-semibold text-white">
+                  <span className="text-slate-500">{index + 1}.</span> {row.aircraft.model}
+                </p>
+                <p className={classNames(
+                  "truncate text-xs",
+                  row.grade === "correct" ? "text-emerald-300" : row.grade === "partial" ? "text-amber-200" : "text-rose-300"
+                )}>
+                  {row.picked === null ? "Time ran out" : `You answered ${row.picked}`}
+                  {row.ms !== null && <span className="text-slate-500"> · {(row.ms / 1000).toFixed(1)}s</span>}
+                </p>
+              </div>
+              <div className="shrink-0 text-right">
+                <p className="text-sm font-black text-white">{row.points}</p>
+                {row.points > 0 && (
+                  <p className="text-[11px] text-slate-400">
+                    {row.base}
+                    {row.speedBonus > 0 && <> + {row.speedBonus} speed</>}
+                    {row.streakBonus > 0 && <> + {row.streakBonus} streak</>}
+                    {row.multiplier !== 1 && <> × {Number(row.multiplier.toFixed(3))}</>}
+                  </p>
+                )}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ol>
+      {learning && (
+        <div role="dialog" aria-modal="true" className="fixed inset-0 z-30 flex items-start justify-center overflow-y-auto bg-black/70 p-4 sm:items-center" onClick={() => setLearning(null)}>
+          <div className="w-full max-w-md" onClick={(event) => event.stopPropagation()}>
+            <LearnCard a={learning} />
+            <button onClick={() => setLearning(null)} className="mt-3 w-full rounded-xl border border-slate-700 bg-slate-900 py-2 text-sm font-semibold hover:bg-slate-800">
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function PartyHandoff({ player, questionIndex, totalQuestions, onReady, onQuit }: any) {
+  return (
+    <main className="mx-auto flex min-h-[calc(100dvh-4rem)] max-w-md items-center justify-center px-4 py-4">
+      <div className="w-full rounded-2xl border border-slate-800 bg-slate-900/40 p-6 text-center sm:p-8">
+        <p className="text-xs font-black uppercase tracking-[0.16em] text-slate-400">Question {questionIndex + 1} of {totalQuestions}</p>
+        <h2 className="mt-3 text-2xl font-bold sm:text-3xl">Pass to {player?.name}</h2>
+        <p className="mt-2 text-sm text-slate-300">Everyone else, look away. The timer starts when {player?.name} is ready.</p>
+        <div className="mt-6 flex flex-wrap items-center justify-center gap-3">
+          <button onClick={onReady} className="rounded-xl bg-sky-500 px-6 py-3 font-semibold text-slate-950 hover:bg-sky-400">
+            I'm ready
+          </button>
+          <button onClick={onQuit} className="rounded-xl border border-slate-800 bg-slate-900 px-6 py-3 font-semibold hover:border-slate-700">
+            Quit
+          </button>
+        </div>
+      </div>
+    </main>
+  );
+}
+
+function PartyStandings({ tallies }: { tallies: RunTally[] }) {
+  return (
+    <ol className="mt-5 space-y-2 text-left">
+      {rankTallies(tallies).map((tally, index) => (
+        <li key={index} className="flex items-center gap-3 rounded-xl border border-slate-800 bg-slate-950/60 px-4 py-3">
+          <span className="w-6 text-center font-black text-slate-400">{tally.place}</span>
+          <span className="min-w-0 flex-1 truncate font-semibold text-white">{tally.name}</span>
+          {tally.streak > 1 && <span className="text-xs font-semibold text-amber-300">{tally.streak} in a row</span>}
+          <span className="font-black text-sky-400">{tally.score}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function PartyScoreboard({ tallies, questionIndex, totalQuestions, onNext, onQuit }: any) {
+  return (
+    <main className="mx-auto flex min-h-[calc(100dvh-4rem)] max-w-md items-center justify-center px-4 py-4">
+      <div className="w-full rounded-2xl border border-slate-800 bg-slate-900/40 p-6 text-center sm:p-8">
+        <p className="text-xs font-black uppercase tracking-[0.16em] text-slate-400">After question {questionIndex + 1} of {totalQuestions}</p>
+        <h2 className="mt-3 text-2xl font-bold sm:text-3xl">Scoreboard</h2>
+        <PartyStandings tallies={tallies} />
+        <div className="mt-6 flex flex-wrap items-center justify-center gap-3">
+          <button onClick={onNext} className="rounded-xl bg-sky-500 px-6 py-3 font-semibold text-slate-950 hover:bg-sky-400">
+            Next question
+          </button>
+          <button onClick={onQuit} className="rounded-xl border border-slate-800 bg-slate-900 px-6 py-3 font-semibold hover:border-slate-700">
+            Quit
+          </button>
+        </div>
+      </div>
+    </main>
+  );
+}
+
+function PartyPodium({ tallies, onPlayAgain, onBackToMenu }: any) {
+  const ranked = rankTallies(tallies);
+  const winners = ranked.filter((tally) => tally.place === 1);
+  // Second place stands on the left and third on the right, as on a real podium.
+  const podium = [ranked[1], ranked[0], ranked[2]].filter(Boolean);
+  const heights: Record<number, string> = { 1: "h-28", 2: "h-20", 3: "h-14" };
+  return (
+    <main className="mx-auto flex min-h-[calc(100dvh-4rem)] max-w-3xl items-center justify-center px-4 py-4">
+      <div className="w-full rounded-2xl border border-slate-800 bg-slate-900/40 p-6 text-center sm:p-8">
+        <h2 className="text-2xl font-bold sm:text-3xl">
+          {winners.length > 1 ? "It's a tie!" : `${winners[0]?.name} wins!`}
+        </h2>
+        <div className="mt-6 flex items-end justify-center gap-2 sm:gap-4">
+          {podium.map((tally, index) => (
+            <div key={index} className="flex w-28 flex-col items-center sm:w-36">
+              <span className="w-full truncate text-sm font-bold text-white">{tally.name}</span>
+              <span className="text-lg font-black text-sky-400">{tally.score}</span>
+              <div
+                className={classNames(
+                  "mt-1 flex w-full items-start justify-center rounded-t-xl pt-2 text-2xl font-black",
+                  heights[tally.place] || "h-10",
+                  tally.place === 1 ? "bg-amber-400/80 text-slate-950" : "bg-slate-800 text-slate-200"
+                )}
+              >
+                {tally.place}
+              </div>
+            </div>
+          ))}
+        </div>
+        {ranked.length > 3 && <PartyStandings tallies={tallies} />}
+        <div className="mt-6 flex flex-wrap items-center justify-center gap-3">
+          <button onClick={onPlayAgain} className="rounded-xl bg-sky-500 px-6 py-3 font-semibold text-slate-950 hover:bg-sky-400">
+            Rematch
+          </button>
+          <button onClick={onBackToMenu} className="rounded-xl border border-slate-800 bg-slate-900 px-6 py-3 font-semibold hover:border-slate-700">
+            Back to menu
+          </button>
+        </div>
+        <p className="mt-4 text-xs text-slate-500">Pass-and-play rounds are not ranked.</p>
+      </div>
+    </main>
+  );
+}
+
+function RoomRanking({ players, you, showLast }: { players: RoomPlayerView[]; you: string; showLast?: boolean }) {
+  return (
+    <ol className="mt-5 space-y-2 text-left">
+      {players.map((player, index) => (
+        <li
+          key={player.id}
+          className={classNames(
+            "flex items-center gap-3 rounded-xl border px-4 py-3",
+            player.id === you ? "border-sky-500/60 bg-sky-500/10" : "border-slate-800 bg-slate-950/60",
+            !player.connected && "opacity-50"
+          )}
+        >
+          <span className="w-6 text-center font-black text-slate-400">{index + 1}</span>
+          <span className="min-w-0 flex-1 truncate font-semibold text-white">{player.name}</span>
+          {showLast && (
+            <span className={classNames("text-xs font-semibold", player.lastCorrect ? "text-emerald-300" : "text-slate-500")}>
+              {player.lastCorrect ? `+${player.lastPoints}` : "missed"}
+            </span>
+          )}
+          <span className="font-black text-sky-400">{player.score}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// Lobby, between-question results and the final ranking of a room round.
+function RoomPanel({ room, current, feedback, onStart, onLobby, onQuit, onExit }: any) {
+  const isHost = room.hostId === room.you;
+  const connected = room.players.filter((player: RoomPlayerView) => player.connected).length;
+  return (
+    <main className="mx-auto flex min-h-[calc(100dvh-4rem)] max-w-md items-center justify-center px-4 py-4">
+      <div className="w-full rounded-2xl border border-slate-800 bg-slate-900/40 p-6 text-center sm:p-8">
+        {room.phase === "lobby" && (
+          <>
+            <p className="text-xs font-black uppercase tracking-[0.16em] text-slate-400">Room code</p>
+            <div className="mt-2 text-5xl font-extrabold tracking-[0.3em] text-sky-400">{room.code}</div>
+            <p className="mt-2 text-sm text-slate-300">Friends join from the menu with this code.</p>
+            <RoomRanking players={room.players} you={room.you} />
+            <div className="mt-6 flex flex-wrap items-center justify-center gap-3">
+              {isHost ? (
+                <button
+                  onClick={onStart}
+                  disabled={connected < 2}
+                  className="rounded-xl bg-sky-500 px-6 py-3 font-semibold text-slate-950 hover:bg-sky-400 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {connected < 2 ? "Waiting for players…" : "Start"}
+                </button>
+              ) : (
+                <span className="text-sm text-slate-400">Waiting for the host to start…</span>
+              )}
+              <button onClick={onQuit} className="rounded-xl border border-slate-800 bg-slate-900 px-6 py-3 font-semibold hover:border-slate-700">
+                Leave
+              </button>
+            </div>
+          </>
+        )}
+        {room.phase === "results" && (
+          <>
+            <p className="text-xs font-black uppercase tracking-[0.16em] text-slate-400">Question {room.questionIndex + 1} of {room.questionCount}</p>
+            <h2 className={classNames("mt-3 text-2xl font-bold sm:text-3xl", feedback?.correct ? "text-emerald-300" : "text-rose-400")}>
+              {feedback?.correct ? `Correct! +${feedback.points}` : feedback?.selectedId ? "Incorrect" : "Time's up"}
+            </h2>
+            <p className="mt-2 text-sm text-slate-200">
+              Answer: <span className="font-bold text-sky-400">{feedback?.correctModel || current?.correct?.model}</span>
+            </p>
+            <RoomRanking players={room.players} you={room.you} showLast />
+            <p className="mt-4 text-xs text-slate-500">Next question in a moment…</p>
+          </>
+        )}
+        {room.phase === "finished" && (
+          <>
+            <h2 className="text-2xl font-bold sm:text-3xl">{room.players[0]?.name} wins!</h2>
+            <p className="mt-2 text-sm text-slate-300">Final ranking</p>
+            <RoomRanking players={room.players} you={room.you} />
+            <div className="mt-6 flex flex-wrap items-center justify-center gap-3">
+              {isHost && (
+                <button onClick={onLobby} className="rounded-xl bg-sky-500 px-6 py-3 font-semibold text-slate-950 hover:bg-sky-400">
+                  Back to lobby
+                </button>
+              )}
+              <button
+                onClick={onExit}
+                className={isHost
+                  ? "rounded-xl border border-slate-800 bg-slate-900 px-6 py-3 font-semibold hover:border-slate-700"
+                  : "rounded-xl bg-sky-500 px-6 py-3 font-semibold text-slate-950 hover:bg-sky-400"}
+              >
+                Back to menu
+              </button>
+            </div>
+            <p className="mt-4 text-xs text-slate-500">
+              {isHost ? "Room rounds are not ranked." : "Room rounds are not ranked. Stay for a rematch if the host reopens the lobby."}
+            </p>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
+
+function RoomWaiting({ room, pick }: { room: RoomState; pick?: string }) {
+  const connected = room.players.filter((player) => player.connected);
+  const answered = connected.filter((player) => player.answered).length;
+  return (
+    <div className="mt-2 shrink-0 rounded-2xl border border-sky-900/70 bg-slate-900/55 p-3 text-center text-sm sm:mt-3 sm:p-4 lg:mt-2 lg:p-3">
+      {room.phase === "prepare" ? (
+        <span className="text-slate-300">Waiting for everyone's photo to load…</span>
+      ) : (
+        <>
+          {pick && <span className="font-semibold text-white">Locked in: {pick}. </span>}
+          <span className="text-slate-300">Waiting for others · {answered} of {connected.length} answered</span>
+        </>
+      )}
+    </div>
+  );
+}
+
+function LifelineBar({ lifelines, disabled, onUse }: { lifelines: { available: Lifeline[]; hint: string | null }; disabled: boolean; onUse: (lifeline: Lifeline) => void }) {
+  return (
+    <div className="mt-2 flex shrink-0 items-center gap-2 sm:mt-3 lg:mt-2">
+      {(Object.keys(LIFELINES) as Lifeline[]).map((lifeline) => (
+        <button
+          key={lifeline}
+          onClick={() => onUse(lifeline)}
+          disabled={disabled || !lifelines.available.includes(lifeline)}
+          title={`Costs ${LIFELINE_PENALTY * 100}% of this question's points`}
+          className="shrink-0 rounded-lg border border-amber-400/40 bg-amber-400/10 px-2.5 py-1 text-xs font-black text-amber-100 hover:bg-amber-400/20 disabled:cursor-default disabled:border-slate-800 disabled:bg-transparent disabled:text-slate-600"
+        >
+          {LIFELINES[lifeline]}
+        </button>
+      ))}
+      {lifelines.hint && <span className="min-w-0 truncate text-xs font-semibold text-amber-200 sm:text-sm">{lifelines.hint}</span>}
+    </div>
+  );
+}
+
+// A recorded rival: hidden until their answer time passes or the question
+// closes, then their pick, their time and their running score.
+function GhostTrack({ ghost, elapsedMs, revealed }: { ghost: { name: string; answer: RunLogAnswer; scoreBefore: number }; elapsedMs: number; revealed: boolean }) {
+  const { answer } = ghost;
+  const done = revealed || elapsedMs >= answer.ms;
+  const correct = answer.selectedId === answer.aircraftId;
+  const seconds = (answer.ms / 1000).toFixed(1);
+  return (
+    <div className="mt-2 flex shrink-0 items-center justify-between gap-3 rounded-xl border border-violet-500/40 bg-violet-950/30 px-3 py-2 text-sm sm:mt-3 lg:mt-2">
+      <span className="min-w-0 truncate">
+        <span className="font-black text-violet-200">{ghost.name}</span>{" "}
+        {!done ? (
+          <span className="text-slate-400">is thinking…</span>
+        ) : !answer.selectedId ? (
+          <span className="text-slate-300">ran out of time</span>
+        ) : correct ? (
+          <span className="text-emerald-300">got it right in {seconds}s</span>
+        ) : (
+          <span className="text-rose-300">missed it after {seconds}s</span>
+        )}
+      </span>
+      <span className="shrink-0 font-black text-violet-200">{ghost.scoreBefore + (done ? answer.points : 0)} pts</span>
+    </div>
+  );
+}
+
+function ChallengeComparison({ challenge, playerName, score }: { challenge: RoundChallenge; playerName: string; score: number }) {
+  const margin = score - challenge.score;
+  return (
+    <div className="mt-5">
+      <div className="grid grid-cols-2 gap-3">
+        <div className={classNames("rounded-2xl border p-4", margin >= 0 ? "border-sky-400/70 bg-sky-500/10" : "border-slate-800 bg-slate-950/60")}>
+          <p className="truncate text-xs font-black uppercase tracking-[0.16em] text-slate-400">You · {playerName}</p>
+          <div className="mt-2 text-4xl font-extrabold text-sky-400 sm:text-5xl">{score}</div>
+        </div>
+        <div className={classNames("rounded-2xl border p-4", margin <= 0 ? "border-amber-300/70 bg-amber-400/10" : "border-slate-800 bg-slate-950/60")}>
+          <p className="truncate text-xs font-black uppercase tracking-[0.16em] text-slate-400">{challenge.name}</p>
+          <div className="mt-2 text-4xl font-extrabold text-amber-200 sm:text-5xl">{challenge.score}</div>
+        </div>
+      </div>
+      <p className="mt-3 text-sm font-semibold text-slate-200">
+        {margin > 0 ? `You beat ${challenge.name} by ${margin} points.` : margin < 0 ? `${challenge.name} keeps the lead by ${-margin} points.` : "A perfect tie."}
+      </p>
+      <p className="mt-1 text-xs text-slate-500">Same aircraft, same options, same order. Challenge rounds are not ranked.</p>
+    </div>
+  );
+}
+
+function ChallengeShare({ link, ghost }: { link: string; ghost?: boolean }) {
+  const [status, setStatus] = useState<"idle" | "copied" | "manual">("idle");
+
+  async function share() {
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: "Airplane Spotter", text: "Can you beat my round?", url: link });
+        return;
+      }
+      await navigator.clipboard.writeText(link);
+      setStatus("copied");
+    } catch (error: any) {
+      // Closing the native share sheet is not a failure.
+      if (error?.name !== "AbortError") setStatus("manual");
+    }
+  }
+
+  return (
+    <div className="mt-6 border-t border-slate-800 pt-5">
+      <button
+        onClick={share}
+        className="inline-flex items-center gap-2 rounded-xl border border-amber-400/50 bg-amber-400/10 px-5 py-2.5 text-sm font-black text-amber-100 hover:border-amber-300 hover:bg-amber-400/20"
+      >
+        <svg aria-hidden="true" viewBox="0 0 24 24" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="2.2" strokeLinecap="round" strokeLinejoin="round">
+          <path d="M10 14a5 5 0 0 0 7 0l3-3a5 5 0 0 0-7-7l-1 1" />
+          <path d="M14 10a5 5 0 0 0-7 0l-3 3a5 5 0 0 0 7 7l1-1" />
+        </svg>
+        Challenge a friend
+      </button>
+      <p className="mt-2 text-xs text-slate-500">
+        {status === "copied" ? "Link copied. Your friend will fly this exact round." : ghost ? "Your friend races your ghost: same aircraft, with your answers and timing shown live." : "Your friend gets the same aircraft in the same order."}
+      </p>
+      {status === "manual" && (
+        <input
+          readOnly
+          value={link}
+          onFocus={(e) => e.target.select()}
+          aria-label="Challenge link"
+          className="mt-2 w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-xs text-slate-300 outline-none focus:border-sky-500"
+        />
+      )}
+    </div>
+  );
+}
+
+function ChallengeInviteModal({ challenge, onAccept, onDecline }: { challenge: RoundChallenge; onAccept: () => void; onDecline: () => void }) {
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-40 flex items-center justify-center bg-black/70 p-4">
+      <div className="w-full max-w-sm rounded-2xl border border-amber-400/40 bg-slate-900 p-6 shadow-2xl shadow-black/40">
+        <p className="text-xs font-black uppercase tracking-[0.18em] text-amber-200">Challenge received</p>
+        <h3 className="mt-2 text-lg font-bold text-white">
+          {challenge.name} scored <span className="text-amber-200">{challenge.score}</span>. Can you beat it?
+        </h3>
+        <p className="mt-2 text-sm leading-6 text-slate-300">
+          You'll fly the exact same 10 aircraft with the same answer choices{challenge.ghost ? `, racing ${challenge.name}'s ghost` : ""}.
+        </p>
+        <div className="mt-3 flex flex-wrap gap-2">
+          {challenge.types.map((t) => (
+            <span key={t} className="rounded-lg border border-sky-500/40 bg-blue-600/20 px-2.5 py-1 text-xs font-bold capitalize text-sky-100">{t}</span>
+          ))}
+        </div>
+        <div className="mt-5 flex items-center justify-end gap-2">
+          <button
+            onClick={onDecline}
+            className="rounded-lg border border-slate-700 px-4 py-2 text-sm font-semibold text-slate-100 hover:bg-slate-800"
+          >
+            Not now
+          </button>
+          <button
+            onClick={onAccept}
+            className="rounded-lg bg-sky-500 px-4 py-2 text-sm font-bold text-slate-950 hover:bg-sky-400"
+          >
+            Accept challenge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CampaignResult({ tier, next, accuracy }: { tier: CampaignTier; next: CampaignTier | null; accuracy: number }) {
+  const passed = accuracy >= CAMPAIGN_PASS_ACCURACY;
+  return (
+    <div className={classNames("mt-6 rounded-2xl border p-4 text-left", passed ? "border-emerald-500/50 bg-emerald-500/10" : "border-slate-800 bg-slate-950/60")}>
+      <p className="text-xs font-black uppercase tracking-[0.18em] text-slate-400">Career · {tier.title}</p>
+      <p className="mt-1 text-lg font-black text-white">{accuracy}% accuracy</p>
+      <p className="mt-1 text-sm text-slate-300">
+        {!passed
+          ? `Reach ${CAMPAIGN_PASS_ACCURACY}% to ${next ? `unlock ${next.title}` : "clear the final tier"}.`
+          : next
+            ? `Tier cleared. ${next.title} is unlocked.`
+            : "Final tier cleared. Every aircraft in the career is yours."}
+      </p>
+    </div>
+  );
+}
+
+function DailyResultPanel({ daily }: { daily: DailyStatus | null }) {
+  return (
+    <div className="mt-6 grid gap-3 text-left sm:grid-cols-2">
+      <div className="rounded-2xl border border-amber-400/40 bg-amber-400/10 p-4">
+        <p className="text-xs font-black uppercase tracking-[0.18em] text-amber-200">Today · {daily?.date || utcDateKey()}</p>
+        {daily?.result?.rank ? (
+          <p className="mt-2 text-lg font-black text-white">#{daily.result.rank} <span className="text-sm font-semibold text-slate-300">of {daily.result.totalPlayers} pilots</span></p>
+        ) : (
+          <p className="mt-2 text-sm text-slate-300">{daily?.result ? "Your daily placement will update when you’re online." : "Submitting your result…"}</p>
+        )}
+        <p className="mt-1 text-xs text-slate-400">Everyone flies the same 10 aircraft until 00:00 UTC.</p>
+      </div>
+      <div className="rounded-2xl border border-slate-800 bg-slate-950/60 p-4">
+        <p className="text-xs font-black uppercase tracking-[0.18em] text-slate-400">Yesterday's winners</p>
+        {daily?.yesterday.length ? (
+          <ol className="mt-2 space-y-1.5">
+            {daily.yesterday.slice(0, DAILY_WINNERS_SHOWN).map((entry, index) => (
+              <li key={entry.deviceId || `${entry.name}-${index}`} className="flex items-center justify-between gap-3 text-sm">
+                <span className="min-w-0 truncate"><span className="mr-2 rounded bg-slate-800 px-2 py-0.5 text-xs">#{index + 1}</span>{entry.name}</span>
+                <span className="shrink-0 font-semibold text-sky-400">{entry.score}</span>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="mt-2 text-sm text-slate-400">No results recorded yesterday.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function UsernameEditor({ deviceId, initialName, onSave, compact = false, alwaysEditing = false }: any) {
+  const [draftName, setDraftName] = useState(initialName || "");
+  const [editing, setEditing] = useState(alwaysEditing);
+  const [availability, setAvailability] = useState<"idle" | "checking" | "available" | "taken" | "invalid" | "offline">("idle");
+  const [message, setMessage] = useState("");
+  const [saving, setSaving] = useState(false);
 
   useEffect(() => setDraftName(initialName || ""), [initialName]);
   useEffect(() => {
@@ -1756,105 +4878,673 @@ function UsernameEditor({ deviceId, initialName, onSave, compact = false, always
   </div>;
 }
 
-function UsernameSetupModal({ deviceId, username, onSaveUsername }: any) {
-  return <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/75 p-4">
-    <div className="w-full max-w-md rounded-2xl border border-sky-800/70 bg-slate-900 p-6 shadow-2xl shadow-black/50">
-      <div className="mb-5"><h3 className="text-lg font-bold text-white">Leaderboard name</h3><p className="mt-1 text-sm text-slate-400">Pick a name to appear on the leaderboard.</p></div>
-      <UsernameEditor deviceId={deviceId} initialName={username} onSave={onSaveUsername} alwaysEditing />
+function UsernameSetupModal({ deviceId, username, onSaveUsername }: any) {
+  return <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 flex items-center justify-center bg-black/75 p-4">
+    <div className="w-full max-w-md rounded-2xl border border-sky-800/70 bg-slate-900 p-6 shadow-2xl shadow-black/50">
+      <div className="mb-5"><h3 className="text-lg font-bold text-white">Leaderboard name</h3><p className="mt-1 text-sm text-slate-400">Pick a name to appear on the leaderboard.</p></div>
+      <UsernameEditor deviceId={deviceId} initialName={username} onSave={onSaveUsername} alwaysEditing />
+    </div>
+  </div>;
+}
+
+function SettingsModal({
+  enabledTypes,
+  setEnabledTypes,
+  difficulty,
+  onDifficultyChange,
+  username,
+  deviceId,
+  onSaveUsername,
+  onClose,
+}: any) {
+  const selectedCount = TYPES.filter((t) => enabledTypes[t]).length;
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-30 flex items-start justify-center overflow-y-auto bg-black/70 p-4 sm:items-center">
+      <div className="max-h-[calc(100dvh-2rem)] w-full max-w-lg overflow-y-auto rounded-2xl border border-slate-800 bg-slate-900 p-6 shadow-2xl shadow-black/40">
+        <div className="mb-5 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-bold">Settings</h3>
+            <p className="mt-1 text-sm text-slate-400">
+              Manage your player profile and aircraft pool.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-md border border-slate-700 px-3 py-1 text-sm hover:bg-slate-800"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="mb-5 rounded-xl border border-sky-800/60 bg-slate-950/70 p-4">
+          <div className="font-semibold text-white">Player username</div>
+          <p className="mt-1 text-xs leading-5 text-slate-400">
+            This name belongs to this browser and is reused automatically after every quiz.
+            Use 3–24 letters, numbers, underscores, or hyphens.
+          </p>
+          <div className="mt-3"><UsernameEditor deviceId={deviceId} initialName={username} onSave={onSaveUsername} /></div>
+        </div>
+
+        <div className="mb-3 text-sm font-semibold text-white">Aircraft types</div>
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          {TYPES.map((t) => (
+            <label
+              key={t}
+              className={classNames(
+                "flex cursor-pointer items-center justify-between rounded-xl border p-4 text-sm transition",
+                enabledTypes[t]
+                  ? "border-sky-500/40 bg-sky-500/10"
+                  : "border-slate-800 bg-slate-950/60 hover:border-slate-700"
+              )}
+            >
+              <span className="font-semibold capitalize">{t}</span>
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-sky-400"
+                checked={enabledTypes[t]}
+                onChange={(e) =>
+                  setEnabledTypes((s: Record<string, boolean>) => ({
+                    ...s,
+                    [t]: e.target.checked,
+                  }))
+                }
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="mb-3 mt-5 text-sm font-semibold text-white">Difficulty</div>
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-3" role="radiogroup" aria-label="Difficulty">
+          {(Object.keys(DIFFICULTY_SETTINGS) as Difficulty[]).map((level) => (
+            <button
+              key={level}
+              role="radio"
+              aria-checked={difficulty === level}
+              onClick={() => onDifficultyChange(level)}
+              className={classNames(
+                "rounded-xl border p-3 text-left text-sm transition",
+                difficulty === level
+                  ? "border-sky-500/40 bg-sky-500/10"
+                  : "border-slate-800 bg-slate-950/60 hover:border-slate-700"
+              )}
+            >
+              <div className="font-semibold">{DIFFICULTY_SETTINGS[level].label}</div>
+              <div className="mt-1 text-xs leading-4 text-slate-400">{DIFFICULTY_SETTINGS[level].description}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="mt-5 rounded-xl border border-slate-800 bg-slate-950/70 p-4 text-sm text-slate-300">
+          <div className="font-semibold text-white">Round format</div>
+          <p className="mt-1 text-slate-400">
+            10 questions, 15 seconds each, 4 choices per question.
+          </p>
+          {selectedCount === 0 && (
+            <p className="mt-3 text-rose-300">
+              Select at least one type to build an aircraft pool.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PartySetupModal({ onStart, onClose }: { onStart: (players: string[]) => void; onClose: () => void }) {
+  const [names, setNames] = useState(["", ""]);
+  // Blank names fall back to their seat number.
+  const players = names.map((name, index) => name.trim().slice(0, 20) || `Player ${index + 1}`);
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-30 flex items-start justify-center overflow-y-auto bg-black/70 p-4 sm:items-center">
+      <div className="w-full max-w-sm rounded-2xl border border-slate-800 bg-slate-900 p-6 shadow-2xl shadow-black/40">
+        <div className="mb-5 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-bold">Pass and play</h3>
+            <p className="mt-1 text-sm text-slate-400">
+              Take turns on one device. Everyone answers the same questions.
+            </p>
+          </div>
+          <button onClick={onClose} className="rounded-md border border-slate-700 px-3 py-1 text-sm hover:bg-slate-800">
+            Close
+          </button>
+        </div>
+        <div className="space-y-2">
+          {names.map((name, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                value={name}
+                maxLength={20}
+                placeholder={`Player ${index + 1}`}
+                aria-label={`Player ${index + 1} name`}
+                onChange={(event) => setNames(names.map((other, i) => (i === index ? event.target.value : other)))}
+                className="min-w-0 flex-1 rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white outline-none focus:border-sky-500"
+              />
+              {names.length > PARTY_MIN_PLAYERS && (
+                <button
+                  onClick={() => setNames(names.filter((_, i) => i !== index))}
+                  aria-label={`Remove player ${index + 1}`}
+                  className="rounded-lg border border-slate-700 px-3 py-2 text-sm text-slate-300 hover:bg-slate-800"
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        {names.length < PARTY_MAX_PLAYERS && (
+          <button onClick={() => setNames([...names, ""])} className="mt-3 text-sm font-semibold text-sky-400 hover:text-sky-300">
+            + Add player
+          </button>
+        )}
+        <button
+          onClick={() => onStart(players)}
+          className="mt-5 w-full rounded-xl bg-sky-500 px-6 py-3 font-semibold text-slate-950 hover:bg-sky-400"
+        >
+          Start
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function CampaignModal({ progress, onPlay, onClose }: { progress: CampaignProgress; onPlay: (tier: CampaignTier) => void; onClose: () => void }) {
+  const unlocked = unlockedTierCount(progress);
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-30 flex items-start justify-center overflow-y-auto bg-black/70 p-4 sm:items-center">
+      <div className="max-h-[calc(100dvh-2rem)] w-full max-w-lg overflow-y-auto rounded-2xl border border-slate-800 bg-slate-900 p-6 shadow-2xl shadow-black/40">
+        <div className="mb-5 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-bold">Career</h3>
+            <p className="mt-1 text-sm text-slate-400">
+              Start with the jets you already know. Score {CAMPAIGN_PASS_ACCURACY}% in a tier to unlock the next one.
+            </p>
+          </div>
+          <button onClick={onClose} className="rounded-md border border-slate-700 px-3 py-1 text-sm hover:bg-slate-800">
+            Close
+          </button>
+        </div>
+        <ol className="space-y-2">
+          {CAMPAIGN_TIERS.map((tier, index) => {
+            const open = index < unlocked;
+            const best = progress[tier.id];
+            return (
+              <li
+                key={tier.id}
+                className={classNames(
+                  "flex items-center justify-between gap-3 rounded-xl border p-3",
+                  open ? "border-sky-800/60 bg-slate-950/60" : "border-slate-800 bg-slate-950/30 opacity-60"
+                )}
+              >
+                <div className="min-w-0">
+                  <p className="font-semibold text-white">
+                    <span className="text-slate-500">{index + 1}.</span> {tier.title}
+                  </p>
+                  <p className="mt-0.5 text-xs text-slate-400">{tier.description}</p>
+                  <p className="mt-1 text-xs font-semibold">
+                    {best === undefined ? (
+                      <span className="text-slate-500">{open ? "Not played yet" : `Locked · clear ${CAMPAIGN_TIERS[index - 1].title} first`}</span>
+                    ) : best >= CAMPAIGN_PASS_ACCURACY ? (
+                      <span className="text-emerald-300">Cleared · best {best}%</span>
+                    ) : (
+                      <span className="text-amber-200">Best {best}%</span>
+                    )}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onPlay(tier)}
+                  disabled={!open}
+                  className="shrink-0 rounded-lg bg-sky-500 px-3 py-1.5 text-sm font-bold text-slate-950 hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400"
+                >
+                  Play
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+        <p className="mt-4 text-xs text-slate-500">Career rounds are practice and are not ranked. Progress follows your player profile.</p>
+      </div>
+    </div>
+  );
+}
+
+function AchievementToast({ id, onDone }: { id: AchievementId; onDone: () => void }) {
+  const achievement = ACHIEVEMENTS.find((candidate) => candidate.id === id)!;
+  useEffect(() => {
+    const timer = setTimeout(onDone, ACHIEVEMENT_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [id]);
+  return (
+    <div role="status" className="fixed inset-x-0 bottom-4 z-40 flex justify-center px-4">
+      <button
+        onClick={onDone}
+        className="flex max-w-sm items-center gap-3 rounded-2xl border border-amber-400/50 bg-slate-900/95 px-4 py-3 text-left shadow-2xl shadow-black/50"
+      >
+        <AchievementBadge unlocked />
+        <span className="min-w-0">
+          <span className="block text-xs font-bold uppercase tracking-[0.18em] text-amber-300">Achievement unlocked</span>
+          <span className="block font-bold text-white">{achievement.title}</span>
+          <span className="block text-xs text-slate-400">{achievement.description}</span>
+        </span>
+      </button>
+    </div>
+  );
+}
+
+function AchievementBadge({ unlocked }: { unlocked: boolean }) {
+  return (
+    <span className={classNames(
+      "flex h-10 w-10 shrink-0 items-center justify-center rounded-full border",
+      unlocked ? "border-amber-300/60 bg-amber-400/15 text-amber-300" : "border-slate-700 bg-slate-900 text-slate-600"
+    )}>
+      <svg aria-hidden="true" viewBox="0 0 24 24" className="h-5 w-5" fill="currentColor">
+        <path d="M12 2a7 7 0 0 0-4 12.75V21a1 1 0 0 0 1.5.87L12 20.4l2.5 1.47A1 1 0 0 0 16 21v-6.25A7 7 0 0 0 12 2Zm0 3.5 1.3 2.6 2.9.4-2.1 2 .5 2.9-2.6-1.4-2.6 1.4.5-2.9-2.1-2 2.9-.4L12 5.5Z" />
+      </svg>
+    </span>
+  );
+}
+
+function ProfileModal({ username, playerStats, achievements, onOpenStats, onClose }: { username: string; playerStats: PlayerStats; achievements: UnlockedAchievements; onOpenStats: () => void; onClose: () => void }) {
+  const unlockedCount = ACHIEVEMENTS.filter(({ id }) => achievements[id]).length;
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-30 flex items-start justify-center overflow-y-auto bg-black/70 p-4 sm:items-center">
+      <div className="max-h-[calc(100dvh-2rem)] w-full max-w-lg overflow-y-auto rounded-2xl border border-slate-800 bg-slate-900 p-6 shadow-2xl shadow-black/40">
+        <div className="mb-5 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h3 className="truncate text-lg font-bold">{username}</h3>
+            <p className="mt-1 text-sm text-slate-400">
+              Personal best {playerStats.personalBest || "—"} · best streak {playerStats.bestStreak || "—"}
+            </p>
+          </div>
+          <button onClick={onClose} className="rounded-md border border-slate-700 px-3 py-1 text-sm hover:bg-slate-800">
+            Close
+          </button>
+        </div>
+        <div className="mb-3 flex items-baseline justify-between text-sm">
+          <span className="font-semibold text-white">Badges</span>
+          <span className="text-slate-400">{unlockedCount} of {ACHIEVEMENTS.length}</span>
+        </div>
+        <ul className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+          {ACHIEVEMENTS.map(({ id, title, description }) => {
+            const date = achievements[id];
+            return (
+              <li
+                key={id}
+                className={classNames(
+                  "flex items-center gap-3 rounded-xl border p-3",
+                  date ? "border-amber-400/30 bg-slate-950/60" : "border-slate-800 bg-slate-950/30"
+                )}
+              >
+                <AchievementBadge unlocked={Boolean(date)} />
+                <div className="min-w-0">
+                  <p className={classNames("font-semibold", date ? "text-white" : "text-slate-400")}>{title}</p>
+                  <p className="mt-0.5 text-xs text-slate-400">{description}</p>
+                  {date && <p className="mt-1 text-xs font-semibold text-amber-200">Unlocked {date}</p>}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+        <p className="mt-4 text-xs text-slate-500">Badges follow your player profile. Pass-and-play rounds do not count.</p>
+        <button onClick={onOpenStats} className="mt-4 w-full rounded-xl border border-sky-800/80 bg-slate-950/60 py-2 text-sm font-bold text-sky-200 hover:border-sky-500/60">
+          View your stats
+        </button>
+      </div>
     </div>
-  </div>;
+  );
 }
 
-function SettingsModal({
-  enabledTypes,
-  setEnabledTypes,
-  username,
-  deviceId,
-  onSaveUsername,
-  onClose,
-}: any) {
-  const selectedCount = TYPES.filter((t) => enabledTypes[t]).length;
+function customQuizSummary(quiz: CustomQuiz) {
+  return `${customQuizPool(quiz).length} aircraft · ${quiz.questionCount} questions · ${quiz.timeSec}s · ${quiz.optionCount} choices`;
+}
+
+function newCustomQuiz(): CustomQuiz {
+  return {
+    id: createRoundSeed(),
+    name: "",
+    aircraftIds: [],
+    questionCount: QUIZ_DEFAULTS.questionsPerRun,
+    timeSec: QUIZ_DEFAULTS.questionTimeSec,
+    optionCount: OPTIONS_PER_QUESTION,
+  };
+}
+
+function CustomQuizModal({ quizzes, onSave, onDelete, onPlay, onClose }: any) {
+  const [draft, setDraft] = useState<CustomQuiz | null>(null);
+  const [shared, setShared] = useState<{ id: string; link: string; copied: boolean } | null>(null);
+
+  async function share(quiz: CustomQuiz) {
+    const link = buildCustomQuizLink(quiz);
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: "Airplane Spotter", text: `Try my quiz: ${quiz.name}`, url: link });
+        return;
+      }
+      await navigator.clipboard.writeText(link);
+      setShared({ id: quiz.id, link, copied: true });
+    } catch (error: any) {
+      if (error?.name !== "AbortError") setShared({ id: quiz.id, link, copied: false });
+    }
+  }
+
+  if (draft) {
+    return (
+      <CustomQuizEditor
+        quiz={draft}
+        onCancel={() => setDraft(null)}
+        onSave={(quiz: CustomQuiz) => {
+          onSave(quiz);
+          setDraft(null);
+        }}
+        onPlay={(quiz: CustomQuiz) => {
+          onSave(quiz);
+          onPlay(quiz);
+        }}
+      />
+    );
+  }
 
   return (
-    <div className="fixed inset-0 z-30 flex items-start justify-center overflow-y-auto bg-black/70 p-4 sm:items-center">
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-30 flex items-start justify-center overflow-y-auto bg-black/70 p-4 sm:items-center">
       <div className="max-h-[calc(100dvh-2rem)] w-full max-w-lg overflow-y-auto rounded-2xl border border-slate-800 bg-slate-900 p-6 shadow-2xl shadow-black/40">
         <div className="mb-5 flex items-start justify-between gap-4">
           <div>
-            <h3 className="text-lg font-bold">Settings</h3>
+            <h3 className="text-lg font-bold">Custom quizzes</h3>
             <p className="mt-1 text-sm text-slate-400">
-              Manage your player profile and aircraft pool.
+              Pick the aircraft and the rules. Custom quizzes are practice and never ranked.
             </p>
           </div>
-          <button
-            onClick={onClose}
-            className="rounded-md border border-slate-700 px-3 py-1 text-sm hover:bg-slate-800"
-          >
+          <button onClick={onClose} className="rounded-md border border-slate-700 px-3 py-1 text-sm hover:bg-slate-800">
             Close
           </button>
         </div>
+        {quizzes.length === 0 ? (
+          <p className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 text-sm text-slate-400">No saved quizzes yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {quizzes.map((quiz: CustomQuiz) => (
+              <li key={quiz.id} className="rounded-xl border border-slate-800 bg-slate-950/60 p-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="truncate font-semibold text-white">{quiz.name}</p>
+                    <p className="mt-0.5 text-xs text-slate-400">{customQuizSummary(quiz)}</p>
+                  </div>
+                  <button onClick={() => onPlay(quiz)} className="shrink-0 rounded-lg bg-sky-500 px-3 py-1.5 text-sm font-bold text-slate-950 hover:bg-sky-400">
+                    Play
+                  </button>
+                </div>
+                <div className="mt-2 flex gap-3 text-xs font-semibold">
+                  <button onClick={() => setDraft(quiz)} className="text-sky-400 hover:text-sky-300">Edit</button>
+                  <button onClick={() => void share(quiz)} className="text-sky-400 hover:text-sky-300">Share</button>
+                  <button onClick={() => onDelete(quiz.id)} className="text-rose-300 hover:text-rose-200">Delete</button>
+                  {shared?.id === quiz.id && shared.copied && <span className="text-slate-400">Link copied</span>}
+                </div>
+                {shared?.id === quiz.id && !shared.copied && (
+                  <input
+                    readOnly
+                    value={shared.link}
+                    onFocus={(e) => e.target.select()}
+                    aria-label="Quiz link"
+                    className="mt-2 w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-xs text-slate-300 outline-none focus:border-sky-500"
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <button
+          onClick={() => setDraft(newCustomQuiz())}
+          className="mt-5 w-full rounded-xl bg-sky-500 px-6 py-3 font-semibold text-slate-950 hover:bg-sky-400"
+        >
+          New quiz
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Filters only narrow the list; the quiz stores the aircraft that were ticked,
+// so a shared quiz plays the same pool on every device.
+function CustomQuizEditor({ quiz, onSave, onPlay, onCancel }: any) {
+  const [name, setName] = useState(quiz.name);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(quiz.aircraftIds));
+  const [questionCount, setQuestionCount] = useState(quiz.questionCount);
+  const [timeSec, setTimeSec] = useState(quiz.timeSec);
+  const [optionCount, setOptionCount] = useState(quiz.optionCount);
+  const [types, setTypes] = useState<Aircraft["type"][]>(TYPES);
+  const [era, setEra] = useState(0);
+  const [search, setSearch] = useState("");
+
+  const query = search.trim().toLowerCase();
+  const shown = AIRCRAFT_DB.filter((a) => {
+    const year = Number.parseInt(a.specs.firstFlight || "", 10);
+    const { from, to } = CUSTOM_QUIZ_ERAS[era];
+    return (
+      types.includes(a.type) &&
+      (era === 0 || (year >= from && year <= to)) &&
+      (!query || [a.model, a.specs.role, ...(a.aliases || [])].some((text) => text.toLowerCase().includes(query)))
+    );
+  });
+  const draft: CustomQuiz = { id: quiz.id, name: name.trim(), aircraftIds: [...selected], questionCount, timeSec, optionCount };
+  const problem = !draft.name
+    ? "Give the quiz a name."
+    : customQuizPool(draft).length < optionCount
+      ? `Pick at least ${optionCount} aircraft to fill every question's choices.`
+      : "";
+
+  function toggleShown(on: boolean) {
+    const next = new Set(selected);
+    shown.forEach((a) => (on ? next.add(a.id) : next.delete(a.id)));
+    setSelected(next);
+  }
+
+  const sliders = [
+    { label: "Questions", value: questionCount, set: setQuestionCount, limit: CUSTOM_QUIZ_LIMITS.questions, unit: "" },
+    { label: "Seconds per question", value: timeSec, set: setTimeSec, limit: CUSTOM_QUIZ_LIMITS.seconds, unit: "s" },
+    { label: "Choices per question", value: optionCount, set: setOptionCount, limit: CUSTOM_QUIZ_LIMITS.options, unit: "" },
+  ];
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-30 flex items-start justify-center overflow-y-auto bg-black/70 p-4 sm:items-center">
+      <div className="max-h-[calc(100dvh-2rem)] w-full max-w-2xl overflow-y-auto rounded-2xl border border-slate-800 bg-slate-900 p-6 shadow-2xl shadow-black/40">
+        <div className="mb-5 flex items-start justify-between gap-4">
+          <h3 className="text-lg font-bold">{quiz.name ? "Edit quiz" : "New quiz"}</h3>
+          <button onClick={onCancel} className="rounded-md border border-slate-700 px-3 py-1 text-sm hover:bg-slate-800">
+            Back
+          </button>
+        </div>
 
-        <div className="mb-5 rounded-xl border border-sky-800/60 bg-slate-950/70 p-4">
-          <div className="font-semibold text-white">Player username</div>
-          <p className="mt-1 text-xs leading-5 text-slate-400">
-            This name belongs to this browser and is reused automatically after every quiz.
-            Use 3–24 letters, numbers, underscores, or hyphens.
-          </p>
-          <div className="mt-3"><UsernameEditor deviceId={deviceId} initialName={username} onSave={onSaveUsername} /></div>
+        <input
+          value={name}
+          maxLength={40}
+          placeholder="Quiz name"
+          aria-label="Quiz name"
+          onChange={(e) => setName(e.target.value)}
+          className="w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white outline-none focus:border-sky-500"
+        />
+
+        <div className="mt-4 grid gap-3 sm:grid-cols-3">
+          {sliders.map(({ label, value, set, limit, unit }) => (
+            <label key={label} className="block text-xs font-semibold text-slate-300">
+              {label}: <span className="text-white">{value}{unit}</span>
+              <input
+                type="range"
+                min={limit.min}
+                max={limit.max}
+                value={value}
+                onChange={(e) => set(Number(e.target.value))}
+                className="mt-1 w-full accent-sky-400"
+              />
+            </label>
+          ))}
         </div>
 
-        <div className="mb-3 text-sm font-semibold text-white">Aircraft types</div>
-        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <div className="mt-4 flex flex-wrap gap-2">
           {TYPES.map((t) => (
-            <label
+            <button
               key={t}
+              onClick={() => setTypes(types.includes(t) ? types.filter((other) => other !== t) : [...types, t])}
+              aria-pressed={types.includes(t)}
               className={classNames(
-                "flex cursor-pointer items-center justify-between rounded-xl border p-4 text-sm transition",
-                enabledTypes[t]
-                  ? "border-sky-500/40 bg-sky-500/10"
-                  : "border-slate-800 bg-slate-950/60 hover:border-slate-700"
+                "rounded-lg border px-2.5 py-1 text-xs font-bold capitalize",
+                types.includes(t) ? "border-sky-500/40 bg-blue-600/20 text-sky-100" : "border-slate-700 text-slate-400"
               )}
             >
-              <span className="font-semibold capitalize">{t}</span>
+              {t}
+            </button>
+          ))}
+          <select
+            value={era}
+            onChange={(e) => setEra(Number(e.target.value))}
+            aria-label="Era"
+            className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-200"
+          >
+            {CUSTOM_QUIZ_ERAS.map((option, index) => <option key={option.label} value={index}>{option.label}</option>)}
+          </select>
+          <input
+            value={search}
+            placeholder="Search model or role"
+            aria-label="Search aircraft"
+            onChange={(e) => setSearch(e.target.value)}
+            className="min-w-0 flex-1 rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-white outline-none focus:border-sky-500"
+          />
+        </div>
+
+        <div className="mt-3 flex items-center justify-between text-xs">
+          <span className="text-slate-400">{selected.size} selected · {shown.length} shown</span>
+          <span className="flex gap-3 font-semibold">
+            <button onClick={() => toggleShown(true)} className="text-sky-400 hover:text-sky-300">Select shown</button>
+            <button onClick={() => toggleShown(false)} className="text-sky-400 hover:text-sky-300">Clear shown</button>
+          </span>
+        </div>
+        <div className="mt-2 max-h-64 overflow-y-auto rounded-xl border border-slate-800 bg-slate-950/60 p-2">
+          {shown.map((a) => (
+            <label key={a.id} className="flex cursor-pointer items-center gap-3 rounded-lg px-2 py-1.5 text-sm hover:bg-slate-900">
               <input
                 type="checkbox"
                 className="h-4 w-4 accent-sky-400"
-                checked={enabledTypes[t]}
-                onChange={(e) =>
-                  setEnabledTypes((s: Record<string, boolean>) => ({
-                    ...s,
-                    [t]: e.target.checked,
-                  }))
-                }
+                checked={selected.has(a.id)}
+                onChange={() => {
+                  const next = new Set(selected);
+                  if (next.has(a.id)) next.delete(a.id);
+                  else next.add(a.id);
+                  setSelected(next);
+                }}
               />
+              <span className="min-w-0 flex-1 truncate">{a.model}</span>
+              <span className="shrink-0 text-xs capitalize text-slate-500">{a.type}</span>
             </label>
           ))}
+          {shown.length === 0 && <p className="p-2 text-sm text-slate-500">No aircraft match these filters.</p>}
         </div>
 
-        <div className="mt-5 rounded-xl border border-slate-800 bg-slate-950/70 p-4 text-sm text-slate-300">
-          <div className="font-semibold text-white">Round format</div>
-          <p className="mt-1 text-slate-400">
-            10 questions, 15 seconds each, 4 choices per question.
-          </p>
-          {selectedCount === 0 && (
-            <p className="mt-3 text-rose-300">
-              Select at least one type to build an aircraft pool.
+        {problem && <p className="mt-3 text-sm text-amber-200">{problem}</p>}
+        <div className="mt-5 flex justify-end gap-2">
+          <button
+            onClick={() => onSave(draft)}
+            disabled={Boolean(problem)}
+            className="rounded-lg border border-slate-700 px-4 py-2 text-sm font-semibold text-slate-100 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => onPlay(draft)}
+            disabled={Boolean(problem)}
+            className="rounded-lg bg-sky-500 px-4 py-2 text-sm font-bold text-slate-950 hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400"
+          >
+            Save and play
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CustomQuizInviteModal({ quiz, onPlay, onSave, onDecline }: { quiz: CustomQuiz; onPlay: () => void; onSave: () => void; onDecline: () => void }) {
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-40 flex items-center justify-center bg-black/70 p-4">
+      <div className="w-full max-w-sm rounded-2xl border border-sky-500/40 bg-slate-900 p-6 shadow-2xl shadow-black/40">
+        <p className="text-xs font-black uppercase tracking-[0.18em] text-sky-300">Custom quiz received</p>
+        <h3 className="mt-2 text-lg font-bold text-white">{quiz.name}</h3>
+        <p className="mt-2 text-sm leading-6 text-slate-300">{customQuizSummary(quiz)}. Custom quizzes are not ranked.</p>
+        <div className="mt-5 flex items-center justify-end gap-2">
+          <button onClick={onDecline} className="rounded-lg border border-slate-700 px-4 py-2 text-sm font-semibold text-slate-100 hover:bg-slate-800">
+            Not now
+          </button>
+          <button onClick={onSave} className="rounded-lg border border-slate-700 px-4 py-2 text-sm font-semibold text-slate-100 hover:bg-slate-800">
+            Save
+          </button>
+          <button onClick={onPlay} className="rounded-lg bg-sky-500 px-4 py-2 text-sm font-bold text-slate-950 hover:bg-sky-400">
+            Play now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function RoomSetupModal({ error, onCreate, onJoin, onClose }: { error: string; onCreate: () => void; onJoin: (code: string) => void; onClose: () => void }) {
+  const [code, setCode] = useState("");
+  const cleanCode = code.toUpperCase().replace(/[^A-Z]/g, "").slice(0, 4);
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-30 flex items-start justify-center overflow-y-auto bg-black/70 p-4 sm:items-center">
+      <div className="w-full max-w-sm rounded-2xl border border-slate-800 bg-slate-900 p-6 shadow-2xl shadow-black/40">
+        <div className="mb-5 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-bold">Multiplayer room</h3>
+            <p className="mt-1 text-sm text-slate-400">
+              Everyone answers the same question at the same moment.
             </p>
-          )}
+          </div>
+          <button onClick={onClose} className="rounded-md border border-slate-700 px-3 py-1 text-sm hover:bg-slate-800">
+            Close
+          </button>
         </div>
+        <button onClick={onCreate} className="w-full rounded-xl bg-sky-500 px-6 py-3 font-semibold text-slate-950 hover:bg-sky-400">
+          Create a room
+        </button>
+        <form
+          className="mt-4 flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (cleanCode.length === 4) onJoin(cleanCode);
+          }}
+        >
+          <input
+            value={cleanCode}
+            onChange={(event) => setCode(event.target.value)}
+            placeholder="CODE"
+            aria-label="Room code"
+            autoCapitalize="characters"
+            className="min-w-0 flex-1 rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-center font-black tracking-[0.3em] text-white outline-none focus:border-sky-500"
+          />
+          <button
+            type="submit"
+            disabled={cleanCode.length !== 4}
+            className="rounded-lg border border-slate-700 px-4 py-2 text-sm font-semibold text-slate-100 hover:bg-slate-800 disabled:opacity-50"
+          >
+            Join
+          </button>
+        </form>
+        {error && <p className="mt-3 text-sm text-rose-300">{error}</p>}
       </div>
     </div>
   );
 }
 
 function ConfirmQuitModal({
+  detail = "Your current round progress will be lost.",
   onCancel,
   onConfirm,
 }: {
+  detail?: string;
   onCancel: () => void;
   onConfirm: () => void;
 }) {
   return (
-    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/70 p-4">
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-40 flex items-center justify-center bg-black/70 p-4">
       <div className="w-full max-w-sm rounded-2xl border border-slate-800 bg-slate-900 p-6 shadow-2xl shadow-black/40">
         <div className="flex items-start gap-3">
           <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-rose-500/15 text-rose-300">
@@ -1876,12 +5566,13 @@ function ConfirmQuitModal({
           <div>
             <h3 className="text-lg font-bold text-white">Quit this quiz?</h3>
             <p className="mt-1 text-sm leading-6 text-slate-300">
-              Your current round progress will be lost.
+              {detail}
             </p>
           </div>
         </div>
         <div className="mt-5 flex items-center justify-end gap-2">
           <button
+            autoFocus
             onClick={onCancel}
             className="rounded-lg border border-slate-700 px-4 py-2 text-sm font-semibold text-slate-100 hover:bg-slate-800"
           >
@@ -1899,25 +5590,45 @@ function ConfirmQuitModal({
   );
 }
 
-function LeaderboardModal({ leaderboard, online, playerProfile, playerStanding, onClose, onReset }: any) {
+function LeaderboardModal({ leaderboard: classicLeaderboard, online: classicOnline, playerProfile, playerStanding, onClose, onReset }: any) {
   const listRef = useRef<HTMLDivElement>(null);
   const playerRowRef = useRef<HTMLLIElement>(null);
+  const [tab, setTab] = useState<RankedMode>("classic");
+  const [modeBoard, setModeBoard] = useState<{ mode: RankedMode; entries: LeaderboardEntry[]; online: boolean } | null>(null);
+  const isClassic = tab === "classic";
+  const modeBoardReady = modeBoard?.mode === tab;
+  const leaderboard: LeaderboardEntry[] = isClassic ? classicLeaderboard : modeBoardReady ? modeBoard.entries : [];
+  const online = isClassic ? classicOnline : modeBoardReady && modeBoard.online;
+
+  // Other modes have no offline copy, so they are fetched when their tab opens.
+  useEffect(() => {
+    if (tab === "classic") return;
+    let cancelled = false;
+    fetchModeLeaderboard(tab)
+      .then((entries) => { if (!cancelled) setModeBoard({ mode: tab, entries, online: true }); })
+      .catch(() => { if (!cancelled) setModeBoard({ mode: tab, entries: [], online: false }); });
+    return () => { cancelled = true; };
+  }, [tab]);
 
   useEffect(() => {
     const frame = window.requestAnimationFrame(() => {
       playerRowRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
     });
     return () => window.cancelAnimationFrame(frame);
-  }, [leaderboard.length, playerProfile.deviceId]);
+  }, [leaderboard.length, playerProfile.deviceId, tab]);
 
   return (
-    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/60 p-4">
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-30 flex items-center justify-center bg-black/60 p-4">
       <div className="flex h-[min(680px,calc(100dvh-2rem))] max-h-[calc(100dvh-2rem)] w-full max-w-md flex-col rounded-2xl border border-slate-800 bg-slate-900 p-6">
         <div className="mb-4 flex items-center justify-between">
           <div>
             <h3 className="text-lg font-semibold">Global leaderboard</h3>
-            <p className={classNames("mt-0.5 text-xs", online ? "text-emerald-400" : "text-amber-400")}>
-              {online ? "Live worldwide scores" : "Offline — showing scores saved on this device"}
+            <p className={classNames("mt-0.5 text-xs", online || (!isClassic && !modeBoardReady) ? "text-emerald-400" : "text-amber-400")}>
+              {!isClassic && !modeBoardReady
+                ? "Loading scores…"
+                : online
+                  ? "Live worldwide scores"
+                  : isClassic ? "Offline — showing scores saved on this device" : "Offline — this ranking needs a connection"}
             </p>
           </div>
           <button
@@ -1927,6 +5638,22 @@ function LeaderboardModal({ leaderboard, online, playerProfile, playerStanding,
             Close
           </button>
         </div>
+        <div className="mb-4 flex gap-1 rounded-xl border border-slate-800 bg-slate-950 p-1" role="tablist">
+          {(Object.keys(RANKED_MODE_LABELS) as RankedMode[]).map((mode) => (
+            <button
+              key={mode}
+              role="tab"
+              aria-selected={tab === mode}
+              onClick={() => setTab(mode)}
+              className={classNames(
+                "flex-1 rounded-lg px-3 py-1.5 text-xs font-bold transition",
+                tab === mode ? "bg-sky-500 text-slate-950" : "text-slate-400 hover:text-slate-200"
+              )}
+            >
+              {RANKED_MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
         <div className="relative min-h-0 flex-1">
           <div ref={listRef} className="leaderboard-scroll h-full overflow-y-auto pb-14 pr-1">
             {leaderboard.length === 0 ? (
@@ -1951,7 +5678,7 @@ function LeaderboardModal({ leaderboard, online, playerProfile, playerStanding,
                 })}
               </ol>
             )}
-            {online && playerStanding && !leaderboard.some((e: any) => e.deviceId === playerProfile.deviceId || e.name === playerProfile.username) && (
+            {isClassic && online && playerStanding && !leaderboard.some((e: any) => e.deviceId === playerProfile.deviceId || e.name === playerProfile.username) && (
               <div className="mt-4 border-t border-slate-800 pt-4"><p className="mb-2 text-[11px] font-black uppercase tracking-[0.16em] text-slate-500">Your position</p><div className="flex items-center justify-between rounded-lg border border-sky-400/80 bg-sky-500/10 px-3 py-2"><span className="text-sm"><span className="mr-2 rounded bg-slate-800 px-2 py-0.5 text-xs">#{playerStanding.rank}</span>{playerStanding.name}</span><span className="text-sm font-semibold text-sky-400">{playerStanding.score}</span></div></div>
             )}
           </div>
@@ -1967,19 +5694,188 @@ function LeaderboardModal({ leaderboard, online, playerProfile, playerStanding,
             </button>
           )}
         </div>
-        <div className="mt-4 text-right">
+        {isClassic && <div className="mt-4 text-right">
           <button
             onClick={onReset}
             className="text-xs text-slate-400 underline decoration-dotted underline-offset-4 hover:text-slate-200"
           >
             Clear offline scores
           </button>
-        </div>
+        </div>}
       </div>
     </div>
   );
 }
 
+function StatsScreen({ onBackToMenu }: { onBackToMenu: () => void }) {
+  const [history, setHistory] = useState<RunRecord[] | null>(null);
+  const [trendMode, setTrendMode] = useState<QuizMode>("classic");
+
+  useEffect(() => {
+    readRunHistory()
+      .then((records) => {
+        setHistory(records);
+        const latest = records[records.length - 1];
+        if (latest && !records.some((record) => record.mode === "classic")) setTrendMode(latest.mode);
+      })
+      .catch(() => setHistory([]));
+  }, []);
+
+  const summary = useMemo(() => summarizeHistory(history || []), [history]);
+  const confused = useMemo(() => topConfusions(readConfusions()), []);
+  const playedModes = Object.keys(MODE_LABELS).filter((mode) => history?.some((record) => record.mode === mode)) as QuizMode[];
+  const trend = (history || []).filter((record) => record.mode === trendMode).slice(-STATS_TREND_RUNS);
+  const trendMax = Math.max(1, ...trend.map((record) => record.score));
+
+  function exportHistory() {
+    const blob = new Blob([JSON.stringify(history || [], null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `airplane-spotter-history-${utcDateKey()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <main className="mx-auto max-w-4xl px-4 py-6">
+      <div className="mb-5 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onBackToMenu}
+            aria-label="Back to menu"
+            title="Back to menu"
+            className="inline-flex h-10 w-10 items-center justify-center rounded-lg border border-slate-800 bg-slate-900 text-slate-100 hover:border-sky-500/50"
+          >
+            <svg aria-hidden="true" viewBox="0 0 24 24" className="h-5 w-5" fill="none" stroke="currentColor" strokeWidth="2.2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M15 18 9 12l6-6" />
+            </svg>
+          </button>
+          <h2 className="text-xl font-semibold">Your stats</h2>
+        </div>
+        <button
+          onClick={exportHistory}
+          disabled={!history?.length}
+          className="rounded-lg border border-slate-700 px-3 py-2 text-sm font-semibold hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Export history
+        </button>
+      </div>
+
+      {history === null ? (
+        <p className="text-sm text-slate-400">Loading your rounds…</p>
+      ) : history.length === 0 ? (
+        <p className="rounded-xl border border-slate-800 bg-slate-900/60 p-6 text-center text-sm text-slate-400">
+          Finish a round and it will show up here. History stays in this browser.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <section className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            {TYPES.map((type) => {
+              const { correct, total } = summary.accuracy[type];
+              return (
+                <div key={type} className="rounded-xl border border-slate-800 bg-slate-900/60 p-4">
+                  <p className="text-xs font-bold uppercase tracking-[0.14em] text-slate-400">{type}</p>
+                  <p className="mt-1 text-2xl font-black text-white">{total ? `${Math.round((correct / total) * 100)}%` : "—"}</p>
+                  <p className="text-xs text-slate-500">{correct} of {total} right</p>
+                </div>
+              );
+            })}
+          </section>
+
+          <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-4 text-sm text-slate-300">
+            {history.length} {history.length === 1 ? "round" : "rounds"} played · average answer time{" "}
+            <span className="font-bold text-white">{summary.averageMs === null ? "—" : `${(summary.averageMs / 1000).toFixed(1)}s`}</span>
+          </section>
+
+          <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-4">
+            <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+              <h3 className="font-semibold text-white">Score trend</h3>
+              <select
+                value={trendMode}
+                onChange={(event) => setTrendMode(event.target.value as QuizMode)}
+                className="rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm"
+              >
+                {playedModes.map((mode) => <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>)}
+              </select>
+            </div>
+            {trend.length ? (
+              <div className="flex h-32 items-end gap-1">
+                {trend.map((record) => (
+                  <div
+                    key={record.id}
+                    title={`${record.score} · ${new Date(record.date).toLocaleDateString()}`}
+                    className="flex-1 rounded-t bg-sky-500/70"
+                    style={{ height: `${Math.max(4, (record.score / trendMax) * 100)}%` }}
+                  />
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-400">No {MODE_LABELS[trendMode]} rounds yet.</p>
+            )}
+            <p className="mt-2 text-xs text-slate-500">Last {STATS_TREND_RUNS} rounds, oldest on the left.</p>
+          </section>
+
+          <section className="rounded-xl border border-slate-800 bg-slate-900/60 p-4">
+            <h3 className="mb-3 font-semibold text-white">Most missed</h3>
+            {summary.mostMissed.length ? (
+              <ol className="space-y-1 text-sm">
+                {summary.mostMissed.map(({ aircraft, seen, missed }) => (
+                  <li key={aircraft.id} className="flex justify-between gap-3">
+                    <span className="truncate text-slate-200">{aircraft.model}</span>
+                    <span className="shrink-0 text-rose-300">missed {missed} of {seen}</span>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-sm text-slate-400">Nothing missed yet.</p>
+            )}
+          </section>
+        </div>
+      )}
+
+      {confused.length > 0 && (
+        <section className="mt-4 rounded-xl border border-slate-800 bg-slate-900/60 p-4">
+          <h3 className="font-semibold text-white">Commonly confused</h3>
+          <p className="mt-1 text-xs text-slate-400">The aircraft on the left was shown; you picked the one on the right.</p>
+          <ol className="mt-3 space-y-3">
+            {confused.map(({ correct, picked, count }) => (
+              <li key={`${correct.id}>${picked.id}`} className="rounded-xl border border-slate-800 bg-slate-950/60 p-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <AircraftThumb a={correct} tone="text-emerald-300" />
+                  <AircraftThumb a={picked} tone="text-rose-300" />
+                </div>
+                <p className="mt-2 text-center text-xs text-slate-400">Confused {count} {count === 1 ? "time" : "times"}</p>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+    </main>
+  );
+}
+
+function AircraftThumb({ a, tone }: { a: Aircraft; tone: string }) {
+  const [img, setImg] = useState<string | null>(null);
+  useEffect(() => {
+    let active = true;
+    void fetchImageForAircraft(a).then((url) => {
+      if (active) setImg(url);
+    });
+    return () => {
+      active = false;
+    };
+  }, [a.id]);
+  return (
+    <figure className="min-w-0">
+      <div className="aspect-video overflow-hidden rounded-lg bg-slate-900">
+        {img && <img src={img} alt={a.model} className="h-full w-full object-cover" />}
+      </div>
+      <figcaption className={classNames("mt-1 truncate text-sm font-semibold", tone)}>{a.model}</figcaption>
+    </figure>
+  );
+}
+
 function LearnModeScreen({ db, enabledTypes, setEnabledTypes, onBackToMenu }: any) {
   const [q, setQ] = useState("");
   const enabled = new Set(
@@ -1993,6 +5889,7 @@ function LearnModeScreen({ db, enabledTypes, setEnabledTypes, onBackToMenu }: an
           a.specs.role.toLowerCase().includes(q.toLowerCase()))
     );
   }, [db, q, enabledTypes]);
+  const mastery = useMemo(() => readMastery(), []);
 
   return (
     <main className="mx-auto max-w-6xl px-4 py-6">
@@ -2050,14 +5947,14 @@ function LearnModeScreen({ db, enabledTypes, setEnabledTypes, onBackToMenu }: an
 
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
         {list.map((a: Aircraft) => (
-          <LearnCard key={a.id} a={a} />
+          <LearnCard key={a.id} a={a} mastery={mastery[a.id]?.box || 0} />
         ))}
       </div>
     </main>
   );
 }
 
-function LearnCard({ a }: { a: Aircraft }) {
+function LearnCard({ a, mastery }: { a: Aircraft; mastery?: number }) {
   const [img, setImg] = useState<string | null>(null);
   const mounted = useRef(false);
   const wikipediaUrl = `https://en.wikipedia.org/wiki/${encodeURIComponent(
@@ -2091,6 +5988,17 @@ function LearnCard({ a }: { a: Aircraft }) {
         <div className="absolute bottom-2 left-2 rounded bg-slate-950/70 px-2 py-1 text-xs capitalize text-slate-200 ring-1 ring-slate-800">
           {a.type}
         </div>
+        {mastery !== undefined && (
+          <div
+            title="Mastery from your answers; Practice weak spots brings back the lowest levels first"
+            className={classNames(
+              "absolute right-2 top-2 rounded px-2 py-1 text-xs font-semibold ring-1",
+              mastery >= 4 ? "bg-emerald-500/20 text-emerald-200 ring-emerald-500/40" : mastery >= 2 ? "bg-sky-500/20 text-sky-200 ring-sky-500/40" : "bg-slate-950/70 text-slate-300 ring-slate-800"
+            )}
+          >
+            {MASTERY_LEVELS[mastery]}
+          </div>
+        )}
       </div>
       <div className="flex flex-1 flex-col p-4">
         <div className="text-sm font-semibold">{a.model}</div>
@@ -2133,10 +6041,7 @@ function LearnCard({ a }: { a: Aircraft }) {
 
     // New tests: exactly 4 options logic and fixed 15s timer
     const correct = AIRCRAFT_DB[0];
-    const distractors = shuffle(
-      AIRCRAFT_DB.filter((a) => a.id !== correct.id)
-    ).slice(0, OPTIONS_PER_QUESTION - 1);
-    const opts = shuffle([correct, ...distractors]);
+    const opts = buildOptions(correct, AIRCRAFT_DB);
     console.assert(
       opts.length === OPTIONS_PER_QUESTION,
       "Exactly 4 options are produced"
@@ -2149,6 +6054,84 @@ function LearnCard({ a }: { a: Aircraft }) {
       QUIZ_DEFAULTS.questionTimeSec === 15,
       "Timer is fixed at 15 seconds"
     );
+    console.assert(
+      buildSeededRound("custom", AIRCRAFT_DB.slice(0, 8), 3, "normal", 6).every((question) => question.options.length === 6),
+      "Custom quizzes can ask for more choices"
+    );
+    console.assert(
+      CAMPAIGN_TIERS.every((tier) => tier.aircraftIds.every((id) => AIRCRAFT_DB.some((a) => a.id === id))),
+      "Every career tier lists known aircraft"
+    );
+
+    // Fallback drawings are shared per class and must never name the aircraft.
+    console.assert(
+      AIRCRAFT_DB.every((a) => !decodeURIComponent(silhouetteFor(a)).includes(a.model)),
+      "Silhouettes never render the model name"
+    );
+
+    // A dark block on a flat backdrop masks to exactly that block.
+    const frame = new Uint8ClampedArray(5 * 5 * 4);
+    for (let p = 0; p < 25; p++) {
+      const inside = p % 5 > 0 && p % 5 < 4 && p > 4 && p < 20;
+      frame.set(inside ? [40, 40, 40, 255] : [200, 220, 255, 255], p * 4);
+    }
+    const mask = silhouetteMask(frame, 5, 5);
+    console.assert(
+      mask.every((value, p) => value === (p % 5 > 0 && p % 5 < 4 && p > 4 && p < 20 ? 1 : 0)),
+      "Silhouette mask separates shape from backdrop"
+    );
+
+    console.assert(
+      zoomStage(15, 15) === 0 && zoomStage(0, 15) === ZOOM_REVEAL_SCHEDULE.length - 1,
+      "Zoom reveal runs from the tightest crop to the full photo"
+    );
+
+    const places = rankTallies([
+      { ...newTally("A"), score: 300 },
+      { ...newTally("B"), score: 500 },
+      { ...newTally("C"), score: 300 },
+    ]).map((tally) => `${tally.name}${tally.place}`);
+    console.assert(places.join(",") === "B1,A2,C2", "Tied players share a podium place");
+
+    // Seeded rounds must match across players for the same seed.
+    const roundA = buildSeededRound("daily:2025-01-01", AIRCRAFT_DB, 10);
+    const roundB = buildSeededRound("daily:2025-01-01", AIRCRAFT_DB, 10);
+    const roundC = buildSeededRound("daily:2025-01-02", AIRCRAFT_DB, 10);
+    const signature = (round: RoundQuestion[]) =>
+      round.map((q) => q.options.map((o) => o.id).join(",")).join("|");
+    console.assert(signature(roundA) === signature(roundB), "Same seed yields the same round");
+    console.assert(signature(roundA) !== signature(roundC), "Different seeds yield different rounds");
+    const b738 = AIRCRAFT_DB.find((a) => a.id === "b738")!;
+    console.assert(gradeTypedAnswer("boeing 737 800", b738) === "correct", "Typed answers ignore case and hyphens");
+    console.assert(gradeTypedAnswer("Boeing 737", b738) === "partial", "A family name earns partial credit");
+    console.assert(gradeTypedAnswer("737-900ER", b738) === "wrong", "Another variant is not a typo");
+    console.assert(
+      AIRCRAFT_DB.every((a) => !aircraftClue(a).fact || !aircraftClue(a).fact!.includes(a.model)),
+      "Spec clues never print the model name"
+    );
+    const a320 = AIRCRAFT_DB.find((a) => a.id === "a20n")!;
+    console.assert(
+      buildOptions(a320, AIRCRAFT_DB, Math.random, "expert").every((o) => aircraftSimilarity(a320, o) >= aircraftSimilarity(a320, AIRCRAFT_DB.find((a) => a.id === "c172")!)),
+      "Expert distractors are closer look-alikes than unrelated aircraft"
+    );
+    const challenge = { seed: "k3x9q", types: ["commercial", "vintage"], name: "Kestrel482", score: 1840 };
+    console.assert(
+      isValidChallenge(decodeHashPayload(encodeHashPayload(challenge))),
+      "Challenge links survive a hash round trip"
+    );
+    console.assert(
+      !isValidChallenge({ ...challenge, ghost: "../runs" }),
+      "Challenge links only carry run IDs as ghosts"
+    );
+    console.assert(
+      topConfusions({ "b738>a20n": 2, "b738>retired": 5 }).length === 1,
+      "Confused pairs skip aircraft no longer in the database"
+    );
+    const [due, unseen] = AIRCRAFT_DB;
+    console.assert(
+      practiceQueue([unseen, due], { [due.id]: { box: 1, due: 0 } })[0] === due,
+      "Practice brings back a due Learning aircraft before an unseen one"
+    );
   } catch (e) {
     // no-op in production
   }
@@ -1,6 +1,8 @@
 export type Aircraft = {
   id: string;
   model: string;
+  // Other names a spotter might type for this exact aircraft.
+  aliases?: string[];
   type: "commercial" | "military" | "vintage" | "general";
   wikiTitle?: string;
   fact: string;
@@ -16,6 +18,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "b738",
     model: "Boeing 737-800",
+    aliases: ["737-800", "737NG", "B738"],
     type: "commercial",
     wikiTitle: "Boeing 737 Next Generation",
     fact: "A best-selling narrow-body widely used on short and medium-haul routes.",
@@ -24,6 +27,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "b38m",
     model: "Boeing 737 MAX 8",
+    aliases: ["737 MAX", "737 MAX 8", "B38M"],
     type: "commercial",
     wikiTitle: "Boeing 737 MAX",
     fact: "A re-engined 737 variant fitted with CFM LEAP-1B engines.",
@@ -32,6 +36,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "b752",
     model: "Boeing 757-200",
+    aliases: ["757", "B752"],
     type: "commercial",
     wikiTitle: "Boeing 757",
     fact: "Known for strong runway performance and a tall, narrow landing gear stance.",
@@ -40,6 +45,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "b763",
     model: "Boeing 767-300ER",
+    aliases: ["767", "B763"],
     type: "commercial",
     wikiTitle: "Boeing 767",
     fact: "A twin-aisle long-range airliner often used for transatlantic services.",
@@ -48,6 +54,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "b744",
     model: "Boeing 747-400",
+    aliases: ["747-400", "Jumbo Jet", "Queen of the Skies", "B744"],
     type: "commercial",
     wikiTitle: "Boeing 747-400",
     fact: "The iconic Queen of the Skies has a distinctive hump-backed upper deck.",
@@ -56,6 +63,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "b77w",
     model: "Boeing 777-300ER",
+    aliases: ["777-300ER", "Triple Seven", "B77W"],
     type: "commercial",
     wikiTitle: "Boeing 777",
     fact: "A long-range twinjet known for large GE90 engines and high efficiency.",
@@ -64,6 +72,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "b789",
     model: "Boeing 787-9",
+    aliases: ["787-9", "Dreamliner", "B789"],
     type: "commercial",
     wikiTitle: "Boeing 787 Dreamliner",
     fact: "A composite-rich Dreamliner variant with excellent range and cabin comfort.",
@@ -72,6 +81,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "a20n",
     model: "Airbus A320neo",
+    aliases: ["A320 neo", "A20N"],
     type: "commercial",
     wikiTitle: "Airbus A320neo family",
     fact: "The neo family uses newer engines and wingtip devices to reduce fuel burn.",
@@ -80,6 +90,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "a21n",
     model: "Airbus A321neo",
+    aliases: ["A321 neo", "A21N"],
     type: "commercial",
     wikiTitle: "Airbus A321neo",
     fact: "A stretched A320 family member popular for high-density and longer thin routes.",
@@ -88,6 +99,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "a332",
     model: "Airbus A330-200",
+    aliases: ["A330", "A332"],
     type: "commercial",
     wikiTitle: "Airbus A330",
     fact: "A shorter A330 variant with long range and a wide-body twin-engine layout.",
@@ -96,6 +108,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "a339",
     model: "Airbus A330-900neo",
+    aliases: ["A330neo", "A339"],
     type: "commercial",
     wikiTitle: "Airbus A330neo",
     fact: "A modernized A330 with new wings and Rolls-Royce Trent 7000 engines.",
@@ -104,6 +117,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "a359",
     model: "Airbus A350-900",
+    aliases: ["A350", "A359"],
     type: "commercial",
     wikiTitle: "Airbus A350",
     fact: "An advanced composite twinjet with distinctive curved winglets.",
@@ -112,6 +126,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "a388",
     model: "Airbus A380-800",
+    aliases: ["A380", "Superjumbo", "A388"],
     type: "commercial",
     wikiTitle: "Airbus A380",
     fact: "The world's largest passenger airliner has two full-length passenger decks.",
@@ -120,6 +135,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "e175",
     model: "Embraer E175",
+    aliases: ["ERJ-175", "E175"],
     type: "commercial",
     wikiTitle: "Embraer E-Jet family",
     fact: "A popular regional jet with a comfortable two-by-two cabin layout.",
@@ -128,6 +144,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "e190e2",
     model: "Embraer E190-E2",
+    aliases: ["E190-E2", "E2"],
     type: "commercial",
     wikiTitle: "Embraer E-Jet E2 family",
     fact: "A second-generation E-Jet optimized for regional efficiency.",
@@ -136,6 +153,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "crj900",
     model: "Bombardier CRJ900",
+    aliases: ["CRJ-900", "CRJ9"],
     type: "commercial",
     wikiTitle: "Bombardier CRJ700 series",
     fact: "A stretched regional jet commonly seen on feeder routes.",
@@ -144,6 +162,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "atr726",
     model: "ATR 72-600",
+    aliases: ["ATR72"],
     type: "commercial",
     wikiTitle: "ATR 72",
     fact: "A popular turboprop for short-haul regional routes.",
@@ -152,6 +171,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "q400",
     model: "De Havilland Canada Dash 8 Q400",
+    aliases: ["Q400", "Dash 8-400"],
     type: "commercial",
     wikiTitle: "De Havilland Canada Dash 8",
     fact: "A fast regional turboprop with six-blade propellers.",
@@ -162,6 +182,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "f16",
     model: "F-16 Fighting Falcon",
+    aliases: ["F-16", "Viper", "Fighting Falcon"],
     type: "military",
     wikiTitle: "General Dynamics F-16 Fighting Falcon",
     fact: "An agile multirole fighter famed for its bubble canopy and fly-by-wire controls.",
@@ -170,6 +191,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "f15",
     model: "F-15 Eagle",
+    aliases: ["F-15", "Eagle"],
     type: "military",
     wikiTitle: "McDonnell Douglas F-15 Eagle",
     fact: "A twin-engine air-superiority fighter with a long combat record.",
@@ -178,6 +200,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "f18",
     model: "F/A-18E Super Hornet",
+    aliases: ["F/A-18", "F-18", "Hornet", "Super Hornet"],
     type: "military",
     wikiTitle: "Boeing F/A-18E/F Super Hornet",
     fact: "A carrier-capable strike fighter used by the United States Navy.",
@@ -186,6 +209,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "f22",
     model: "F-22 Raptor",
+    aliases: ["F-22", "Raptor"],
     type: "military",
     wikiTitle: "Lockheed Martin F-22 Raptor",
     fact: "A stealth air-superiority fighter with supercruise capability.",
@@ -194,6 +218,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "f35",
     model: "F-35A Lightning II",
+    aliases: ["F-35", "Lightning II", "JSF"],
     type: "military",
     wikiTitle: "Lockheed Martin F-35 Lightning II",
     fact: "A fifth-generation stealth fighter with advanced sensor fusion.",
@@ -202,6 +227,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "a10",
     model: "A-10 Thunderbolt II",
+    aliases: ["A-10", "Warthog", "Thunderbolt II"],
     type: "military",
     wikiTitle: "Fairchild Republic A-10 Thunderbolt II",
     fact: "A close air support aircraft built around a powerful 30 mm cannon.",
@@ -210,6 +236,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "b2",
     model: "B-2 Spirit",
+    aliases: ["B-2", "Stealth Bomber"],
     type: "military",
     wikiTitle: "Northrop Grumman B-2 Spirit",
     fact: "A flying-wing stealth bomber designed to penetrate defended airspace.",
@@ -218,6 +245,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "b52",
     model: "B-52 Stratofortress",
+    aliases: ["B-52", "BUFF"],
     type: "military",
     wikiTitle: "Boeing B-52 Stratofortress",
     fact: "A long-serving strategic bomber with eight engines mounted in four pods.",
@@ -226,6 +254,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "c130j",
     model: "C-130J Super Hercules",
+    aliases: ["C-130J", "Super Hercules"],
     type: "military",
     wikiTitle: "Lockheed Martin C-130J Super Hercules",
     fact: "A tactical airlifter renowned for short and rough-field performance.",
@@ -234,6 +263,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "c17",
     model: "C-17 Globemaster III",
+    aliases: ["C-17", "Globemaster"],
     type: "military",
     wikiTitle: "Boeing C-17 Globemaster III",
     fact: "A large military transport designed for strategic and tactical airlift.",
@@ -242,6 +272,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "typhoon",
     model: "Eurofighter Typhoon",
+    aliases: ["Typhoon", "EF2000"],
     type: "military",
     wikiTitle: "Eurofighter Typhoon",
     fact: "A delta-canard multirole fighter developed by a European consortium.",
@@ -250,6 +281,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "rafale",
     model: "Dassault Rafale",
+    aliases: ["Rafale"],
     type: "military",
     wikiTitle: "Dassault Rafale",
     fact: "A highly agile French multirole fighter with carrier-capable variants.",
@@ -258,6 +290,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "su27",
     model: "Sukhoi Su-27",
+    aliases: ["Su-27", "Flanker"],
     type: "military",
     wikiTitle: "Sukhoi Su-27",
     fact: "A large twin-engine fighter recognized for its blended wing-body shape.",
@@ -266,6 +299,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "mig29",
     model: "Mikoyan MiG-29",
+    aliases: ["MiG-29", "Fulcrum"],
     type: "military",
     wikiTitle: "Mikoyan MiG-29",
     fact: "A Soviet-designed fighter with widely spaced engines and high agility.",
@@ -274,6 +308,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "uh60",
     model: "UH-60 Black Hawk",
+    aliases: ["UH-60", "Black Hawk", "Blackhawk"],
     type: "military",
     wikiTitle: "Sikorsky UH-60 Black Hawk",
     fact: "A utility helicopter used for troop transport, rescue, and support missions.",
@@ -284,6 +319,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "dc3",
     model: "Douglas DC-3",
+    aliases: ["DC-3", "Dakota", "C-47"],
     type: "vintage",
     wikiTitle: "Douglas DC-3",
     fact: "A 1930s airliner that helped make passenger air travel practical.",
@@ -292,6 +328,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "constellation",
     model: "Lockheed Constellation",
+    aliases: ["Connie"],
     type: "vintage",
     wikiTitle: "Lockheed Constellation",
     fact: "An elegant piston airliner known for its curved fuselage and triple tail.",
@@ -300,6 +337,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "707",
     model: "Boeing 707",
+    aliases: ["707"],
     type: "vintage",
     wikiTitle: "Boeing 707",
     fact: "An early successful jet airliner that popularized intercontinental jet travel.",
@@ -308,6 +346,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "727",
     model: "Boeing 727",
+    aliases: ["727"],
     type: "vintage",
     wikiTitle: "Boeing 727",
     fact: "A three-engine jet airliner with a T-tail and rear-mounted engines.",
@@ -332,6 +371,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "spitfire",
     model: "Supermarine Spitfire",
+    aliases: ["Spitfire"],
     type: "vintage",
     wikiTitle: "Supermarine Spitfire",
     fact: "A World War II fighter famous for its elliptical wing planform.",
@@ -340,6 +380,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "p51",
     model: "North American P-51 Mustang",
+    aliases: ["P-51", "Mustang"],
     type: "vintage",
     wikiTitle: "North American P-51 Mustang",
     fact: "A long-range World War II escort fighter renowned for speed and range.",
@@ -348,6 +389,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "b17",
     model: "Boeing B-17 Flying Fortress",
+    aliases: ["B-17", "Flying Fortress"],
     type: "vintage",
     wikiTitle: "Boeing B-17 Flying Fortress",
     fact: "A four-engine heavy bomber used extensively during World War II.",
@@ -356,6 +398,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "b29",
     model: "Boeing B-29 Superfortress",
+    aliases: ["B-29", "Superfortress"],
     type: "vintage",
     wikiTitle: "Boeing B-29 Superfortress",
     fact: "An advanced World War II bomber with pressurized crew compartments.",
@@ -364,6 +407,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "ju52",
     model: "Junkers Ju 52",
+    aliases: ["Ju 52", "Tante Ju"],
     type: "vintage",
     wikiTitle: "Junkers Ju 52",
     fact: "A corrugated-metal transport aircraft recognized by its three engines.",
@@ -372,6 +416,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "an2",
     model: "Antonov An-2",
+    aliases: ["An-2"],
     type: "vintage",
     wikiTitle: "Antonov An-2",
     fact: "A rugged single-engine biplane used for utility and agricultural work.",
@@ -382,6 +427,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "c172",
     model: "Cessna 172 Skyhawk",
+    aliases: ["Cessna 172", "C172", "Skyhawk"],
     type: "general",
     wikiTitle: "Cessna 172",
     fact: "One of the most produced aircraft ever and a staple of flight training.",
@@ -390,6 +436,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "c182",
     model: "Cessna 182 Skylane",
+    aliases: ["Cessna 182", "C182", "Skylane"],
     type: "general",
     wikiTitle: "Cessna 182 Skylane",
     fact: "A four-seat single-engine aircraft known for useful load and versatility.",
@@ -398,6 +445,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "pa28",
     model: "Piper PA-28 Cherokee",
+    aliases: ["PA-28", "Cherokee"],
     type: "general",
     wikiTitle: "Piper PA-28 Cherokee",
     fact: "A widely used training and personal aircraft with low-mounted wings.",
@@ -406,6 +454,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "sr22",
     model: "Cirrus SR22",
+    aliases: ["SR22", "SR-22"],
     type: "general",
     wikiTitle: "Cirrus SR22",
     fact: "A high-performance GA aircraft known for its whole-airframe parachute system.",
@@ -414,6 +463,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "kingair350",
     model: "Beechcraft King Air 350",
+    aliases: ["King Air 350"],
     type: "general",
     wikiTitle: "Beechcraft King Air",
     fact: "A popular twin-turboprop used for business, utility, and special missions.",
@@ -422,6 +472,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "pc12",
     model: "Pilatus PC-12",
+    aliases: ["PC-12"],
     type: "general",
     wikiTitle: "Pilatus PC-12",
     fact: "A single-engine turboprop valued for short-field utility and cabin flexibility.",
@@ -430,6 +481,7 @@ export const AIRCRAFT_DB: Aircraft[] = [
   {
     id: "tbm900",
     model: "Daher TBM 900",
+    aliases: ["TBM 900"],
     type: "general",
     wikiTitle: "Daher TBM 900",
     fact: "A fast single-engine turboprop with business-aircraft performance.",
@@ -476,102 +528,188 @@ export const AIRCRAFT_DB: Aircraft[] = [
     specs: { role: "Pressurized GA aircraft", firstFlight: "1979", engines: "1 x piston or turboprop" },
   },
   // Expanded aircraft pool
-  { id: "e190", model: "Embraer E190", type: "commercial", wikiTitle: "Embraer E-Jet family", fact: "A regional jet with a comfortable four-abreast cabin.", specs: { role: "Regional jet", firstFlight: "2004", engines: "2 x GE CF34" } },
-  { id: "crj900", model: "Bombardier CRJ900", type: "commercial", wikiTitle: "Bombardier CRJ700 series", fact: "A stretched regional jet recognizable by its T-tail and rear engines.", specs: { role: "Regional jet", firstFlight: "2001", engines: "2 x CF34" } },
-  { id: "atr72", model: "ATR 72", type: "commercial", wikiTitle: "ATR 72", fact: "A twin-turboprop commuter aircraft built for short regional routes.", specs: { role: "Turboprop airliner", firstFlight: "1988", engines: "2 x PW127" } },
-  { id: "il76", model: "Ilyushin Il-76", type: "commercial", wikiTitle: "Ilyushin Il-76", fact: "A rugged high-wing cargo aircraft with four engines.", specs: { role: "Cargo aircraft", firstFlight: "1971", engines: "4 x turbofan" } },
-  { id: "f15", model: "McDonnell Douglas F-15 Eagle", type: "military", wikiTitle: "McDonnell Douglas F-15 Eagle", fact: "A powerful twin-tail air-superiority fighter.", specs: { role: "Air-superiority fighter", firstFlight: "1972", engines: "2 x F100" } },
-  { id: "f22", model: "Lockheed Martin F-22 Raptor", type: "military", wikiTitle: "Lockheed Martin F-22 Raptor", fact: "A stealth fighter combining supercruise, thrust vectoring, and agility.", specs: { role: "Stealth fighter", firstFlight: "1997", engines: "2 x F119" } },
-  { id: "f35", model: "Lockheed Martin F-35 Lightning II", type: "military", wikiTitle: "Lockheed Martin F-35 Lightning II", fact: "A single-engine stealth fighter produced in three variants.", specs: { role: "Multirole stealth fighter", firstFlight: "2006", engines: "1 x F135" } },
-  { id: "su57", model: "Sukhoi Su-57", type: "military", wikiTitle: "Sukhoi Su-57", fact: "A Russian twin-engine fighter with blended stealth shaping.", specs: { role: "Multirole fighter", firstFlight: "2010", engines: "2 x turbofan" } },
-  { id: "mig29", model: "Mikoyan MiG-29", type: "military", wikiTitle: "Mikoyan MiG-29", fact: "A compact Soviet fighter with widely spaced engines and twin tails.", specs: { role: "Air-superiority fighter", firstFlight: "1977", engines: "2 x turbofan" } },
-  { id: "a10", model: "Fairchild Republic A-10 Thunderbolt II", type: "military", wikiTitle: "Fairchild Republic A-10 Thunderbolt II", fact: "The famous ground-attack aircraft with twin engines mounted high on its rear fuselage.", specs: { role: "Close-air-support aircraft", firstFlight: "1972", engines: "2 x TF34" } },
-  { id: "c17", model: "Boeing C-17 Globemaster III", type: "military", wikiTitle: "Boeing C-17 Globemaster III", fact: "A strategic airlifter with a high wing, T-tail, and rear loading ramp.", specs: { role: "Strategic airlifter", firstFlight: "1991", engines: "4 x F117" } },
-  { id: "spitfire", model: "Supermarine Spitfire", type: "vintage", wikiTitle: "Supermarine Spitfire", fact: "Its elliptical wing is one of the most recognizable shapes in aviation.", specs: { role: "Fighter", firstFlight: "1936", engines: "1 x Merlin piston" } },
-  { id: "me109", model: "Messerschmitt Bf 109", type: "vintage", wikiTitle: "Messerschmitt Bf 109", fact: "A compact fighter with a narrow fuselage and distinctive squared tail.", specs: { role: "Fighter", firstFlight: "1935", engines: "1 x piston" } },
-  { id: "dc4", model: "Douglas DC-4", type: "vintage", wikiTitle: "Douglas DC-4", fact: "A four-engine piston airliner that helped establish long-distance routes.", specs: { role: "Piston airliner", firstFlight: "1938", engines: "4 x radial" } },
+  { id: "e190", model: "Embraer E190", aliases: ["ERJ-190"], type: "commercial", wikiTitle: "Embraer E-Jet family", fact: "A regional jet with a comfortable four-abreast cabin.", specs: { role: "Regional jet", firstFlight: "2004", engines: "2 x GE CF34" } },
+  { id: "crj900", model: "Bombardier CRJ900", aliases: ["CRJ-900", "CRJ9"], type: "commercial", wikiTitle: "Bombardier CRJ700 series", fact: "A stretched regional jet recognizable by its T-tail and rear engines.", specs: { role: "Regional jet", firstFlight: "2001", engines: "2 x CF34" } },
+  { id: "atr72", model: "ATR 72", aliases: ["ATR72"], type: "commercial", wikiTitle: "ATR 72", fact: "A twin-turboprop commuter aircraft built for short regional routes.", specs: { role: "Turboprop airliner", firstFlight: "1988", engines: "2 x PW127" } },
+  { id: "il76", model: "Ilyushin Il-76", aliases: ["Il-76", "Candid"], type: "commercial", wikiTitle: "Ilyushin Il-76", fact: "A rugged high-wing cargo aircraft with four engines.", specs: { role: "Cargo aircraft", firstFlight: "1971", engines: "4 x turbofan" } },
+  { id: "f15", model: "McDonnell Douglas F-15 Eagle", aliases: ["F-15", "Eagle"], type: "military", wikiTitle: "McDonnell Douglas F-15 Eagle", fact: "A powerful twin-tail air-superiority fighter.", specs: { role: "Air-superiority fighter", firstFlight: "1972", engines: "2 x F100" } },
+  { id: "f22", model: "Lockheed Martin F-22 Raptor", aliases: ["F-22", "Raptor"], type: "military", wikiTitle: "Lockheed Martin F-22 Raptor", fact: "A stealth fighter combining supercruise, thrust vectoring, and agility.", specs: { role: "Stealth fighter", firstFlight: "1997", engines: "2 x F119" } },
+  { id: "f35", model: "Lockheed Martin F-35 Lightning II", aliases: ["F-35", "Lightning II", "JSF"], type: "military", wikiTitle: "Lockheed Martin F-35 Lightning II", fact: "A single-engine stealth fighter produced in three variants.", specs: { role: "Multirole stealth fighter", firstFlight: "2006", engines: "1 x F135" } },
+  { id: "su57", model: "Sukhoi Su-57", aliases: ["Su-57", "Felon"], type: "military", wikiTitle: "Sukhoi Su-57", fact: "A Russian twin-engine fighter with blended stealth shaping.", specs: { role: "Multirole fighter", firstFlight: "2010", engines: "2 x turbofan" } },
+  { id: "mig29", model: "Mikoyan MiG-29", aliases: ["MiG-29", "Fulcrum"], type: "military", wikiTitle: "Mikoyan MiG-29", fact: "A compact Soviet fighter with widely spaced engines and twin tails.", specs: { role: "Air-superiority fighter", firstFlight: "1977", engines: "2 x turbofan" } },
+  { id: "a10", model: "Fairchild Republic A-10 Thunderbolt II", aliases: ["A-10", "Warthog", "Thunderbolt II"], type: "military", wikiTitle: "Fairchild Republic A-10 Thunderbolt II", fact: "The famous ground-attack aircraft with twin engines mounted high on its rear fuselage.", specs: { role: "Close-air-support aircraft", firstFlight: "1972", engines: "2 x TF34" } },
+  { id: "c17", model: "Boeing C-17 Globemaster III", aliases: ["C-17", "Globemaster"], type: "military", wikiTitle: "Boeing C-17 Globemaster III", fact: "A strategic airlifter with a high wing, T-tail, and rear loading ramp.", specs: { role: "Strategic airlifter", firstFlight: "1991", engines: "4 x F117" } },
+  { id: "spitfire", model: "Supermarine Spitfire", aliases: ["Spitfire"], type: "vintage", wikiTitle: "Supermarine Spitfire", fact: "Its elliptical wing is one of the most recognizable shapes in aviation.", specs: { role: "Fighter", firstFlight: "1936", engines: "1 x Merlin piston" } },
+  { id: "me109", model: "Messerschmitt Bf 109", aliases: ["Bf 109", "Me 109"], type: "vintage", wikiTitle: "Messerschmitt Bf 109", fact: "A compact fighter with a narrow fuselage and distinctive squared tail.", specs: { role: "Fighter", firstFlight: "1935", engines: "1 x piston" } },
+  { id: "dc4", model: "Douglas DC-4", aliases: ["DC-4", "C-54", "Skymaster"], type: "vintage", wikiTitle: "Douglas DC-4", fact: "A four-engine piston airliner that helped establish long-distance routes.", specs: { role: "Piston airliner", firstFlight: "1938", engines: "4 x radial" } },
   { id: "beech18", model: "Beechcraft Model 18", type: "vintage", wikiTitle: "Beechcraft Model 18", fact: "A twin-engine utility aircraft used worldwide for decades.", specs: { role: "Utility aircraft", firstFlight: "1937", engines: "2 x radial" } },
-  { id: "kingair350", model: "Beechcraft King Air 350", type: "general", wikiTitle: "Beechcraft Super King Air", fact: "A pressurized twin-turboprop with a tall tail and streamlined nacelles.", specs: { role: "Business turboprop", firstFlight: "1972", engines: "2 x PT6A" } },
-  { id: "cirrus-sr22", model: "Cirrus SR22", type: "general", wikiTitle: "Cirrus SR22", fact: "A modern single-engine aircraft known for its whole-airframe parachute.", specs: { role: "Personal aircraft", firstFlight: "2001", engines: "1 x piston" } },
-  { id: "tbm900", model: "Daher TBM 900", type: "general", wikiTitle: "Socata TBM", fact: "A fast pressurized single-engine turboprop with a sleek nose.", specs: { role: "High-performance turboprop", firstFlight: "1990", engines: "1 x PT6A" } },
+  { id: "kingair350", model: "Beechcraft King Air 350", aliases: ["King Air 350"], type: "general", wikiTitle: "Beechcraft Super King Air", fact: "A pressurized twin-turboprop with a tall tail and streamlined nacelles.", specs: { role: "Business turboprop", firstFlight: "1972", engines: "2 x PT6A" } },
+  { id: "cirrus-sr22", model: "Cirrus SR22", aliases: ["SR22", "SR-22"], type: "general", wikiTitle: "Cirrus SR22", fact: "A modern single-engine aircraft known for its whole-airframe parachute.", specs: { role: "Personal aircraft", firstFlight: "2001", engines: "1 x piston" } },
+  { id: "tbm900", model: "Daher TBM 900", aliases: ["TBM 900"], type: "general", wikiTitle: "Socata TBM", fact: "A fast pressurized single-engine turboprop with a sleek nose.", specs: { role: "High-performance turboprop", firstFlight: "1990", engines: "1 x PT6A" } },
   // More commercial aircraft
-  { id: "b717", model: "Boeing 717", type: "commercial", wikiTitle: "Boeing 717", fact: "A compact rear-engined airliner with a distinctive T-tail.", specs: { role: "Regional airliner", firstFlight: "1998", engines: "2 x BR715" } },
-  { id: "b727", model: "Boeing 727", type: "commercial", wikiTitle: "Boeing 727", fact: "A classic trijet recognizable by its center tail engine.", specs: { role: "Narrow-body airliner", firstFlight: "1963", engines: "3 x JT8D" } },
-  { id: "b737-200", model: "Boeing 737-200", type: "commercial", wikiTitle: "Boeing 737", fact: "The original 737 has compact underwing engines and a short fuselage.", specs: { role: "Narrow-body airliner", firstFlight: "1967", engines: "2 x JT8D" } },
-  { id: "b737-900", model: "Boeing 737-900ER", type: "commercial", wikiTitle: "Boeing 737 Next Generation", fact: "The longest Next Generation 737 variant.", specs: { role: "Narrow-body airliner", firstFlight: "2006", engines: "2 x CFM56" } },
-  { id: "b747-8", model: "Boeing 747-8", type: "commercial", wikiTitle: "Boeing 747-8", fact: "The final 747 generation with a stretched fuselage and raked wingtips.", specs: { role: "Wide-body airliner", firstFlight: "2010", engines: "4 x GEnx" } },
-  { id: "b777-200", model: "Boeing 777-200", type: "commercial", wikiTitle: "Boeing 777", fact: "The original 777 introduced a new generation of large twinjets.", specs: { role: "Wide-body airliner", firstFlight: "1994", engines: "2 x turbofan" } },
-  { id: "b777x", model: "Boeing 777X", type: "commercial", wikiTitle: "Boeing 777X", fact: "A large twinjet with folding wingtips for airport compatibility.", specs: { role: "Wide-body airliner", firstFlight: "2020", engines: "2 x GE9X" } },
-  { id: "b787-8", model: "Boeing 787-8", type: "commercial", wikiTitle: "Boeing 787 Dreamliner", fact: "The shortest Dreamliner variant with serrated engine nacelles.", specs: { role: "Wide-body airliner", firstFlight: "2009", engines: "2 x turbofan" } },
-  { id: "a319", model: "Airbus A319", type: "commercial", wikiTitle: "Airbus A319", fact: "A shortened A320 family aircraft used on shorter routes.", specs: { role: "Narrow-body airliner", firstFlight: "1995", engines: "2 x turbofan" } },
-  { id: "a318", model: "Airbus A318", type: "commercial", wikiTitle: "Airbus A318", fact: "The smallest member of the original A320 family.", specs: { role: "Narrow-body airliner", firstFlight: "2002", engines: "2 x turbofan" } },
-  { id: "a321xlr", model: "Airbus A321XLR", type: "commercial", wikiTitle: "Airbus A321", fact: "A long-range single-aisle aircraft with extra fuel capacity.", specs: { role: "Long-range narrow-body", firstFlight: "2022", engines: "2 x turbofan" } },
-  { id: "a340", model: "Airbus A340-300", type: "commercial", wikiTitle: "Airbus A340", fact: "A four-engine wide-body with a long slender fuselage.", specs: { role: "Wide-body airliner", firstFlight: "1991", engines: "4 x turbofan" } },
-  { id: "a350-1000", model: "Airbus A350-1000", type: "commercial", wikiTitle: "Airbus A350", fact: "The longest A350 with an elegant swept wing.", specs: { role: "Wide-body airliner", firstFlight: "2016", engines: "2 x Trent XWB" } },
-  { id: "a380f", model: "Airbus A380", type: "commercial", wikiTitle: "Airbus A380", fact: "The largest passenger airliner, with two full-length decks.", specs: { role: "Very large airliner", firstFlight: "2005", engines: "4 x turbofan" } },
+  { id: "b717", model: "Boeing 717", aliases: ["717"], type: "commercial", wikiTitle: "Boeing 717", fact: "A compact rear-engined airliner with a distinctive T-tail.", specs: { role: "Regional airliner", firstFlight: "1998", engines: "2 x BR715" } },
+  { id: "b727", model: "Boeing 727", aliases: ["727"], type: "commercial", wikiTitle: "Boeing 727", fact: "A classic trijet recognizable by its center tail engine.", specs: { role: "Narrow-body airliner", firstFlight: "1963", engines: "3 x JT8D" } },
+  { id: "b737-200", model: "Boeing 737-200", aliases: ["737-200"], type: "commercial", wikiTitle: "Boeing 737", fact: "The original 737 has compact underwing engines and a short fuselage.", specs: { role: "Narrow-body airliner", firstFlight: "1967", engines: "2 x JT8D" } },
+  { id: "b737-900", model: "Boeing 737-900ER", aliases: ["737-900ER", "737-900"], type: "commercial", wikiTitle: "Boeing 737 Next Generation", fact: "The longest Next Generation 737 variant.", specs: { role: "Narrow-body airliner", firstFlight: "2006", engines: "2 x CFM56" } },
+  { id: "b747-8", model: "Boeing 747-8", aliases: ["747-8", "B748"], type: "commercial", wikiTitle: "Boeing 747-8", fact: "The final 747 generation with a stretched fuselage and raked wingtips.", specs: { role: "Wide-body airliner", firstFlight: "2010", engines: "4 x GEnx" } },
+  { id: "b777-200", model: "Boeing 777-200", aliases: ["777-200", "B772"], type: "commercial", wikiTitle: "Boeing 777", fact: "The original 777 introduced a new generation of large twinjets.", specs: { role: "Wide-body airliner", firstFlight: "1994", engines: "2 x turbofan" } },
+  { id: "b777x", model: "Boeing 777X", aliases: ["777-9", "777X"], type: "commercial", wikiTitle: "Boeing 777X", fact: "A large twinjet with folding wingtips for airport compatibility.", specs: { role: "Wide-body airliner", firstFlight: "2020", engines: "2 x GE9X" } },
+  { id: "b787-8", model: "Boeing 787-8", aliases: ["787-8", "B788"], type: "commercial", wikiTitle: "Boeing 787 Dreamliner", fact: "The shortest Dreamliner variant with serrated engine nacelles.", specs: { role: "Wide-body airliner", firstFlight: "2009", engines: "2 x turbofan" } },
+  { id: "a319", model: "Airbus A319", aliases: ["A319"], type: "commercial", wikiTitle: "Airbus A319", fact: "A shortened A320 family aircraft used on shorter routes.", specs: { role: "Narrow-body airliner", firstFlight: "1995", engines: "2 x turbofan" } },
+  { id: "a318", model: "Airbus A318", aliases: ["A318"], type: "commercial", wikiTitle: "Airbus A318", fact: "The smallest member of the original A320 family.", specs: { role: "Narrow-body airliner", firstFlight: "2002", engines: "2 x turbofan" } },
+  { id: "a321xlr", model: "Airbus A321XLR", aliases: ["A321XLR"], type: "commercial", wikiTitle: "Airbus A321", fact: "A long-range single-aisle aircraft with extra fuel capacity.", specs: { role: "Long-range narrow-body", firstFlight: "2022", engines: "2 x turbofan" } },
+  { id: "a340", model: "Airbus A340-300", aliases: ["A340"], type: "commercial", wikiTitle: "Airbus A340", fact: "A four-engine wide-body with a long slender fuselage.", specs: { role: "Wide-body airliner", firstFlight: "1991", engines: "4 x turbofan" } },
+  { id: "a350-1000", model: "Airbus A350-1000", aliases: ["A350-1000", "A35K"], type: "commercial", wikiTitle: "Airbus A350", fact: "The longest A350 with an elegant swept wing.", specs: { role: "Wide-body airliner", firstFlight: "2016", engines: "2 x Trent XWB" } },
+  { id: "a380f", model: "Airbus A380", aliases: ["Superjumbo", "A388"], type: "commercial", wikiTitle: "Airbus A380", fact: "The largest passenger airliner, with two full-length decks.", specs: { role: "Very large airliner", firstFlight: "2005", engines: "4 x turbofan" } },
   { id: "concorde", model: "Concorde", type: "commercial", wikiTitle: "Concorde", fact: "A supersonic passenger aircraft with a slender delta wing.", specs: { role: "Supersonic airliner", firstFlight: "1969", engines: "4 x Olympus" } },
-  { id: "comac-c919", model: "COMAC C919", type: "commercial", wikiTitle: "Comac C919", fact: "A modern Chinese narrow-body competitor to the A320 and 737.", specs: { role: "Narrow-body airliner", firstFlight: "2017", engines: "2 x LEAP-1C" } },
-  { id: "ssj100", model: "Sukhoi Superjet 100", type: "commercial", wikiTitle: "Sukhoi Superjet 100", fact: "A regional jet with a high-set tailplane and rear-mounted engines.", specs: { role: "Regional jet", firstFlight: "2008", engines: "2 x SaM146" } },
-  { id: "dash8", model: "De Havilland Canada Dash 8", type: "commercial", wikiTitle: "De Havilland Canada Dash 8", fact: "A high-wing turboprop built for short regional flights.", specs: { role: "Turboprop airliner", firstFlight: "1983", engines: "2 x PW100" } },
-  { id: "fokker100", model: "Fokker 100", type: "commercial", wikiTitle: "Fokker 100", fact: "A Dutch regional jet with rear engines and a T-tail.", specs: { role: "Regional jet", firstFlight: "1986", engines: "2 x Rolls-Royce Tay" } },
+  { id: "comac-c919", model: "COMAC C919", aliases: ["C919"], type: "commercial", wikiTitle: "Comac C919", fact: "A modern Chinese narrow-body competitor to the A320 and 737.", specs: { role: "Narrow-body airliner", firstFlight: "2017", engines: "2 x LEAP-1C" } },
+  { id: "ssj100", model: "Sukhoi Superjet 100", aliases: ["Superjet"], type: "commercial", wikiTitle: "Sukhoi Superjet 100", fact: "A regional jet with a high-set tailplane and rear-mounted engines.", specs: { role: "Regional jet", firstFlight: "2008", engines: "2 x SaM146" } },
+  { id: "dash8", model: "De Havilland Canada Dash 8", aliases: ["Dash 8", "DHC-8"], type: "commercial", wikiTitle: "De Havilland Canada Dash 8", fact: "A high-wing turboprop built for short regional flights.", specs: { role: "Turboprop airliner", firstFlight: "1983", engines: "2 x PW100" } },
+  { id: "fokker100", model: "Fokker 100", aliases: ["F100"], type: "commercial", wikiTitle: "Fokker 100", fact: "A Dutch regional jet with rear engines and a T-tail.", specs: { role: "Regional jet", firstFlight: "1986", engines: "2 x Rolls-Royce Tay" } },
   // More military aircraft
-  { id: "f14", model: "Grumman F-14 Tomcat", type: "military", wikiTitle: "Grumman F-14 Tomcat", fact: "A carrier fighter famous for variable-sweep wings.", specs: { role: "Carrier fighter", firstFlight: "1970", engines: "2 x TF30" } },
-  { id: "f16", model: "General Dynamics F-16 Fighting Falcon", type: "military", wikiTitle: "General Dynamics F-16 Fighting Falcon", fact: "A lightweight fighter with a frameless bubble canopy and side intakes.", specs: { role: "Multirole fighter", firstFlight: "1974", engines: "1 x F110 or F100" } },
-  { id: "f18", model: "McDonnell Douglas F/A-18 Hornet", type: "military", wikiTitle: "McDonnell Douglas F/A-18 Hornet", fact: "A twin-tail carrier fighter with prominent leading-edge extensions.", specs: { role: "Carrier multirole fighter", firstFlight: "1978", engines: "2 x F404" } },
-  { id: "harrier", model: "Harrier", type: "military", wikiTitle: "Harrier (aircraft)", fact: "A combat jet capable of vertical and short takeoff and landing.", specs: { role: "V/STOL attack aircraft", firstFlight: "1960", engines: "1 x Pegasus" } },
-  { id: "typhoon", model: "Eurofighter Typhoon", type: "military", wikiTitle: "Eurofighter Typhoon", fact: "A canard-delta fighter with close-coupled foreplanes.", specs: { role: "Multirole fighter", firstFlight: "1994", engines: "2 x EJ200" } },
-  { id: "rafale", model: "Dassault Rafale", type: "military", wikiTitle: "Dassault Rafale", fact: "A French delta-canard multirole fighter.", specs: { role: "Multirole fighter", firstFlight: "1986", engines: "2 x M88" } },
-  { id: "mirage2000", model: "Dassault Mirage 2000", type: "military", wikiTitle: "Dassault Mirage 2000", fact: "A single-engine delta-wing fighter with a clean triangular planform.", specs: { role: "Multirole fighter", firstFlight: "1978", engines: "1 x M53" } },
+  { id: "f14", model: "Grumman F-14 Tomcat", aliases: ["F-14", "Tomcat"], type: "military", wikiTitle: "Grumman F-14 Tomcat", fact: "A carrier fighter famous for variable-sweep wings.", specs: { role: "Carrier fighter", firstFlight: "1970", engines: "2 x TF30" } },
+  { id: "f16", model: "General Dynamics F-16 Fighting Falcon", aliases: ["F-16", "Viper", "Fighting Falcon"], type: "military", wikiTitle: "General Dynamics F-16 Fighting Falcon", fact: "A lightweight fighter with a frameless bubble canopy and side intakes.", specs: { role: "Multirole fighter", firstFlight: "1974", engines: "1 x F110 or F100" } },
+  { id: "f18", model: "McDonnell Douglas F/A-18 Hornet", aliases: ["F/A-18", "F-18", "Hornet"], type: "military", wikiTitle: "McDonnell Douglas F/A-18 Hornet", fact: "A twin-tail carrier fighter with prominent leading-edge extensions.", specs: { role: "Carrier multirole fighter", firstFlight: "1978", engines: "2 x F404" } },
+  { id: "harrier", model: "Harrier", aliases: ["AV-8B", "Jump Jet"], type: "military", wikiTitle: "Harrier (aircraft)", fact: "A combat jet capable of vertical and short takeoff and landing.", specs: { role: "V/STOL attack aircraft", firstFlight: "1960", engines: "1 x Pegasus" } },
+  { id: "typhoon", model: "Eurofighter Typhoon", aliases: ["Typhoon", "EF2000"], type: "military", wikiTitle: "Eurofighter Typhoon", fact: "A canard-delta fighter with close-coupled foreplanes.", specs: { role: "Multirole fighter", firstFlight: "1994", engines: "2 x EJ200" } },
+  { id: "rafale", model: "Dassault Rafale", aliases: ["Rafale"], type: "military", wikiTitle: "Dassault Rafale", fact: "A French delta-canard multirole fighter.", specs: { role: "Multirole fighter", firstFlight: "1986", engines: "2 x M88" } },
+  { id: "mirage2000", model: "Dassault Mirage 2000", aliases: ["Mirage 2000"], type: "military", wikiTitle: "Dassault Mirage 2000", fact: "A single-engine delta-wing fighter with a clean triangular planform.", specs: { role: "Multirole fighter", firstFlight: "1978", engines: "1 x M53" } },
   { id: "mirageiii", model: "Dassault Mirage III", type: "military", wikiTitle: "Dassault Mirage III", fact: "A classic supersonic delta-wing fighter.", specs: { role: "Interceptor", firstFlight: "1956", engines: "1 x Atar" } },
-  { id: "jaguar", model: "SEPECAT Jaguar", type: "military", wikiTitle: "SEPECAT Jaguar", fact: "A low-level strike aircraft with twin engines and a slim fuselage.", specs: { role: "Attack aircraft", firstFlight: "1968", engines: "2 x Adour" } },
-  { id: "tornado", model: "Panavia Tornado", type: "military", wikiTitle: "Panavia Tornado", fact: "A swing-wing aircraft designed for low-level strike missions.", specs: { role: "Strike aircraft", firstFlight: "1974", engines: "2 x RB199" } },
+  { id: "jaguar", model: "SEPECAT Jaguar", aliases: ["Jaguar"], type: "military", wikiTitle: "SEPECAT Jaguar", fact: "A low-level strike aircraft with twin engines and a slim fuselage.", specs: { role: "Attack aircraft", firstFlight: "1968", engines: "2 x Adour" } },
+  { id: "tornado", model: "Panavia Tornado", aliases: ["Tornado"], type: "military", wikiTitle: "Panavia Tornado", fact: "A swing-wing aircraft designed for low-level strike missions.", specs: { role: "Strike aircraft", firstFlight: "1974", engines: "2 x RB199" } },
   { id: "t50", model: "North American T-6 Texan", type: "military", wikiTitle: "North American T-6 Texan", fact: "A widely used advanced trainer with a radial engine.", specs: { role: "Trainer aircraft", firstFlight: "1935", engines: "1 x radial" } },
-  { id: "yak130", model: "Yakovlev Yak-130", type: "military", wikiTitle: "Yakovlev Yak-130", fact: "A modern twin-engine advanced jet trainer.", specs: { role: "Jet trainer", firstFlight: "1996", engines: "2 x turbofan" } },
-  { id: "tu160", model: "Tupolev Tu-160", type: "military", wikiTitle: "Tupolev Tu-160", fact: "A huge supersonic bomber with variable-sweep wings.", specs: { role: "Strategic bomber", firstFlight: "1981", engines: "4 x turbofan" } },
-  { id: "tu95", model: "Tupolev Tu-95", type: "military", wikiTitle: "Tupolev Tu-95", fact: "A long-range bomber powered by four enormous contra-rotating propellers.", specs: { role: "Strategic bomber", firstFlight: "1952", engines: "4 x turboprop" } },
-  { id: "b52", model: "Boeing B-52 Stratofortress", type: "military", wikiTitle: "Boeing B-52 Stratofortress", fact: "A long-serving bomber with eight engines under a swept wing.", specs: { role: "Strategic bomber", firstFlight: "1952", engines: "8 x turbofan" } },
-  { id: "b1b", model: "Rockwell B-1B Lancer", type: "military", wikiTitle: "Rockwell B-1 Lancer", fact: "A supersonic bomber with variable-sweep wings.", specs: { role: "Strategic bomber", firstFlight: "1974", engines: "4 x turbofan" } },
+  { id: "yak130", model: "Yakovlev Yak-130", aliases: ["Yak-130"], type: "military", wikiTitle: "Yakovlev Yak-130", fact: "A modern twin-engine advanced jet trainer.", specs: { role: "Jet trainer", firstFlight: "1996", engines: "2 x turbofan" } },
+  { id: "tu160", model: "Tupolev Tu-160", aliases: ["Tu-160", "Blackjack"], type: "military", wikiTitle: "Tupolev Tu-160", fact: "A huge supersonic bomber with variable-sweep wings.", specs: { role: "Strategic bomber", firstFlight: "1981", engines: "4 x turbofan" } },
+  { id: "tu95", model: "Tupolev Tu-95", aliases: ["Tu-95"], type: "military", wikiTitle: "Tupolev Tu-95", fact: "A long-range bomber powered by four enormous contra-rotating propellers.", specs: { role: "Strategic bomber", firstFlight: "1952", engines: "4 x turboprop" } },
+  { id: "b52", model: "Boeing B-52 Stratofortress", aliases: ["B-52", "BUFF"], type: "military", wikiTitle: "Boeing B-52 Stratofortress", fact: "A long-serving bomber with eight engines under a swept wing.", specs: { role: "Strategic bomber", firstFlight: "1952", engines: "8 x turbofan" } },
+  { id: "b1b", model: "Rockwell B-1B Lancer", aliases: ["B-1B", "B-1", "Lancer"], type: "military", wikiTitle: "Rockwell B-1 Lancer", fact: "A supersonic bomber with variable-sweep wings.", specs: { role: "Strategic bomber", firstFlight: "1974", engines: "4 x turbofan" } },
   { id: "ac130", model: "Lockheed AC-130", type: "military", wikiTitle: "Lockheed AC-130", fact: "A heavily armed gunship based on a transport aircraft.", specs: { role: "Gunship", firstFlight: "1966", engines: "4 x turboprop" } },
-  { id: "c130", model: "Lockheed C-130 Hercules", type: "military", wikiTitle: "Lockheed C-130 Hercules", fact: "A rugged turboprop transport with a high wing and rear ramp.", specs: { role: "Tactical airlifter", firstFlight: "1954", engines: "4 x turboprop" } },
-  { id: "c5", model: "Lockheed C-5 Galaxy", type: "military", wikiTitle: "Lockheed C-5 Galaxy", fact: "A massive strategic airlifter with a distinctive high T-tail.", specs: { role: "Strategic airlifter", firstFlight: "1968", engines: "4 x turbofan" } },
-  { id: "v22", model: "Bell Boeing V-22 Osprey", type: "military", wikiTitle: "Bell Boeing V-22 Osprey", fact: "A tiltrotor whose engine nacelles rotate between flight modes.", specs: { role: "Tiltrotor transport", firstFlight: "1989", engines: "2 x T406" } },
-  { id: "apache", model: "Boeing AH-64 Apache", type: "military", wikiTitle: "Boeing AH-64 Apache", fact: "An attack helicopter with tandem seats and a nose-mounted sensor turret.", specs: { role: "Attack helicopter", firstFlight: "1975", engines: "2 x turboshaft" } },
-  { id: "blackhawk", model: "Sikorsky UH-60 Black Hawk", type: "military", wikiTitle: "Sikorsky UH-60 Black Hawk", fact: "A twin-engine utility helicopter with a recognizable angled tail boom.", specs: { role: "Utility helicopter", firstFlight: "1974", engines: "2 x turboshaft" } },
-  { id: "chinook", model: "Boeing CH-47 Chinook", type: "military", wikiTitle: "Boeing CH-47 Chinook", fact: "A tandem-rotor heavy-lift helicopter.", specs: { role: "Heavy-lift helicopter", firstFlight: "1961", engines: "2 x turboshaft" } },
-  { id: "cobra", model: "Bell AH-1 Cobra", type: "military", wikiTitle: "Bell AH-1 Cobra", fact: "A slim tandem-seat attack helicopter developed from the Huey.", specs: { role: "Attack helicopter", firstFlight: "1965", engines: "1 x turboshaft" } },
+  { id: "c130", model: "Lockheed C-130 Hercules", aliases: ["C-130", "Hercules", "Herc"], type: "military", wikiTitle: "Lockheed C-130 Hercules", fact: "A rugged turboprop transport with a high wing and rear ramp.", specs: { role: "Tactical airlifter", firstFlight: "1954", engines: "4 x turboprop" } },
+  { id: "c5", model: "Lockheed C-5 Galaxy", aliases: ["C-5", "Galaxy"], type: "military", wikiTitle: "Lockheed C-5 Galaxy", fact: "A massive strategic airlifter with a distinctive high T-tail.", specs: { role: "Strategic airlifter", firstFlight: "1968", engines: "4 x turbofan" } },
+  { id: "v22", model: "Bell Boeing V-22 Osprey", aliases: ["V-22", "Osprey"], type: "military", wikiTitle: "Bell Boeing V-22 Osprey", fact: "A tiltrotor whose engine nacelles rotate between flight modes.", specs: { role: "Tiltrotor transport", firstFlight: "1989", engines: "2 x T406" } },
+  { id: "apache", model: "Boeing AH-64 Apache", aliases: ["AH-64", "Apache"], type: "military", wikiTitle: "Boeing AH-64 Apache", fact: "An attack helicopter with tandem seats and a nose-mounted sensor turret.", specs: { role: "Attack helicopter", firstFlight: "1975", engines: "2 x turboshaft" } },
+  { id: "blackhawk", model: "Sikorsky UH-60 Black Hawk", aliases: ["UH-60", "Black Hawk", "Blackhawk"], type: "military", wikiTitle: "Sikorsky UH-60 Black Hawk", fact: "A twin-engine utility helicopter with a recognizable angled tail boom.", specs: { role: "Utility helicopter", firstFlight: "1974", engines: "2 x turboshaft" } },
+  { id: "chinook", model: "Boeing CH-47 Chinook", aliases: ["CH-47", "Chinook"], type: "military", wikiTitle: "Boeing CH-47 Chinook", fact: "A tandem-rotor heavy-lift helicopter.", specs: { role: "Heavy-lift helicopter", firstFlight: "1961", engines: "2 x turboshaft" } },
+  { id: "cobra", model: "Bell AH-1 Cobra", aliases: ["AH-1", "Cobra", "HueyCobra"], type: "military", wikiTitle: "Bell AH-1 Cobra", fact: "A slim tandem-seat attack helicopter developed from the Huey.", specs: { role: "Attack helicopter", firstFlight: "1965", engines: "1 x turboshaft" } },
   // More vintage aircraft
-  { id: "dc3", model: "Douglas DC-3", type: "vintage", wikiTitle: "Douglas DC-3", fact: "A legendary twin-engine airliner that transformed commercial aviation.", specs: { role: "Piston airliner", firstFlight: "1935", engines: "2 x radial" } },
-  { id: "dc6", model: "Douglas DC-6", type: "vintage", wikiTitle: "Douglas DC-6", fact: "A polished four-engine piston airliner from the postwar era.", specs: { role: "Piston airliner", firstFlight: "1946", engines: "4 x radial" } },
-  { id: "constellation", model: "Lockheed Constellation", type: "vintage", wikiTitle: "Lockheed Constellation", fact: "A graceful airliner with triple tail and curved fuselage.", specs: { role: "Piston airliner", firstFlight: "1943", engines: "4 x radial" } },
-  { id: "dc10", model: "McDonnell Douglas DC-10", type: "vintage", wikiTitle: "McDonnell Douglas DC-10", fact: "A wide-body trijet with a tail-mounted center engine.", specs: { role: "Wide-body airliner", firstFlight: "1970", engines: "3 x turbofan" } },
-  { id: "l1011", model: "Lockheed L-1011 TriStar", type: "vintage", wikiTitle: "Lockheed L-1011 TriStar", fact: "A wide-body trijet with a distinctive S-shaped center intake.", specs: { role: "Wide-body airliner", firstFlight: "1970", engines: "3 x turbofan" } },
-  { id: "707", model: "Boeing 707", type: "vintage", wikiTitle: "Boeing 707", fact: "The jetliner that helped usher in the age of mass air travel.", specs: { role: "Jet airliner", firstFlight: "1957", engines: "4 x turbojet" } },
+  { id: "dc3", model: "Douglas DC-3", aliases: ["DC-3", "Dakota", "C-47"], type: "vintage", wikiTitle: "Douglas DC-3", fact: "A legendary twin-engine airliner that transformed commercial aviation.", specs: { role: "Piston airliner", firstFlight: "1935", engines: "2 x radial" } },
+  { id: "dc6", model: "Douglas DC-6", aliases: ["DC-6"], type: "vintage", wikiTitle: "Douglas DC-6", fact: "A polished four-engine piston airliner from the postwar era.", specs: { role: "Piston airliner", firstFlight: "1946", engines: "4 x radial" } },
+  { id: "constellation", model: "Lockheed Constellation", aliases: ["Connie"], type: "vintage", wikiTitle: "Lockheed Constellation", fact: "A graceful airliner with triple tail and curved fuselage.", specs: { role: "Piston airliner", firstFlight: "1943", engines: "4 x radial" } },
+  { id: "dc10", model: "McDonnell Douglas DC-10", aliases: ["DC-10"], type: "vintage", wikiTitle: "McDonnell Douglas DC-10", fact: "A wide-body trijet with a tail-mounted center engine.", specs: { role: "Wide-body airliner", firstFlight: "1970", engines: "3 x turbofan" } },
+  { id: "l1011", model: "Lockheed L-1011 TriStar", aliases: ["L-1011", "TriStar"], type: "vintage", wikiTitle: "Lockheed L-1011 TriStar", fact: "A wide-body trijet with a distinctive S-shaped center intake.", specs: { role: "Wide-body airliner", firstFlight: "1970", engines: "3 x turbofan" } },
+  { id: "707", model: "Boeing 707", aliases: ["707"], type: "vintage", wikiTitle: "Boeing 707", fact: "The jetliner that helped usher in the age of mass air travel.", specs: { role: "Jet airliner", firstFlight: "1957", engines: "4 x turbojet" } },
   { id: "caravelle", model: "Sud Aviation Caravelle", type: "vintage", wikiTitle: "Sud Aviation Caravelle", fact: "An early rear-engined jet with cockpit windows shaped like eyebrows.", specs: { role: "Jet airliner", firstFlight: "1955", engines: "2 x turbojet" } },
   { id: "comet", model: "de Havilland Comet", type: "vintage", wikiTitle: "de Havilland Comet", fact: "The world's first production jet airliner.", specs: { role: "Jet airliner", firstFlight: "1949", engines: "4 x turbojet" } },
-  { id: "p51", model: "North American P-51 Mustang", type: "vintage", wikiTitle: "North American P-51 Mustang", fact: "A fast long-range fighter with a distinctive radiator scoop.", specs: { role: "Fighter", firstFlight: "1940", engines: "1 x Merlin piston" } },
+  { id: "p51", model: "North American P-51 Mustang", aliases: ["P-51", "Mustang"], type: "vintage", wikiTitle: "North American P-51 Mustang", fact: "A fast long-range fighter with a distinctive radiator scoop.", specs: { role: "Fighter", firstFlight: "1940", engines: "1 x Merlin piston" } },
   { id: "p38", model: "Lockheed P-38 Lightning", type: "vintage", wikiTitle: "Lockheed P-38 Lightning", fact: "A twin-boom fighter with twin engines and a central cockpit pod.", specs: { role: "Fighter", firstFlight: "1939", engines: "2 x Allison piston" } },
   { id: "p47", model: "Republic P-47 Thunderbolt", type: "vintage", wikiTitle: "Republic P-47 Thunderbolt", fact: "A large radial-engine fighter known for ruggedness.", specs: { role: "Fighter-bomber", firstFlight: "1941", engines: "1 x radial" } },
   { id: "avro-lancaster", model: "Avro Lancaster", type: "vintage", wikiTitle: "Avro Lancaster", fact: "A four-engine bomber with a clean, narrow fuselage.", specs: { role: "Heavy bomber", firstFlight: "1941", engines: "4 x Merlin piston" } },
-  { id: "ju52", model: "Junkers Ju 52", type: "vintage", wikiTitle: "Junkers Ju 52", fact: "A corrugated-metal transport with three radial engines.", specs: { role: "Transport aircraft", firstFlight: "1930", engines: "3 x radial" } },
+  { id: "ju52", model: "Junkers Ju 52", aliases: ["Ju 52", "Tante Ju"], type: "vintage", wikiTitle: "Junkers Ju 52", fact: "A corrugated-metal transport with three radial engines.", specs: { role: "Transport aircraft", firstFlight: "1930", engines: "3 x radial" } },
   { id: "fokker-dr1", model: "Fokker Dr.I", type: "vintage", wikiTitle: "Fokker Dr.I", fact: "A compact World War I triplane fighter.", specs: { role: "Fighter", firstFlight: "1917", engines: "1 x rotary" } },
   { id: "camel", model: "Sopwith Camel", type: "vintage", wikiTitle: "Sopwith Camel", fact: "A famous World War I biplane with twin synchronized guns.", specs: { role: "Fighter", firstFlight: "1916", engines: "1 x rotary" } },
   // More general aviation
-  { id: "c150", model: "Cessna 150", type: "general", wikiTitle: "Cessna 150", fact: "A forgiving two-seat trainer found at flying schools worldwide.", specs: { role: "Trainer aircraft", firstFlight: "1957", engines: "1 x piston" } },
-  { id: "c182", model: "Cessna 182 Skylane", type: "general", wikiTitle: "Cessna 182", fact: "A high-wing four-seat aircraft with strong short-field performance.", specs: { role: "General aviation", firstFlight: "1955", engines: "1 x piston" } },
+  { id: "c150", model: "Cessna 150", aliases: ["C150"], type: "general", wikiTitle: "Cessna 150", fact: "A forgiving two-seat trainer found at flying schools worldwide.", specs: { role: "Trainer aircraft", firstFlight: "1957", engines: "1 x piston" } },
+  { id: "c182", model: "Cessna 182 Skylane", aliases: ["Cessna 182", "C182", "Skylane"], type: "general", wikiTitle: "Cessna 182", fact: "A high-wing four-seat aircraft with strong short-field performance.", specs: { role: "General aviation", firstFlight: "1955", engines: "1 x piston" } },
   { id: "c206", model: "Cessna 206", type: "general", wikiTitle: "Cessna 206", fact: "A practical high-wing utility aircraft with a large cabin.", specs: { role: "Utility aircraft", firstFlight: "1962", engines: "1 x piston" } },
-  { id: "c208", model: "Cessna 208 Caravan", type: "general", wikiTitle: "Cessna 208 Caravan", fact: "A rugged single-engine turboprop used for cargo and regional work.", specs: { role: "Utility turboprop", firstFlight: "1982", engines: "1 x PT6A" } },
-  { id: "piper-pa28", model: "Piper PA-28 Cherokee", type: "general", wikiTitle: "Piper PA-28 Cherokee", fact: "A low-wing trainer with a simple, familiar silhouette.", specs: { role: "Trainer aircraft", firstFlight: "1960", engines: "1 x piston" } },
-  { id: "piper-cub", model: "Piper J-3 Cub", type: "general", wikiTitle: "Piper J-3 Cub", fact: "A lightweight taildragger that defined the classic trainer airplane.", specs: { role: "Light aircraft", firstFlight: "1938", engines: "1 x piston" } },
+  { id: "c208", model: "Cessna 208 Caravan", aliases: ["Caravan", "Cessna Caravan"], type: "general", wikiTitle: "Cessna 208 Caravan", fact: "A rugged single-engine turboprop used for cargo and regional work.", specs: { role: "Utility turboprop", firstFlight: "1982", engines: "1 x PT6A" } },
+  { id: "piper-pa28", model: "Piper PA-28 Cherokee", aliases: ["PA-28", "Cherokee"], type: "general", wikiTitle: "Piper PA-28 Cherokee", fact: "A low-wing trainer with a simple, familiar silhouette.", specs: { role: "Trainer aircraft", firstFlight: "1960", engines: "1 x piston" } },
+  { id: "piper-cub", model: "Piper J-3 Cub", aliases: ["J-3 Cub", "Piper Cub", "Cub"], type: "general", wikiTitle: "Piper J-3 Cub", fact: "A lightweight taildragger that defined the classic trainer airplane.", specs: { role: "Light aircraft", firstFlight: "1938", engines: "1 x piston" } },
   { id: "diamond-da40", model: "Diamond DA40", type: "general", wikiTitle: "Diamond DA40", fact: "A modern composite trainer with a high visibility canopy.", specs: { role: "Trainer aircraft", firstFlight: "1997", engines: "1 x piston" } },
   { id: "extra-300", model: "Extra 300", type: "general", wikiTitle: "Extra 300", fact: "An aerobatic aircraft with a strong symmetrical wing.", specs: { role: "Aerobatic aircraft", firstFlight: "1988", engines: "1 x piston" } },
-  { id: "pc12", model: "Pilatus PC-12", type: "general", wikiTitle: "Pilatus PC-12", fact: "A versatile single-engine turboprop with a large cargo door.", specs: { role: "Utility turboprop", firstFlight: "1991", engines: "1 x PT6A" } },
+  { id: "pc12", model: "Pilatus PC-12", aliases: ["PC-12"], type: "general", wikiTitle: "Pilatus PC-12", fact: "A versatile single-engine turboprop with a large cargo door.", specs: { role: "Utility turboprop", firstFlight: "1991", engines: "1 x PT6A" } },
   { id: "pc24", model: "Pilatus PC-24", type: "general", wikiTitle: "Pilatus PC-24", fact: "A business jet designed to use short and unpaved runways.", specs: { role: "Light business jet", firstFlight: "2013", engines: "2 x turbofan" } },
-  { id: "learjet35", model: "Learjet 35", type: "general", wikiTitle: "Learjet 35", fact: "A classic light business jet with rear-mounted engines.", specs: { role: "Business jet", firstFlight: "1973", engines: "2 x turbofan" } },
-  { id: "gulfstream-g650", model: "Gulfstream G650", type: "general", wikiTitle: "Gulfstream G650", fact: "A large business jet with swept wings and oval windows.", specs: { role: "Long-range business jet", firstFlight: "2009", engines: "2 x turbofan" } },
+  { id: "learjet35", model: "Learjet 35", aliases: ["Lear 35"], type: "general", wikiTitle: "Learjet 35", fact: "A classic light business jet with rear-mounted engines.", specs: { role: "Business jet", firstFlight: "1973", engines: "2 x turbofan" } },
+  { id: "gulfstream-g650", model: "Gulfstream G650", aliases: ["G650"], type: "general", wikiTitle: "Gulfstream G650", fact: "A large business jet with swept wings and oval windows.", specs: { role: "Long-range business jet", firstFlight: "2009", engines: "2 x turbofan" } },
   { id: "phenom300", model: "Embraer Phenom 300", type: "general", wikiTitle: "Embraer Phenom 300", fact: "A popular light jet with a swept tail and rear engines.", specs: { role: "Light business jet", firstFlight: "2009", engines: "2 x turbofan" } },
   { id: "searey", model: "Progressive Aerodyne SeaRey", type: "general", wikiTitle: "Progressive Aerodyne SeaRey", fact: "An amphibious light aircraft with a pusher propeller.", specs: { role: "Amphibious aircraft", firstFlight: "1992", engines: "1 x piston" } },
 ];
 
+// Aircraft that are easy to confuse at a glance. Expert questions draw
+// distractors from these groups before falling back to similar specs.
+export const LOOK_ALIKE_GROUPS: string[][] = [
+  // Single-aisle twinjets
+  ["b738", "b38m", "b737-900", "b737-200", "a20n", "a21n", "a319", "a318", "a321xlr", "comac-c919"],
+  ["b752", "b738", "a21n", "a321xlr"],
+  // Twin-aisle twinjets
+  ["b763", "b77w", "b777-200", "b777x", "b789", "b787-8", "a332", "a339", "a359", "a350-1000"],
+  // Four-engine wide-bodies
+  ["b744", "b747-8", "a388", "a380f", "a340"],
+  // Regional jets
+  ["e175", "e190", "e190e2", "ssj100"],
+  ["crj900", "b717", "fokker100", "caravelle"],
+  // Regional turboprops
+  ["atr726", "atr72", "q400", "dash8"],
+  // Trijets
+  ["727", "b727", "dc10", "l1011"],
+  // Early jetliners
+  ["707", "comet", "concorde"],
+  // Piston airliners and transports
+  ["dc3", "dc4", "dc6", "constellation", "ju52", "beech18"],
+  // Twin-tail fighters
+  ["f15", "su27", "mig29", "f14", "f18", "f22", "su57"],
+  // Single-engine and delta fighters
+  ["f16", "f35", "mirage2000", "mirageiii"],
+  ["typhoon", "rafale", "mirage2000"],
+  // Attack and strike jets
+  ["a10", "jaguar", "tornado", "harrier"],
+  // Bombers
+  ["b52", "b1b", "tu160", "tu95", "b2"],
+  // Military transports
+  ["c130j", "c130", "ac130", "c17", "il76", "c5"],
+  // Helicopters and tiltrotors
+  ["uh60", "blackhawk", "chinook", "v22"],
+  ["apache", "cobra"],
+  // Trainers
+  ["yak130", "t50"],
+  // Piston warbirds
+  ["spitfire", "p51", "me109", "p47", "p38"],
+  ["b17", "b29", "avro-lancaster"],
+  ["camel", "fokker-dr1", "an2"],
+  // High-wing light aircraft
+  ["c172", "c182", "c150", "c206", "piper-cub"],
+  // Low-wing light aircraft
+  ["pa28", "piper-pa28", "sr22", "cirrus-sr22", "diamond-da40", "mooney-m20", "rv7", "extra-300"],
+  // Single-engine turboprops
+  ["pc12", "tbm900", "c208", "pa46"],
+  // Light twins
+  ["kingair350", "be58", "da42"],
+  // Business jets
+  ["pc24", "learjet35", "gulfstream-g650", "phenom300"],
+];
+
+// The career path: each tier is a hand-picked set, from the jets most people
+// fly on to rare light aircraft. The ids and their order are mirrored by the
+// /api/progress routes, which only record a tier once the one before it is
+// cleared.
+export type CampaignTier = { id: string; title: string; description: string; aircraftIds: string[] };
+
+export const CAMPAIGN_TIERS: CampaignTier[] = [
+  {
+    id: "airliners",
+    title: "Common airliners",
+    description: "The Boeing and Airbus jets you see at every airport.",
+    aircraftIds: ["b738", "b38m", "a20n", "a21n", "a319", "b752", "b763", "b77w", "b789", "a332", "a359", "a388", "b744", "e175"],
+  },
+  {
+    id: "military",
+    title: "Military jets",
+    description: "Frontline fighters, bombers, transports and helicopters.",
+    aircraftIds: ["f16", "f15", "f18", "f22", "f35", "a10", "typhoon", "rafale", "su27", "mig29", "b52", "b2", "c130j", "c17", "apache", "chinook"],
+  },
+  {
+    id: "vintage",
+    title: "Vintage classics",
+    description: "Warbirds and the airliners that started the jet age.",
+    aircraftIds: ["dc3", "constellation", "707", "comet", "concorde", "dc10", "l1011", "spitfire", "p51", "me109", "b17", "b29", "avro-lancaster", "ju52", "camel", "fokker-dr1"],
+  },
+  {
+    id: "rare-ga",
+    title: "Rare general aviation",
+    description: "Homebuilts, aerobatic specials, amphibians and business jets.",
+    aircraftIds: ["rv7", "mooney-m20", "extra-300", "searey", "piper-cub", "diamond-da40", "da42", "be58", "pa46", "tbm900", "pc24", "learjet35", "gulfstream-g650", "phenom300"],
+  },
+];
+
 export const TYPES: Array<Aircraft["type"]> = [
   "commercial",
   "military",
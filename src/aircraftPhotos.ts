@@ -0,0 +1,142 @@
+import type { Aircraft } from "./aircraftData";
+
+// Photo lookup shared by the browser and the multiplayer room server, which
+// resolves each room question's photo itself so no answer reaches players.
+
+// Wikipedia API cache (in-memory, plus localStorage where the runtime has one)
+const wikiCache: Record<string, string> = {};
+const COMMONS_EXTERIOR_SEARCH: Record<string, string> = {
+  "Gulfstream G650": "Gulfstream G650 aircraft exterior in flight",
+};
+const PREFERRED_AIRCRAFT_IMAGES: Record<string, string> = {
+  "Gulfstream G650":
+    "https://upload.wikimedia.org/wikipedia/commons/thumb/d/d6/G-ULFS_Gulfstream_G650_CVT_05-05-16_%2827046023031%29_%28cropped%29.jpg/1280px-G-ULFS_Gulfstream_G650_CVT_05-05-16_%2827046023031%29_%28cropped%29.jpg",
+};
+
+function fetchWithTimeout(url: string, timeoutMs = 6000) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  return fetch(url, { signal: controller.signal }).finally(() =>
+    clearTimeout(timeout)
+  );
+}
+
+// The room server has no localStorage and keeps its cache in memory only.
+type UrlStorage = { getItem(key: string): string | null; setItem(key: string, value: string): void };
+const urlStorage = () => (globalThis as { localStorage?: UrlStorage }).localStorage;
+
+function readStoredUrl(key: string) {
+  try {
+    return urlStorage()?.getItem(key) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function rememberUrl(key: string, url: string) {
+  wikiCache[key] = url;
+  try {
+    urlStorage()?.setItem(key, url);
+  } catch {
+    // Continue without persistent caching when storage is unavailable.
+  }
+}
+
+export async function fetchWikipediaImage(model: string): Promise<string | null> {
+  if (PREFERRED_AIRCRAFT_IMAGES[model]) {
+    return PREFERRED_AIRCRAFT_IMAGES[model];
+  }
+  const cacheKey = `wikiimg:v2:${model}`;
+  if (wikiCache[cacheKey]) return wikiCache[cacheKey];
+  const ls = readStoredUrl(cacheKey);
+  if (ls) {
+    wikiCache[cacheKey] = ls;
+    return ls;
+  }
+
+  const exteriorSearch = COMMONS_EXTERIOR_SEARCH[model];
+  if (exteriorSearch) {
+    try {
+      const url = `https://commons.wikimedia.org/w/api.php?action=query&generator=search&gsrsearch=${encodeURIComponent(
+        exteriorSearch
+      )}&gsrnamespace=6&gsrlimit=12&prop=imageinfo&iiprop=url|mime&iiurlwidth=1000&format=json&origin=*`;
+      const response = await fetchWithTimeout(url);
+      if (response.ok) {
+        const data: any = await response.json();
+        const pages = Object.values(data?.query?.pages || {}) as any[];
+        const exterior = pages
+          .map((page) => page?.imageinfo?.[0])
+          .find((info) => info?.mime?.startsWith("image/") && info?.thumburl);
+        const exteriorUrl = exterior?.thumburl || exterior?.url;
+        if (exteriorUrl) {
+          rememberUrl(cacheKey, exteriorUrl);
+          return exteriorUrl;
+        }
+      }
+    } catch {
+      // Do not fall back to an interior lead image for an exterior-only entry.
+    }
+    return null;
+  }
+
+  const tryTitles = [model, `${model} (aircraft)`, model.replaceAll("-", " ")];
+  const results = await Promise.all(
+    tryTitles.map(async (t) => {
+      try {
+      const url = `https://en.wikipedia.org/w/api.php?action=query&prop=pageimages&format=json&piprop=thumbnail|original&pithumbsize=1000&titles=${encodeURIComponent(
+        t
+      )}&origin=*`;
+      const res = await fetchWithTimeout(url);
+      if (!res.ok) return null;
+      const data: any = await res.json();
+      const pages = data?.query?.pages || {};
+      for (const k of Object.keys(pages)) {
+        const p = pages[k];
+        const src = p?.thumbnail?.source || p?.original?.source;
+        if (src) return src as string;
+      }
+      return null;
+      } catch {
+        return null;
+      }
+    })
+  );
+
+  const src = results.find((result): result is string => !!result);
+  if (src) {
+    rememberUrl(cacheKey, src);
+    return src;
+  }
+
+  // Some aircraft pages have no usable lead image. Search Wikimedia Commons
+  // directly so a valid photo can still be found for the aircraft.
+  try {
+    const searchUrl = `https://commons.wikimedia.org/w/api.php?action=query&generator=search&gsrsearch=${encodeURIComponent(
+      model
+    )}&gsrnamespace=6&gsrlimit=10&prop=imageinfo&iiprop=url|mime&iiurlwidth=1000&format=json&origin=*`;
+    const response = await fetchWithTimeout(searchUrl);
+    if (response.ok) {
+      const data: any = await response.json();
+      const pages = Object.values(data?.query?.pages || {}) as any[];
+      const image = pages
+        .map((page) => page?.imageinfo?.[0])
+        .find((info) => info?.mime?.startsWith("image/") && info?.thumburl);
+      const commonsUrl = image?.thumburl || image?.url;
+      if (commonsUrl) {
+        rememberUrl(cacheKey, commonsUrl);
+        return commonsUrl;
+      }
+    }
+  } catch {
+    // The caller will try another aircraft or show the retry state.
+  }
+  return null;
+}
+
+// A curated wikiTitle can point at a page without a usable lead image, so
+// the plain model name is tried as a second source before giving up.
+export async function lookupAircraftPhoto(a: Aircraft): Promise<string | null> {
+  const primary = await fetchWikipediaImage(a.wikiTitle || a.model);
+  if (primary || !a.wikiTitle || a.wikiTitle === a.model) return primary;
+  return fetchWikipediaImage(a.model);
+}
@@ -0,0 +1,177 @@
+import { LOOK_ALIKE_GROUPS, type Aircraft } from "./aircraftData";
+
+// Round planning shared by the browser and the multiplayer room server: the
+// same seed and pool always give the same questions, in the same order.
+
+export const OPTIONS_PER_QUESTION = 4; // Fixed at 4 choices
+const EXPERT_CANDIDATES = 6; // closest look-alikes an Expert question picks from
+const EASY_MAX_SIMILARITY = 2; // Easy distractors share little with the answer
+const PLAN_SPARES = 3; // seeded stand-ins per planned question, like the 4 aircraft a random draw tries
+
+export type Difficulty = "easy" | "normal" | "expert";
+// `spares` stand in, in order, when the planned aircraft's photo will not load.
+export type RoundQuestion = { correct: Aircraft; options: Aircraft[]; spares?: RoundQuestion[] };
+export type SpecClue = { headline: string; fact: string | null };
+
+export function randInt(n: number, random = Math.random) {
+  return Math.floor(random() * n);
+}
+
+export function shuffle<T>(arr: T[], random = Math.random): T[] {
+  const a = [...arr];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
+
+// FNV-1a keeps seeds readable ("daily:2025-01-31") while giving mulberry32 a
+// well-mixed 32-bit starting state.
+function hashSeed(value: string) {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+export function seededRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function engineProfile(engines = "") {
+  const [, count = "", kind = engines] = engines.match(/^(\d+)\s*x\s*(.+)$/i) || [];
+  const lower = kind.toLowerCase();
+  const family = /turboprop|turboshaft|pt6a|pw1[25]\d/.test(lower)
+    ? "turboprop"
+    : /radial|piston|merlin|griffon/.test(lower) ? "piston" : "jet";
+  return { count, family };
+}
+
+function roleWords(a: Aircraft) {
+  return a.specs.role.toLowerCase().split(/[\s-]+/).filter((word) => word.length > 2);
+}
+
+// Higher values mean two aircraft are easier to confuse: a shared look-alike
+// group dominates, then role, manufacturer, engine layout and era.
+export function aircraftSimilarity(a: Aircraft, b: Aircraft) {
+  let similarity = 0;
+  if (LOOK_ALIKE_GROUPS.some((group) => group.includes(a.id) && group.includes(b.id))) similarity += 6;
+  if (a.specs.role === b.specs.role) similarity += 3;
+  else similarity += roleWords(a).filter((word) => roleWords(b).includes(word)).length;
+  if (a.model.split(" ")[0].toLowerCase() === b.model.split(" ")[0].toLowerCase()) similarity += 2;
+  const engineA = engineProfile(a.specs.engines);
+  const engineB = engineProfile(b.specs.engines);
+  if (engineA.family === engineB.family) similarity += 1;
+  if (engineA.count && engineA.count === engineB.count) similarity += 1;
+  if (a.type === b.type) similarity += 1;
+  if (Math.abs(Number(a.specs.firstFlight) - Number(b.specs.firstFlight)) <= 15) similarity += 1;
+  return similarity;
+}
+
+export function buildOptions(correct: Aircraft, pool: Aircraft[], random = Math.random, difficulty: Difficulty = "normal", optionCount = OPTIONS_PER_QUESTION) {
+  // The pool repeats a few aircraft under other ids or names; never offer one twice.
+  const others = pool.filter((a, index) =>
+    a.id !== correct.id &&
+    a.model !== correct.model &&
+    pool.findIndex((b) => b.id === a.id || b.model === a.model) === index
+  );
+  let candidates = others;
+  if (difficulty === "expert") {
+    // Shuffling first lets equally similar aircraft rotate between rounds.
+    candidates = shuffle(others, random)
+      .sort((a, b) => aircraftSimilarity(correct, b) - aircraftSimilarity(correct, a))
+      .slice(0, EXPERT_CANDIDATES);
+  } else if (difficulty === "easy") {
+    const distinct = others.filter((a) => aircraftSimilarity(correct, a) <= EASY_MAX_SIMILARITY);
+    if (distinct.length >= optionCount - 1) candidates = distinct;
+  }
+  const distractors = shuffle(candidates, random).slice(0, optionCount - 1);
+  return shuffle([correct, ...distractors], random);
+}
+
+// Every player who builds a round from the same seed and pool receives the
+// same aircraft, the same options and the same order. Spares draw from a
+// second stream so they never shift the main round, and prefer aircraft the
+// round does not already use.
+export function buildSeededRound(seed: string, pool: Aircraft[], count: number, difficulty: Difficulty = "normal", optionCount = OPTIONS_PER_QUESTION): RoundQuestion[] {
+  const random = seededRandom(seed);
+  const spareRandom = seededRandom(`${seed}:spares`);
+  const unique = pool.filter((a, index) => pool.findIndex((b) => b.id === a.id) === index);
+  const order = shuffle(unique, random);
+  const unused = order.length > count ? order.slice(count) : order;
+  return Array.from({ length: count }, (_, index) => {
+    const correct = order[index % order.length];
+    const options = buildOptions(correct, unique, random, difficulty, optionCount);
+    const spares = shuffle(unused.filter((a) => a.id !== correct.id), spareRandom)
+      .slice(0, PLAN_SPARES)
+      .map((spare) => ({ correct: spare, options: buildOptions(spare, unique, spareRandom, difficulty, optionCount) }));
+    return { correct, options, spares };
+  });
+}
+
+// A text-only clue such as "Wide-body airliner, first flew 1994, 2 x GE90-115B".
+// The fact is left out when it mentions part of the aircraft's name.
+export function aircraftClue(a: Aircraft): SpecClue {
+  const headline = [
+    a.specs.role,
+    a.specs.firstFlight && `first flew ${a.specs.firstFlight}`,
+    a.specs.engines,
+  ].filter(Boolean).join(", ");
+  const giveaways = [a.model, ...(a.aliases || [])]
+    .flatMap((name) => name.toLowerCase().split(/[\s/]+/))
+    .filter((token) => token.length >= 3 || /\d/.test(token));
+  const fact = a.fact.toLowerCase();
+  return { headline, fact: giveaways.some((token) => fact.includes(token)) ? null : a.fact };
+}
+
+// Swap out distractors whose clue reads exactly like the answer's.
+export function distinctClueOptions(correct: Aircraft, options: Aircraft[], pool: Aircraft[]) {
+  const headline = aircraftClue(correct).headline;
+  const spares = shuffle(pool.filter((a) =>
+    !options.some((o) => o.id === a.id || o.model === a.model) && aircraftClue(a).headline !== headline
+  ));
+  return options.map((option) =>
+    option.id !== correct.id && aircraftClue(option).headline === headline ? spares.pop() || option : option
+  );
+}
+
+// Each aircraft maps to one generic airframe class, drawn as quiz-safe
+// fallback artwork when no photo can be loaded.
+export type SilhouetteClass =
+  | "narrowbody"
+  | "widebody"
+  | "propliner"
+  | "fighter"
+  | "bomber"
+  | "helicopter"
+  | "warbird"
+  | "biplane"
+  | "light"
+  | "bizjet";
+
+export function silhouetteClass(a: Aircraft): SilhouetteClass {
+  const role = a.specs.role.toLowerCase();
+  const engine = engineProfile(a.specs.engines);
+  if (/helicopter|tiltrotor/.test(role)) return "helicopter";
+  if (role.includes("biplane") || Number(a.specs.firstFlight) < 1925) return "biplane";
+  if (role.includes("bomber") && !role.includes("fighter")) return "bomber";
+  if (role.includes("business jet")) return "bizjet";
+  if (/fighter|attack|strike|close.air|interceptor|jet trainer/.test(role)) {
+    return engine.family === "piston" ? "warbird" : "fighter";
+  }
+  if (engine.family !== "jet" || role.includes("turboprop")) {
+    return /airliner|regional|transport|airlifter|gunship|cargo/.test(role) ? "propliner" : "light";
+  }
+  if (/wide-body|very large|airlifter|transport|cargo/.test(role)) return "widebody";
+  return "narrowbody";
+}
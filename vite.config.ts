@@ -1,6 +1,7 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { roomDevServer } from './server/roomDevServer'
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), roomDevServer()],
 })
@@ -0,0 +1,41 @@
+import { QuizRoom, isValidRoomCode, type RoomSocket } from "../../server/rooms";
+
+// One Durable Object per room code. Pages reaches it through the ROOMS
+// binding in /api/rooms; the object keeps the room in memory while any
+// socket is open.
+export class QuizRoomObject {
+  private room: QuizRoom | null = null;
+
+  async fetch(request: Request) {
+    const url = new URL(request.url);
+    const token = url.searchParams.get("photo");
+    if (token) {
+      const photo = this.room?.photoFor(token);
+      if (!photo) return Response.json({ error: "Photo not found" }, { status: 404 });
+      return new Response(photo.body, { headers: { "Content-Type": photo.contentType, "Cache-Control": "private, max-age=300" } });
+    }
+    if (request.headers.get("Upgrade") !== "websocket") {
+      return Response.json({ error: "Expected a WebSocket upgrade" }, { status: 426 });
+    }
+    const code = (url.searchParams.get("code") || "").toUpperCase();
+    if (!isValidRoomCode(code)) return Response.json({ error: "Invalid room code" }, { status: 400 });
+    const room = (this.room ||= new QuizRoom(code));
+
+    const { 0: client, 1: server } = new WebSocketPair();
+    server.accept();
+    const socket: RoomSocket = {
+      send: (message) => server.send(message),
+      close: (closeCode, reason) => server.close(closeCode, reason),
+    };
+    server.addEventListener("message", (event) => room.receive(socket, String(event.data)));
+    server.addEventListener("close", () => room.disconnect(socket));
+    server.addEventListener("error", () => room.disconnect(socket));
+    return new Response(null, { status: 101, webSocket: client });
+  }
+}
+
+export default {
+  fetch() {
+    return Response.json({ error: "Rooms are reached through /api/rooms" }, { status: 404 });
+  },
+};